@@ -1,6 +1,8 @@
 import React, { useState, useEffect, useRef } from 'react';
 import { createClient } from '@supabase/supabase-js';
 import L from 'leaflet';
+import { VectorTile } from '@mapbox/vector-tile';
+import { PbfReader } from 'pbf';
 
 // API base url (frontend can override with REACT_APP_API_URL, VITE_API_URL or window.__API_URL__)
 // Use safe runtime checks so bundlers don't leave `process` in the client bundle.
@@ -14,6 +16,24 @@ const API_BASE = (
 ).replace(/\/$/, '');
 import { MapPin, Menu, X, LogIn, LogOut, User, FileText, Home, Info } from 'lucide-react';
 import { useTranslation } from 'react-i18next';
+import {
+  AuthSyncBody,
+  ChecklistCreateBody,
+  FieldError,
+  fieldErrorMessage,
+  fieldErrorsFromResponse,
+  hasFieldError,
+  NewsItemBody,
+  NewsLanguage,
+  NewsTranslationBody,
+  ObservationValidationBody,
+  PasswordResetBody,
+  PasswordResetRequestBody,
+  RegisterBody,
+  UserRole,
+  validateRequest,
+  ValidationStatus
+} from './validation';
 
 // Supabase client configuration
 // Prefer using Vite env vars: VITE_SUPABASE_URL and VITE_SUPABASE_ANON_KEY
@@ -34,21 +54,98 @@ function getSupabaseClient() {
 }
 
 // Minimal Auth context + hook used by the app. The app expects an object
-// with { user, login, logout, register, loading, getAccessToken }.
+// with { user, role, hasRole, login, logout, register, loading, getAccessToken }; `legacy` is true when the
+// backend's own accounts are used instead of Supabase, and refreshUser reloads such an account.
 const AuthContext = React.createContext<any>(null);
 
 const FRONTEND_URL = (typeof window !== 'undefined' && window.location?.origin)
   || (typeof document !== 'undefined' && document.baseURI)
   || 'https://tandonia.be';
 
+// Roles in increasing order of privilege, as in the backend's requireRole.
+const USER_ROLES: UserRole[] = ['observer', 'validator', 'admin'];
+
+// Without Supabase the backend's own accounts are used (/api/auth/login and /api/auth/register); their token
+// is kept in localStorage under this key.
+const LEGACY_TOKEN_KEY = 'tandonia.authToken';
+
+// POST to an /api/auth route without a session; rejects with the server's hint or error.
+const postAuthRequest = async (path: string, body: any) => {
+  const res = await fetch(`${API_BASE}${path}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body)
+  });
+  const json = await res.json().catch(() => null);
+  if (!res.ok) throw new Error(json?.hint || json?.error || `Request failed with status ${res.status}`);
+  return json;
+};
+
+// Verification and password reset mails link to /?page=verify-email&token=... or /?page=reset-password&token=...
+// Read once at load, before App takes the token out of the address bar.
+const AUTH_LINK_PAGES = ['verify-email', 'reset-password'];
+const AUTH_LINK = (() => {
+  if (typeof window === 'undefined') return null;
+  const params = new URLSearchParams(window.location.search);
+  const page = params.get('page');
+  return page && AUTH_LINK_PAGES.includes(page) ? { page, token: params.get('token') } : null;
+})();
+
 const useAuth = () => {
+  const { i18n } = useTranslation();
   const [user, setUser] = useState<any>(null);
+  const [role, setRole] = useState<UserRole>('observer');
   const [loading, setLoading] = useState<boolean>(true);
+  const legacy = !getSupabaseClient();
+
+  // The legacy account of the stored token (/api/auth/me); a token the backend no longer accepts is dropped.
+  const loadLegacyUser = async () => {
+    const token = localStorage.getItem(LEGACY_TOKEN_KEY);
+    if (!token) {
+      setUser(null);
+      return;
+    }
+    try {
+      const res = await fetch(`${API_BASE}/api/auth/me`, { headers: { Authorization: `Bearer ${token}` } });
+      if (res.status === 401 || res.status === 403) {
+        localStorage.removeItem(LEGACY_TOKEN_KEY);
+        setUser(null);
+        return;
+      }
+      if (!res.ok) throw new Error(`Request failed with status ${res.status}`);
+      setUser(await res.json());
+    } catch (err) {
+      console.warn('Failed to load the signed-in account', err);
+    }
+  };
+
+  // Creates or updates the backend profile of a Supabase session (display name, locale) and links the
+  // legacy account with the same address. The name defaults to the one given at sign-up.
+  const syncProfile = async (session: any, name?: string) => {
+    if (!session?.access_token || !session.user) return;
+    const body: AuthSyncBody = {
+      email: session.user.email ?? null,
+      name: name ?? null,
+      locale: i18n.language.split('-')[0] as AuthSyncBody['locale']
+    };
+    try {
+      await fetch(`${API_BASE}/api/auth/sync`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${session.access_token}`
+        },
+        body: JSON.stringify(body)
+      });
+    } catch (syncError) {
+      console.error('Auth sync failed', syncError);
+    }
+  };
 
   useEffect(() => {
     const supabase = getSupabaseClient();
     if (!supabase) {
-      setLoading(false);
+      loadLegacyUser().finally(() => setLoading(false));
       return;
     }
 
@@ -62,8 +159,10 @@ const useAuth = () => {
         if (isMounted) setLoading(false);
       });
 
-    const { data: listener } = supabase.auth.onAuthStateChange((_event, session) => {
+    const { data: listener } = supabase.auth.onAuthStateChange((event, session) => {
       if (isMounted) setUser(session?.user ?? null);
+      // Also covers sessions that start from the confirmation link, where register() had no session yet
+      if (event === 'SIGNED_IN') syncProfile(session);
     });
 
     return () => {
@@ -74,7 +173,12 @@ const useAuth = () => {
 
   const login = async (email: string, password: string) => {
     const supabase = getSupabaseClient();
-    if (!supabase) throw new Error('Supabase not configured');
+    if (!supabase) {
+      const data = await postAuthRequest('/api/auth/login', { email, password });
+      localStorage.setItem(LEGACY_TOKEN_KEY, data.token);
+      setUser(data.user);
+      return data;
+    }
     const { data, error } = await supabase.auth.signInWithPassword({ email, password });
     if (error) throw error;
     return data;
@@ -82,7 +186,11 @@ const useAuth = () => {
 
   const logout = async () => {
     const supabase = getSupabaseClient();
-    if (!supabase) return;
+    if (!supabase) {
+      localStorage.removeItem(LEGACY_TOKEN_KEY);
+      setUser(null);
+      return;
+    }
     const { error } = await supabase.auth.signOut();
     if (error) throw error;
     setUser(null);
@@ -90,7 +198,14 @@ const useAuth = () => {
 
   const register = async (email: string, password: string, name: string) => {
     const supabase = getSupabaseClient();
-    if (!supabase) throw new Error('Supabase not configured');
+    if (!supabase) {
+      const body: RegisterBody = { email, password, name, locale: i18n.language.split('-')[0] as RegisterBody['locale'] };
+      const data = await postAuthRequest('/api/auth/register', body);
+      localStorage.setItem(LEGACY_TOKEN_KEY, data.token);
+      setUser(data.user);
+      // Signed in right away, like a Supabase sign-up without email confirmation
+      return { user: data.user, session: { access_token: data.token } };
+    }
     const { data, error } = await supabase.auth.signUp({
       email,
       password,
@@ -101,30 +216,14 @@ const useAuth = () => {
     });
     if (error) throw error;
 
-    if (data?.session?.access_token && data.user) {
-      try {
-        await fetch(`${API_BASE}/api/auth/sync`, {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-            'Authorization': `Bearer ${data.session.access_token}`
-          },
-          body: JSON.stringify({
-            email: data.user.email,
-            name
-          })
-        });
-      } catch (syncError) {
-        console.error('Auth sync failed', syncError);
-      }
-    }
+    await syncProfile(data?.session, name);
 
     return data;
   };
 
   const getAccessToken = async () => {
     const supabase = getSupabaseClient();
-    if (!supabase) return null;
+    if (!supabase) return localStorage.getItem(LEGACY_TOKEN_KEY);
     const { data } = await supabase.auth.getSession();
     const token = data?.session?.access_token ?? null;
     // DEBUG: show whether a token was found (do not log token value)
@@ -132,7 +231,31 @@ const useAuth = () => {
     return token;
   };
 
-  return { user, login, logout, register, loading, getAccessToken };
+  // The role only decides which UI is shown; the backend checks it again on every privileged request.
+  useEffect(() => {
+    if (!user) {
+      setRole('observer');
+      return;
+    }
+    let mounted = true;
+    (async () => {
+      try {
+        const token = await getAccessToken();
+        if (!token) return;
+        const res = await fetch(`${API_BASE}/api/auth/me`, { headers: { Authorization: `Bearer ${token}` } });
+        if (!res.ok) throw new Error(`Request failed with status ${res.status}`);
+        const me = await res.json();
+        if (mounted && USER_ROLES.includes(me?.role)) setRole(me.role);
+      } catch (err) {
+        console.warn('Failed to load user role', err);
+      }
+    })();
+    return () => { mounted = false; };
+  }, [user?.id]);
+
+  const hasRole = (required: UserRole) => USER_ROLES.indexOf(role) >= USER_ROLES.indexOf(required);
+
+  return { user, role, hasRole, login, logout, register, loading, getAccessToken, legacy, refreshUser: loadLegacyUser };
 };
 
 const ImageCredit = ({ author, license }: { author?: string | null; license?: string | null }) => (
@@ -172,7 +295,7 @@ const TandoniaApp = () => {
       try {
         const supabase = getSupabaseClient();
         if (!supabase) throw new Error('no-supabase');
-        const { data, error } = await supabase.from('news').select('*').order('date', { ascending: false });
+        const { data, error } = await supabase.from('news').select('*').eq('draft', false).order('published_date', { ascending: false });
         if (error) throw error;
         setItems(Array.isArray(data) ? data : []);
         setLoading(false);
@@ -195,17 +318,20 @@ const TandoniaApp = () => {
 };
 
 const NewsPage = () => {
-  const { t } = useTranslation();
+  const { t, i18n } = useTranslation();
   const [items, setItems] = useState<any[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
+  // Refetched when the language changes: /api/news serves translated items where available.
   useEffect(() => {
     let mounted = true;
+    setLoading(true);
+    setError(null);
 
     const loadFromApi = async () => {
       try {
-        const res = await fetch(`${API_BASE}/api/news`);
+        const res = await fetch(`${API_BASE}/api/news?lang=${i18n.language}`);
         if (!res.ok) throw new Error('no-api');
         const data = await res.json();
         if (!mounted) return;
@@ -222,7 +348,7 @@ const NewsPage = () => {
       try {
         const supabase = getSupabaseClient();
         if (!supabase) throw new Error('no-supabase');
-        const { data, error } = await supabase.from('news').select('*').order('date', { ascending: false });
+        const { data, error } = await supabase.from('news').select('*').eq('draft', false).order('published_date', { ascending: false });
         if (error) throw error;
         if (!mounted) return;
         setItems(data ?? []);
@@ -242,17 +368,31 @@ const NewsPage = () => {
     })();
 
     return () => { mounted = false; };
-  }, []);
+  }, [i18n.language]);
+
+  // Feed entries link to #news-<id>; scroll there once the items are on the page.
+  useEffect(() => {
+    if (loading || !window.location.hash.startsWith('#news-')) return;
+    document.getElementById(window.location.hash.slice(1))?.scrollIntoView();
+  }, [loading]);
+
+  const feedLang = i18n.language.split('-')[0];
 
   if (loading) return <div className="max-w-4xl mx-auto">{t('news.reading') || 'Loading...'}</div>;
   if (error) return <div className="max-w-4xl mx-auto has-text-danger">{error}</div>;
 
   return (
     <div className="max-w-4xl mx-auto">
+      <p className="help-note has-text-right mb-3">
+        {t('news.subscribe')}{' '}
+        <a href={`${API_BASE}/api/news/feed.rss?lang=${feedLang}`}>RSS</a>
+        {' · '}
+        <a href={`${API_BASE}/api/news/feed.atom?lang=${feedLang}`}>Atom</a>
+      </p>
       <div className="timeline">
         {items.map((item: any, idx: number) => (
-          <article key={item.id ?? idx} className="timeline-item">
-            <div className="timeline-date">{item.date || item.published_at || ''}</div>
+          <article key={item.id ?? idx} id={`news-${item.id}`} className="timeline-item">
+            <div className="timeline-date">{item.published_date ? new Date(item.published_date).toLocaleDateString(i18n.language) : ''}</div>
 
                 {item.image_url && (
               <figure className="figure-credit-wrapper">
@@ -265,7 +405,10 @@ const NewsPage = () => {
             )}
 
             <h3 className="timeline-title">{item.title}</h3>
-            <p className="has-text-grey-dark" style={{ lineHeight: 1.6 }}>{item.content || item.body || item.excerpt}</p>
+            {item.lang && item.lang !== i18n.language.split('-')[0] && (
+              <p className="is-size-7 has-text-grey mb-2">{t('news.notTranslated', { language: t(`news.languages.${item.lang}`) })}</p>
+            )}
+            <p className="has-text-grey-dark" style={{ lineHeight: 1.6, whiteSpace: 'pre-line' }}>{item.content}</p>
 
             {/* Removed 'Lees meer' button as requested */}
           </article>
@@ -591,6 +734,12 @@ const ExploreSpeciesPage = () => {
                 <strong>Notes:</strong>
                 <div>{selected.notes || selected.description || '—'}</div>
               </div>
+              {selected.species && (
+                <div style={{ marginTop: 12 }}>
+                  <strong>{t('explore.distribution')}</strong>
+                  <SpeciesDistributionMap speciesKey={selected.species} />
+                </div>
+              )}
             </section>
             <footer className="modal-card-foot">
               <button className="button" onClick={() => setSelected(null)}>Close</button>
@@ -659,7 +808,13 @@ const TerrestrialGastropodsIdentificationPage = () => {
 
 const AboutPage = ({ onNavigate }: any) => {
   const { t } = useTranslation();
-  const [stats, setStats] = useState({ checklists: null, visited_grid_cells: null, total_grid_cells: null });
+  const [stats, setStats] = useState({
+    checklists: null,
+    visited_grid_cells: null,
+    total_grid_cells: null,
+    species_recorded: null,
+    observers: null
+  });
 
   useEffect(() => {
     let mounted = true;
@@ -674,7 +829,9 @@ const AboutPage = ({ onNavigate }: any) => {
         setStats({
           checklists: data.checklists ?? 0,
           visited_grid_cells: data.visited_grid_cells ?? 0,
-          total_grid_cells: data.total_grid_cells ?? 0
+          total_grid_cells: data.total_grid_cells ?? 0,
+          species_recorded: data.species_recorded ?? 0,
+          observers: data.observers ?? 0
         });
       })
       .catch((err) => {
@@ -730,6 +887,16 @@ const AboutPage = ({ onNavigate }: any) => {
                 </div>
                 <div className="label">{t('about.stats.coverage')}</div>
               </div>
+
+              <div className="stat">
+                <div className="value">{stats.species_recorded !== null ? stats.species_recorded : '—'}</div>
+                <div className="label">{t('about.stats.species_recorded')}</div>
+              </div>
+
+              <div className="stat">
+                <div className="value">{stats.observers !== null ? stats.observers : '—'}</div>
+                <div className="label">{t('about.stats.observers')}</div>
+              </div>
             </div>
           </div>
         </div>
@@ -750,7 +917,7 @@ const ContactPage = () => {
 
       <p>
         <strong>Email:</strong>{' '}
-        <a href="mailto:yolan2@outlook.com?subject=Tandonia%20News%20Submission">yolan2@outlook.com</a>
+        <a href="mailto:yolan2@outlook.com?subject=Tandonia">yolan2@outlook.com</a>
       </p>
 
       <p className="help-note mt-3">{t('contact.instructions')}</p>
@@ -865,7 +1032,7 @@ const LoginModal = ({ onClose, onLogin, onRegister }: any) => {
   );
 };
 
-const LoginPage = ({ onSuccess }: any) => {
+const LoginPage = ({ onSuccess, onForgotPassword }: any) => {
   const auth = React.useContext(AuthContext);
   const [email, setEmail] = useState('');
   const [password, setPassword] = useState('');
@@ -912,6 +1079,10 @@ const LoginPage = ({ onSuccess }: any) => {
             <button className="button is-primary" onClick={handleSubmit} disabled={loading}>{loading ? t('auth.processing') : t('auth.login')}</button>
           </div>
         </div>
+
+        {auth.legacy && onForgotPassword && (
+          <p className="help-note"><a onClick={onForgotPassword} style={{ cursor: 'pointer' }}>{t('auth.forgotPassword')}</a></p>
+        )}
       </div>
     </div>
   );
@@ -986,12 +1157,293 @@ const RegisterPage = ({ onSuccess }: any) => {
   );
 };
 
+// Password reset of a legacy account: without a token, asks for the address to mail a reset link to; with the
+// token from that link, sets the new password.
+const ResetPasswordPage = ({ token, onDone }: { token?: string | null; onDone: () => void }) => {
+  const { t, i18n } = useTranslation();
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [confirmation, setConfirmation] = useState('');
+  const [error, setError] = useState('');
+  const [message, setMessage] = useState('');
+  const [loading, setLoading] = useState(false);
+
+  const requestLink = async () => {
+    setError('');
+    setLoading(true);
+    try {
+      const body: PasswordResetRequestBody = { email, locale: i18n.language.split('-')[0] as PasswordResetRequestBody['locale'] };
+      await postAuthRequest('/api/auth/password-reset/request', body);
+      setMessage(t('resetPassword.sent'));
+    } catch (err: any) {
+      setError(err.message || t('resetPassword.failed'));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const savePassword = async () => {
+    setError('');
+    if (password !== confirmation) {
+      setError(t('resetPassword.mismatch'));
+      return;
+    }
+    setLoading(true);
+    try {
+      const body: PasswordResetBody = { token: token || '', password };
+      await postAuthRequest('/api/auth/password-reset', body);
+      setMessage(t('resetPassword.done'));
+    } catch (err: any) {
+      setError(err.message || t('resetPassword.failed'));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="max-w-md mx-auto">
+      <div className="box">
+        <h2 className="title is-4 mb-4">{t('resetPassword.title')}</h2>
+
+        {error && <div className="notification is-danger">{error}</div>}
+        {message ? (
+          <>
+            <div className="notification is-success">{message}</div>
+            {token && <button className="button is-primary" onClick={onDone}>{t('auth.login')}</button>}
+          </>
+        ) : token ? (
+          <>
+            <div className="field">
+              <label className="label" htmlFor="reset-password">{t('resetPassword.newPassword')}</label>
+              <div className="control">
+                <input id="reset-password" className="input" type="password" autoComplete="new-password" value={password} onChange={(e) => setPassword(e.target.value)} />
+              </div>
+              <p className="help">{t('resetPassword.passwordHint')}</p>
+            </div>
+            <div className="field">
+              <label className="label" htmlFor="reset-confirmation">{t('resetPassword.confirmPassword')}</label>
+              <div className="control">
+                <input id="reset-confirmation" className="input" type="password" autoComplete="new-password" value={confirmation} onChange={(e) => setConfirmation(e.target.value)} />
+              </div>
+            </div>
+            <button className="button is-primary" onClick={savePassword} disabled={loading || !password}>{loading ? t('auth.processing') : t('resetPassword.save')}</button>
+          </>
+        ) : (
+          <>
+            <p className="help-note mb-3">{t('resetPassword.intro')}</p>
+            <div className="field">
+              <label className="label" htmlFor="reset-email">{t('auth.email')}</label>
+              <div className="control">
+                <input id="reset-email" className="input" type="email" value={email} onChange={(e) => setEmail(e.target.value)} />
+              </div>
+            </div>
+            <button className="button is-primary" onClick={requestLink} disabled={loading || !email}>{loading ? t('auth.processing') : t('resetPassword.send')}</button>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+// Opened from the link in a verification mail; confirms the address as soon as it loads.
+const VerifyEmailPage = ({ token, onDone }: { token?: string | null; onDone: () => void }) => {
+  const auth = React.useContext(AuthContext);
+  const { t } = useTranslation();
+  const [status, setStatus] = useState<'verifying' | 'done' | 'failed'>('verifying');
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    if (!token) {
+      setStatus('failed');
+      return;
+    }
+    postAuthRequest('/api/auth/verify-email', { token })
+      .then(() => {
+        setStatus('done');
+        if (auth?.user) auth.refreshUser();
+      })
+      .catch((err: any) => {
+        setError(err.message || '');
+        setStatus('failed');
+      });
+  }, [token]);
+
+  return (
+    <div className="max-w-md mx-auto">
+      <div className="box">
+        <h2 className="title is-4 mb-4">{t('verifyEmail.title')}</h2>
+        {status === 'verifying' && <p className="help-note">{t('verifyEmail.verifying')}</p>}
+        {status === 'done' && <div className="notification is-success">{t('verifyEmail.done')}</div>}
+        {status === 'failed' && <div className="notification is-danger">{t('verifyEmail.failed')}{error ? ` (${error})` : ''}</div>}
+        {status !== 'verifying' && <button className="button is-light" onClick={onDone}>{t('verifyEmail.continue')}</button>}
+      </div>
+    </div>
+  );
+};
+
+// Reminder for signed-in legacy accounts whose address is not confirmed yet, with a way to get a new link.
+const EmailVerificationNotice = () => {
+  const auth = React.useContext(AuthContext);
+  const { t, i18n } = useTranslation();
+  const [state, setState] = useState<'idle' | 'sending' | 'sent' | 'failed'>('idle');
+
+  if (!auth?.legacy || !auth.user || auth.user.email_verified !== false) return null;
+
+  const resend = async () => {
+    setState('sending');
+    try {
+      const token = await auth.getAccessToken();
+      const res = await fetch(`${API_BASE}/api/auth/verify-email/request`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${token}` },
+        body: JSON.stringify({ locale: i18n.language.split('-')[0] })
+      });
+      if (!res.ok) throw new Error(`Request failed with status ${res.status}`);
+      setState('sent');
+    } catch (err) {
+      console.error('Verification mail request failed', err);
+      setState('failed');
+    }
+  };
+
+  return (
+    <div className="notification is-warning is-light">
+      {t('verifyEmail.notice', { email: auth.user.email })}{' '}
+      {state === 'sent' ? t('verifyEmail.resent') : (
+        <button className="button is-small is-warning is-light" onClick={resend} disabled={state === 'sending'}>{t('verifyEmail.resend')}</button>
+      )}
+      {state === 'failed' && <span className="ml-2">{t('verifyEmail.resendFailed')}</span>}
+    </div>
+  );
+};
+
 const HABITAT_COLORS: Record<string, string> = {
   swamp: '#0ea5e9',
   urban: '#f97316',
   forest: '#16a34a'
 };
 
+// Even-odd point-in-polygon test over all rings of a vector tile feature (covers holes and multipolygons).
+const pointInRings = (x: number, y: number, rings: any[]) => {
+  let inside = false;
+  rings.forEach((ring: any[]) => {
+    for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+      const a = ring[i];
+      const b = ring[j];
+      if ((a.y > y) !== (b.y > y) && x < ((b.x - a.x) * (y - a.y)) / (b.y - a.y) + a.x) {
+        inside = !inside;
+      }
+    }
+  });
+  return inside;
+};
+
+// Same check for a Leaflet GeoJSON layer, as the backend does before accepting habitat locations.
+const geoJsonLayerContains = (layer: any, latlng: any) => {
+  const toRings = (polygon: any[]) => polygon.map((ring: any[]) => ring.map(([x, y]: any) => ({ x, y })));
+  const geojson = layer.toGeoJSON();
+  const features = geojson.type === 'FeatureCollection' ? geojson.features : [geojson];
+  return features.some((feature: any) => {
+    const geometry = feature.geometry || feature;
+    if (geometry.type === 'Polygon') return pointInRings(latlng.lng, latlng.lat, toRings(geometry.coordinates));
+    if (geometry.type === 'MultiPolygon') {
+      return geometry.coordinates.some((polygon: any[]) => pointInRings(latlng.lng, latlng.lat, toRings(polygon)));
+    }
+    return false;
+  });
+};
+
+// Canvas layer that draws grid cell coverage from the /api/tiles/grid vector tiles.
+// Decoded features are kept per tile so clicks and hovers can be resolved without one Leaflet layer per cell.
+const GridTileLayer = (L.GridLayer as any).extend({
+  initialize(options: any) {
+    (L.GridLayer.prototype as any).initialize.call(this, options);
+    this._tileFeatures = {};
+    this.on('tileunload', (e: any) => {
+      delete this._tileFeatures[this._featureKey(e.coords)];
+    });
+  },
+
+  _featureKey(coords: any) {
+    return `${coords.x}:${coords.y}:${coords.z}`;
+  },
+
+  createTile(coords: any, done: any) {
+    const tile = document.createElement('canvas');
+    const size = this.getTileSize();
+    tile.width = size.x;
+    tile.height = size.y;
+
+    fetch(`${API_BASE}/api/tiles/grid/${coords.z}/${coords.x}/${coords.y}.pbf`)
+      .then(async (response) => {
+        // 204: no grid cells in this tile
+        if (response.status === 204) return null;
+        if (!response.ok) throw new Error(`Failed to load grid tile (${response.status})`);
+        return new VectorTile(new PbfReader(await response.arrayBuffer()));
+      })
+      .then((vectorTile) => {
+        const layer = vectorTile?.layers?.grid;
+        const features: any[] = [];
+        if (layer) {
+          for (let i = 0; i < layer.length; i++) {
+            const feature = layer.feature(i);
+            features.push({ properties: feature.properties, extent: feature.extent, rings: feature.loadGeometry() });
+          }
+        }
+        this._tileFeatures[this._featureKey(coords)] = features;
+        this._drawTile(tile, features);
+        done(null, tile);
+      })
+      .catch((err) => {
+        console.error('Failed to load grid tile', err);
+        done(err, tile);
+      });
+
+    return tile;
+  },
+
+  _drawTile(tile: HTMLCanvasElement, features: any[]) {
+    const ctx = tile.getContext('2d');
+    if (!ctx) return;
+    features.forEach((feature) => {
+      const scale = tile.width / feature.extent;
+      const hasChecklist = !!feature.properties?.has_checklist || Number(feature.properties?.checklist_count) > 0;
+      const color = hasChecklist ? '#16a34a' : '#15803d';
+      ctx.beginPath();
+      feature.rings.forEach((ring: any[]) => {
+        ring.forEach((point: any, idx: number) => {
+          if (idx === 0) ctx.moveTo(point.x * scale, point.y * scale);
+          else ctx.lineTo(point.x * scale, point.y * scale);
+        });
+        ctx.closePath();
+      });
+      ctx.globalAlpha = hasChecklist ? 0.16 : 0.08;
+      ctx.fillStyle = color;
+      ctx.fill('evenodd');
+      ctx.globalAlpha = 1;
+      ctx.strokeStyle = color;
+      ctx.lineWidth = 1;
+      ctx.stroke();
+    });
+  },
+
+  // Properties of the grid cell under a map position, or null when none is loaded there.
+  featureAt(latlng: any) {
+    const map = this._map;
+    if (!map) return null;
+    const zoom = this._tileZoom ?? Math.round(map.getZoom());
+    const size = this.getTileSize();
+    const point = map.project(latlng, zoom);
+    const coords = { x: Math.floor(point.x / size.x), y: Math.floor(point.y / size.y), z: zoom };
+    const features = this._tileFeatures[this._featureKey(coords)];
+    if (!features) return null;
+    const px = (point.x - coords.x * size.x) / size.x;
+    const py = (point.y - coords.y * size.y) / size.y;
+    const hit = features.find((feature: any) => pointInRings(px * feature.extent, py * feature.extent, feature.rings));
+    return hit ? hit.properties : null;
+  }
+});
+
 const Map = ({ onGridSelect, selectedGrid, onLocationSelect, mode, placedLocations }: any) => {
   const mapRef = useRef<HTMLDivElement | null>(null);
   const mapInstanceRef = useRef<any>(null);
@@ -1007,41 +1459,39 @@ const Map = ({ onGridSelect, selectedGrid, onLocationSelect, mode, placedLocatio
     selectedGridRef.current = selectedGrid;
   }, [selectedGrid]);
 
-  const applyGridHighlight = (targetId: any) => {
+  // The coverage tiles are hidden while a cell is selected; only that cell is fetched and drawn.
+  const applyGridHighlight = async (targetId: any) => {
     const map = mapInstanceRef.current;
     if (!map) return;
     const gridLayer = (map as any).gridLayer;
     const highlightLayer = (map as any).highlightLayer;
     if (!gridLayer) return;
-    const cells = (map as any).gridCells || [];
     selectedCellRef.current = null;
     if (highlightLayer) highlightLayer.clearLayers();
 
     if (!targetId) {
-      cells.forEach((cell: any) => {
-        if (!gridLayer.hasLayer(cell.layer)) gridLayer.addLayer(cell.layer);
-        if (cell.layer?.setStyle) {
-          cell.layer.setStyle({ color: '#15803d', weight: 1, fillOpacity: 0.08 });
-        }
-      });
+      if (!map.hasLayer(gridLayer)) gridLayer.addTo(map);
       return;
     }
 
-    cells.forEach((cell: any) => {
-      const isSelected = cell.id === targetId;
-      if (isSelected) {
-        selectedCellRef.current = cell;
-        if (!gridLayer.hasLayer(cell.layer)) gridLayer.addLayer(cell.layer);
-        if (cell.layer?.setStyle) {
-          cell.layer.setStyle({ color: '#16a34a', weight: 2, fillOpacity: 0.25 });
-        }
-      } else if (gridLayer.hasLayer(cell.layer)) {
-        gridLayer.removeLayer(cell.layer);
+    if (map.hasLayer(gridLayer)) map.removeLayer(gridLayer);
+    try {
+      const response = await fetch(`${API_BASE}/api/grid-cells?id=${encodeURIComponent(targetId)}`);
+      if (!response.ok) {
+        throw new Error(`Failed to load grid cell (${response.status})`);
       }
-    });
-
-    if (selectedCellRef.current) {
-      map.fitBounds(selectedCellRef.current.layer.getBounds(), { padding: [20, 20] });
+      const geojson = await response.json();
+      // Ignore responses for a cell that is no longer selected
+      if (selectedGridRef.current !== targetId || !highlightLayer) return;
+      const layer = L.geoJSON(geojson, {
+        style: { color: '#16a34a', weight: 2, fillOpacity: 0.25 }
+      });
+      if (!layer.getLayers().length) return;
+      layer.addTo(highlightLayer);
+      selectedCellRef.current = { id: targetId, layer };
+      map.fitBounds(layer.getBounds(), { padding: [20, 20] });
+    } catch (err) {
+      console.error('Failed to load selected grid cell', err);
     }
   };
 
@@ -1055,117 +1505,42 @@ const Map = ({ onGridSelect, selectedGrid, onLocationSelect, mode, placedLocatio
       attribution: '© OpenStreetMap contributors'
     }).addTo(map);
 
-    const gridLayer = L.layerGroup().addTo(map);
+    // Grid cells come in as vector tiles so all of Belgium's kilometre squares stay cheap to render.
+    const gridLayer = new GridTileLayer().addTo(map);
     const highlightLayer = L.layerGroup().addTo(map);
     (map as any).gridLayer = gridLayer;
     (map as any).highlightLayer = highlightLayer;
-    (map as any).gridCells = [];
-
-    // TODO: Fetch grid cells from API
-    // fetch('/api/grid-cells')
-    //   .then(res => res.json())
-    //   .then(geojson => {
-    //     L.geoJSON(geojson, {
-    //       style: { color: '#16a34a', weight: 1, fillOpacity: 0.2 },
-    //       onEachFeature: (feature, layer) => {
-    //         layer.on('click', () => {
-    //           if (!selectedGrid) {
-    //             onGridSelect(feature.id, layer.getBounds());
-    //           }
-    //         });
-    //       }
-    //     }).addTo(gridLayer);
-    //   });
-
-    return () => {
-      map.remove();
-      mapInstanceRef.current = null;
-    };
-  }, []);
 
-  useEffect(() => {
-    const map = mapInstanceRef.current;
-    if (!map) return;
-
-    let isMounted = true;
-    const controller = new AbortController();
+    const hoverTooltip = L.tooltip({ direction: 'top', offset: [0, -4] });
 
-    const loadGridCells = async () => {
-      try {
-        const response = await fetch(`${API_BASE}/api/grid-cells`, { signal: controller.signal });
-        if (!response.ok) {
-          throw new Error(`Failed to load grid cells (${response.status})`);
-        }
-        const geojson = await response.json();
-        if (!isMounted) return;
-
-        const gridLayer = (map as any).gridLayer;
-        if (!gridLayer) return;
-
-        gridLayer.clearLayers();
-        const collected: any[] = [];
-
-        L.geoJSON(geojson, {
-          style: (feature: any) => {
-            const count = feature?.properties?.checklist_count ?? feature?.properties?.checklistCount ?? 0;
-            const hasChecklist = !!count || feature?.properties?.has_checklist;
-            return {
-              color: hasChecklist ? '#16a34a' : '#15803d',
-              weight: 1,
-              fillOpacity: hasChecklist ? 0.16 : 0.08
-            };
-          },
-          onEachFeature: (feature: any, layer: any) => {
-            const cellId = feature?.id
-              ?? feature?.properties?.id
-              ?? feature?.properties?.grid_id
-              ?? feature?.properties?.name;
-            if (!cellId) return;
-            const bounds = layer.getBounds();
-            const entry = { id: cellId, bounds, layer };
-            collected.push(entry);
-            layer.on('click', () => {
-              const handler = gridSelectRef.current;
-              if (handler) handler(cellId);
-            });
-            // Add a tooltip showing checklist count if present
-            const count = feature?.properties?.checklist_count ?? feature?.properties?.checklistCount ?? 0;
-            if (count) {
-              layer.bindTooltip(`Has ${count} checklist(s)`, { permanent: false });
-            }
-          }
-        }).addTo(gridLayer);
+    const handleGridClick = (e: any) => {
+      if (selectedGridRef.current || !map.hasLayer(gridLayer)) return;
+      const cell = gridLayer.featureAt(e.latlng);
+      const handler = gridSelectRef.current;
+      if (cell?.id && handler) handler(cell.id);
+    };
 
-        (map as any).gridCells = collected;
-        // Some Leaflet LayerGroup instances do not implement bringToFront directly.
-        // Safely call bringToFront on the container if available, otherwise call it on each sub-layer.
-        try {
-          if (typeof (gridLayer as any).bringToFront === 'function') {
-            (gridLayer as any).bringToFront();
-          } else if (typeof (gridLayer as any).eachLayer === 'function') {
-            (gridLayer as any).eachLayer((layer: any) => {
-              if (layer && typeof layer.bringToFront === 'function') layer.bringToFront();
-            });
-          }
-        } catch (err) {
-          console.warn('Error while bringing grid layer to front:', err);
-        }
-        applyGridHighlight(selectedGridRef.current);
-      } catch (err) {
-        if (controller.signal.aborted) return;
-        console.error('Failed to load grid cells', err);
+    // Show a tooltip with the checklist count when hovering a covered cell
+    const handleGridHover = (e: any) => {
+      const cell = map.hasLayer(gridLayer) ? gridLayer.featureAt(e.latlng) : null;
+      map.getContainer().style.cursor = cell ? 'pointer' : '';
+      const count = Number(cell?.checklist_count || 0);
+      if (count) {
+        hoverTooltip.setLatLng(e.latlng).setContent(`Has ${count} checklist(s)`);
+        map.openTooltip(hoverTooltip);
+      } else {
+        map.closeTooltip(hoverTooltip);
       }
     };
 
-    loadGridCells();
+    map.on('click', handleGridClick);
+    map.on('mousemove', handleGridHover);
 
     return () => {
-      isMounted = false;
-      controller.abort();
-      if ((map as any).gridLayer) {
-        (map as any).gridLayer.clearLayers();
-      }
-      (map as any).gridCells = [];
+      map.off('click', handleGridClick);
+      map.off('mousemove', handleGridHover);
+      map.remove();
+      mapInstanceRef.current = null;
     };
   }, []);
 
@@ -1205,7 +1580,7 @@ const Map = ({ onGridSelect, selectedGrid, onLocationSelect, mode, placedLocatio
     const handleClick = (e: any) => {
       if (!selectedGrid || !mode) return;
       const cell = selectedCellRef.current;
-      if (cell?.layer && !cell.layer.getBounds().contains(e.latlng)) {
+      if (cell?.layer && !geoJsonLayerContains(cell.layer, e.latlng)) {
         alert('Please click inside the selected grid cell.');
         return;
       }
@@ -1222,49 +1597,367 @@ const Map = ({ onGridSelect, selectedGrid, onLocationSelect, mode, placedLocatio
   return <div ref={mapRef} className="leaflet-map"></div>;
 };
 
-const HABITAT_STEPS = [
-  { key: 'swamp', label: 'Swamp', description: 'Wet habitat sample' },
-  { key: 'urban', label: 'Urban', description: 'Urban/anthropogenous area' },
-  { key: 'forest', label: 'Forest', description: 'Forest habitat sample' }
-];
-
-const ChecklistPage = ({ user }: any) => {
+// Atlas map of one species from /api/species/:id/distribution; cells are shaded by the number of individuals.
+const SpeciesDistributionMap = ({ speciesKey }: { speciesKey: string | number }) => {
   const { t } = useTranslation();
-  const [selectedGrid, setSelectedGrid] = useState<any>(null);
-  const [locations, setLocations] = useState<any>({
-    forest: null,
-    swamp: null,
-    urban: null
-  });
-  const [overrideHabitat, setOverrideHabitat] = useState<string | null>(null);
-  const nextHabitatKey = React.useMemo(() => {
-    const step = HABITAT_STEPS.find((item) => !locations[item.key]);
-    return step ? step.key : null;
-  }, [locations]);
-  const activeHabitat = overrideHabitat || (selectedGrid ? nextHabitatKey : null);
-  const activeHabitatStep = React.useMemo(
-    () => HABITAT_STEPS.find((item) => item.key === activeHabitat) || null,
-    [activeHabitat]
-  );
-  const [speciesList, setSpeciesList] = useState<any[]>([]);
-  const [species, setSpecies] = useState<any>({});
-  const [timeSpent, setTimeSpent] = useState('');
-  const [submitted, setSubmitted] = useState(false);
-  const [submitMessage, setSubmitMessage] = useState<string | null>(null);
+  const mapRef = useRef<HTMLDivElement | null>(null);
+  const [distribution, setDistribution] = useState<any>(null);
   const [loading, setLoading] = useState(true);
-  const [searchTerm, setSearchTerm] = useState('');
-  const [speciesError, setSpeciesError] = useState<string | null>(null);
-  const [gridCells, setGridCells] = useState<any[]>([]);
-  const [gridCellsLoading, setGridCellsLoading] = useState(true);
-  const [gridCellsError, setGridCellsError] = useState<string | null>(null);
-  const searchInputId = 'species-search-input';
-  const timeSpentInputId = 'time-spent-input';
-  const gridCellSelectId = 'grid-cell-select';
-  const resetLocations = React.useCallback(() => {
-    setLocations({ forest: null, swamp: null, urban: null });
-    setOverrideHabitat(null);
-  }, []);
-  const formatCoords = (coords: any) => {
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let mounted = true;
+    setLoading(true);
+    setError(null);
+    fetch(`${API_BASE}/api/species/${encodeURIComponent(String(speciesKey))}/distribution?zoom=9`)
+      .then(async (res) => {
+        if (!res.ok) {
+          const text = await res.text().catch(() => '');
+          throw new Error(text || `Request failed with status ${res.status}`);
+        }
+        return res.json();
+      })
+      .then((payload) => { if (mounted) setDistribution(payload); })
+      .catch((err: any) => {
+        if (!mounted) return;
+        console.error('Failed to load species distribution', err);
+        setError(err?.message || 'Failed to load distribution');
+      })
+      .finally(() => { if (mounted) setLoading(false); });
+    return () => { mounted = false; };
+  }, [speciesKey]);
+
+  useEffect(() => {
+    if (!mapRef.current || !distribution?.features?.length) return;
+    const map = L.map(mapRef.current).setView([50.5, 4.5], 8);
+    L.tileLayer('https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png', {
+      attribution: '© OpenStreetMap contributors'
+    }).addTo(map);
+
+    const maxCount = Math.max(1, ...distribution.features.map((f: any) => Number(f.properties?.total_count) || 0));
+    const layer = L.geoJSON(distribution, {
+      style: (feature: any) => ({
+        color: '#15803d',
+        weight: 1,
+        fillColor: '#16a34a',
+        fillOpacity: 0.25 + 0.5 * Math.log1p(Number(feature?.properties?.total_count) || 0) / Math.log1p(maxCount)
+      }),
+      onEachFeature: (feature: any, cellLayer: any) => {
+        const p = feature.properties || {};
+        cellLayer.bindTooltip(t('explore.cellTooltip', {
+          label: p.label,
+          count: p.total_count,
+          records: p.record_count,
+          first: p.first_year ?? '?',
+          last: p.last_year ?? '?'
+        }));
+      }
+    }).addTo(map);
+    map.fitBounds(layer.getBounds(), { padding: [20, 20], maxZoom: 11 });
+
+    return () => { map.remove(); };
+  }, [distribution, t]);
+
+  if (loading) return <div className="help-note">{t('explore.loadingDistribution')}</div>;
+  if (error) return <div className="notification is-danger" role="alert">{error}</div>;
+  if (!distribution?.features?.length) return <div className="help-note">{t('explore.noDistribution')}</div>;
+
+  const summary = distribution.summary || {};
+  return (
+    <div>
+      <p className="help-note mb-2">
+        {t('explore.distributionSummary', {
+          cells: summary.grid_cells,
+          count: summary.total_count,
+          first: summary.first_year ?? '?',
+          last: summary.last_year ?? '?'
+        })}
+      </p>
+      <div ref={mapRef} className="leaflet-map"></div>
+    </div>
+  );
+};
+
+// Side panel with what is known about one grid cell (/api/grid-cells/:id).
+const GridCellPanel = ({ cellId, onClose }: { cellId: string; onClose: () => void }) => {
+  const { t, i18n } = useTranslation();
+  const [cell, setCell] = useState<any>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let mounted = true;
+    setLoading(true);
+    setError(null);
+    fetch(`${API_BASE}/api/grid-cells/${encodeURIComponent(cellId)}`)
+      .then(async (res) => {
+        if (!res.ok) {
+          const text = await res.text().catch(() => '');
+          throw new Error(text || `Request failed with status ${res.status}`);
+        }
+        return res.json();
+      })
+      .then((payload) => { if (mounted) setCell(payload); })
+      .catch((err: any) => {
+        if (!mounted) return;
+        console.error('Failed to load grid cell', err);
+        setError(err?.message || 'Failed to load grid cell');
+      })
+      .finally(() => { if (mounted) setLoading(false); });
+    return () => { mounted = false; };
+  }, [cellId]);
+
+  const formatDate = (value: string) => {
+    const date = new Date(value);
+    return Number.isNaN(date.getTime()) ? value : date.toLocaleDateString(i18n.language);
+  };
+
+  return (
+    <div className="box grid-cell-panel">
+      <div className="is-flex is-justify-content-space-between is-align-items-center mb-3">
+        <h3 className="is-size-5 has-text-weight-semibold">{cell?.label || cellId}</h3>
+        <button className="delete" aria-label={t('gridCell.close')} onClick={onClose}></button>
+      </div>
+      {loading ? (
+        <p className="help-note">{t('gridCell.loading')}</p>
+      ) : error ? (
+        <div className="notification is-danger" role="alert">{error}</div>
+      ) : cell && (
+        <>
+          <h4 className="has-text-weight-semibold mb-1">{t('gridCell.habitats')}</h4>
+          <ul className="mb-3">
+            {cell.habitats.map((habitat: any) => (
+              <li key={habitat.type}>
+                {t(`gridCell.habitat.${habitat.type}`)}: {habitat.sampled ? `${habitat.checklist_count}×` : t('gridCell.notSampled')}
+              </li>
+            ))}
+          </ul>
+
+          <h4 className="has-text-weight-semibold mb-1">{t('gridCell.species')}</h4>
+          {cell.species.length === 0 ? (
+            <p className="help-note mb-3">{t('gridCell.noSpecies')}</p>
+          ) : (
+            <ul className="mb-3">
+              {cell.species.map((sp: any) => (
+                <li key={sp.species_id ?? sp.scientific_name}>
+                  <em>{sp.scientific_name}</em>
+                  <span className="is-size-7 has-text-grey"> · {t('gridCell.speciesLine', { count: sp.total_count, records: sp.record_count })}</span>
+                </li>
+              ))}
+            </ul>
+          )}
+
+          <h4 className="has-text-weight-semibold mb-1">{t('gridCell.checklists')}</h4>
+          {cell.checklists.length === 0 ? (
+            <p className="help-note">{t('gridCell.noChecklists')}</p>
+          ) : (
+            <ul>
+              {cell.checklists.map((checklist: any) => (
+                <li key={checklist.id} className="is-size-7">
+                  {t('gridCell.checklistLine', {
+                    date: formatDate(checklist.submitted_at),
+                    minutes: checklist.time_spent_minutes ?? '?',
+                    observer: checklist.observer,
+                    species: checklist.species_count
+                  })}
+                </li>
+              ))}
+            </ul>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+// Coverage map outside checklist mode: clicking a cell opens its details instead of starting a checklist.
+const GridMapPage = () => {
+  const { t } = useTranslation();
+  const [inspectedCell, setInspectedCell] = useState<string | null>(null);
+  const handleCellClick = React.useCallback((cellId: any) => setInspectedCell(String(cellId)), []);
+
+  return (
+    <div className="max-w-6xl mx-auto">
+      <h1 className="title is-3 has-text-weight-bold mb-2">{t('gridCell.title')}</h1>
+      <p className="help-note mb-4">{t('gridCell.subtitle')}</p>
+      <div className="checklist-container">
+        <div className="checklist-left">
+          <div className="map-card">
+            <Map onGridSelect={handleCellClick} />
+          </div>
+        </div>
+        <div className="checklist-right">
+          {inspectedCell ? (
+            <GridCellPanel cellId={inspectedCell} onClose={() => setInspectedCell(null)} />
+          ) : (
+            <div className="box help-note">{t('gridCell.selectCell')}</div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+const SURVEY_GAPS_RADIUS_KM = 10;
+
+// "Where to survey next" suggestions around the browser's location (/api/grid-cells/recommendations).
+const SurveyGapSuggestions = ({ onSelect }: { onSelect: (cellId: any) => void }) => {
+  const { t } = useTranslation();
+  const [status, setStatus] = useState<'idle' | 'locating' | 'loading' | 'done'>('idle');
+  const [suggestions, setSuggestions] = useState<any[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadSuggestions = () => {
+    setError(null);
+    if (typeof navigator === 'undefined' || !navigator.geolocation) {
+      setError(t('surveyGaps.noLocation'));
+      return;
+    }
+    setStatus('locating');
+    navigator.geolocation.getCurrentPosition(async (position) => {
+      setStatus('loading');
+      try {
+        const params = new URLSearchParams({
+          lat: String(position.coords.latitude),
+          lng: String(position.coords.longitude),
+          radius_km: String(SURVEY_GAPS_RADIUS_KM)
+        });
+        const res = await fetch(`${API_BASE}/api/grid-cells/recommendations?${params}`);
+        if (!res.ok) {
+          const text = await res.text().catch(() => '');
+          throw new Error(text || `Request failed with status ${res.status}`);
+        }
+        const data = await res.json();
+        setSuggestions(Array.isArray(data) ? data : []);
+      } catch (err: any) {
+        console.error('Failed to load survey suggestions', err);
+        setError(err?.message || 'Failed to load suggestions');
+      } finally {
+        setStatus('done');
+      }
+    }, (geoError) => {
+      setStatus('idle');
+      setError(t('surveyGaps.locationDenied', { message: geoError.message }));
+    }, { enableHighAccuracy: false, timeout: 15000 });
+  };
+
+  return (
+    <div className="box survey-gaps">
+      <h4 className="has-text-weight-semibold mb-1">{t('surveyGaps.title')}</h4>
+      <p className="help-note mb-2">{t('surveyGaps.intro')}</p>
+      <button
+        className={`button is-small is-primary is-light ${status === 'locating' || status === 'loading' ? 'is-loading' : ''}`}
+        onClick={loadSuggestions}
+        disabled={status === 'locating' || status === 'loading'}
+      >
+        {t('surveyGaps.useLocation')}
+      </button>
+      {status === 'locating' && <p className="help-note mt-2">{t('surveyGaps.locating')}</p>}
+      {status === 'loading' && <p className="help-note mt-2">{t('surveyGaps.loading')}</p>}
+      {error && <p className="help is-danger mt-2">{error}</p>}
+      {status === 'done' && !error && (suggestions.length === 0 ? (
+        <p className="help-note mt-2">{t('surveyGaps.none', { radius: SURVEY_GAPS_RADIUS_KM })}</p>
+      ) : (
+        <ul className="mt-2">
+          {suggestions.map((cell) => (
+            <li key={cell.id} className="survey-gap-item">
+              <div>
+                <strong>{cell.label}</strong>
+                <span className="is-size-7 has-text-grey"> · {t('surveyGaps.distance', { distance: cell.distance_km.toFixed(1) })}</span>
+                <div className="is-size-7">
+                  {cell.reasons.map((reason: string) => t(`surveyGaps.reason.${reason}`)).join(', ')}
+                </div>
+              </div>
+              <button className="button is-small" onClick={() => onSelect(String(cell.id))}>{t('surveyGaps.choose')}</button>
+            </li>
+          ))}
+        </ul>
+      ))}
+    </div>
+  );
+};
+
+const HABITAT_STEPS = [
+  { key: 'swamp', label: 'Swamp', description: 'Wet habitat sample' },
+  { key: 'urban', label: 'Urban', description: 'Urban/anthropogenous area' },
+  { key: 'forest', label: 'Forest', description: 'Forest habitat sample' }
+];
+
+// Identifies one filled-in checklist form so retried submissions are deduplicated by the backend.
+const createSubmissionId = (): string => {
+  if (typeof crypto !== 'undefined' && typeof (crypto as any).randomUUID === 'function') {
+    return (crypto as any).randomUUID();
+  }
+  const bytes = new Uint8Array(16);
+  crypto.getRandomValues(bytes);
+  bytes[6] = (bytes[6] & 0x0f) | 0x40;
+  bytes[8] = (bytes[8] & 0x3f) | 0x80;
+  const hex = Array.from(bytes, (b) => b.toString(16).padStart(2, '0')).join('');
+  return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-${hex.slice(12, 16)}-${hex.slice(16, 20)}-${hex.slice(20)}`;
+};
+
+const SPECIES_SEARCH_DEBOUNCE_MS = 250;
+
+type SpeciesSearchResult = {
+  id: number | string;
+  score: number;
+  matched_name: string;
+  matched_field: 'scientific' | 'vernacular' | 'synonym';
+};
+
+// Vernacular name in the interface language, falling back to the Dutch name
+const vernacularName = (sp: any, language: string): string | null => {
+  const byLanguage: Record<string, string | null> = { nl: sp.dutch_name, fr: sp.french_name, en: sp.english_name };
+  return byLanguage[language] || sp.dutch_name || null;
+};
+
+const ChecklistPage = ({ user }: any) => {
+  const { t, i18n } = useTranslation();
+  const [selectedGrid, setSelectedGrid] = useState<any>(null);
+  const [locations, setLocations] = useState<any>({
+    forest: null,
+    swamp: null,
+    urban: null
+  });
+  const [overrideHabitat, setOverrideHabitat] = useState<string | null>(null);
+  const nextHabitatKey = React.useMemo(() => {
+    const step = HABITAT_STEPS.find((item) => !locations[item.key]);
+    return step ? step.key : null;
+  }, [locations]);
+  const activeHabitat = overrideHabitat || (selectedGrid ? nextHabitatKey : null);
+  const activeHabitatStep = React.useMemo(
+    () => HABITAT_STEPS.find((item) => item.key === activeHabitat) || null,
+    [activeHabitat]
+  );
+  const [speciesList, setSpeciesList] = useState<any[]>([]);
+  const [species, setSpecies] = useState<any>({});
+  // Photos picked per taxon id; uploaded to /api/checklists/:id/photos once the checklist is accepted
+  const [photos, setPhotos] = useState<Record<string, File[]>>({});
+  const [photoUploadError, setPhotoUploadError] = useState<string | null>(null);
+  const [timeSpent, setTimeSpent] = useState('');
+  // Kept across retries of the same form; replaced once the checklist has been accepted.
+  const submissionIdRef = useRef<string>(createSubmissionId());
+  const [submitted, setSubmitted] = useState(false);
+  const [submitMessage, setSubmitMessage] = useState<string | null>(null);
+  // Failing request fields (client-side schema check or the server's `fields` list), shown next to each input
+  const [fieldErrors, setFieldErrors] = useState<FieldError[]>([]);
+  const [submitError, setSubmitError] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [searchTerm, setSearchTerm] = useState('');
+  // Ranked matches from /api/species/search for the current term; null means "filter locally"
+  const [searchResults, setSearchResults] = useState<SpeciesSearchResult[] | null>(null);
+  const [speciesError, setSpeciesError] = useState<string | null>(null);
+  const [gridCells, setGridCells] = useState<any[]>([]);
+  const [gridCellsLoading, setGridCellsLoading] = useState(true);
+  const [gridCellsError, setGridCellsError] = useState<string | null>(null);
+  const searchInputId = 'species-search-input';
+  const timeSpentInputId = 'time-spent-input';
+  const gridCellSelectId = 'grid-cell-select';
+  const resetLocations = React.useCallback(() => {
+    setLocations({ forest: null, swamp: null, urban: null });
+    setOverrideHabitat(null);
+  }, []);
+  const formatCoords = (coords: any) => {
     if (!coords) return 'Not set';
     const latValue = typeof coords.lat === 'function' ? coords.lat() : coords.lat;
     const lngValue = typeof coords.lng === 'function' ? coords.lng() : coords.lng;
@@ -1299,6 +1992,8 @@ const ChecklistPage = ({ user }: any) => {
           id: r.id ?? idx + 1,
           scientific_name: r.scientific_name || r.scientificName || r.name || '',
           dutch_name: r.dutch_name || r.dutchName || r.common_name || null,
+          french_name: r.french_name || null,
+          english_name: r.english_name || null,
           observation_count: parseInt(r.observation_count ?? r.count ?? 0, 10)
         }));
 
@@ -1327,7 +2022,7 @@ const ChecklistPage = ({ user }: any) => {
       setGridCellsLoading(true);
       setGridCellsError(null);
       try {
-        const res = await fetch(`${API_BASE}/api/grid-cells`);
+        const res = await fetch(`${API_BASE}/api/grid-cells?view=list`);
         if (!res.ok) {
           const text = await res.text().catch(() => '');
           throw new Error(text || `Request failed with status ${res.status}`);
@@ -1336,6 +2031,8 @@ const ChecklistPage = ({ user }: any) => {
         if (!mounted) return;
         const features = Array.isArray(payload?.features) ? payload.features : Array.isArray(payload) ? payload : [];
         const normalized = features.map((feature: any, idx: number) => {
+          // `view=list` items already carry id and label; full features need them derived
+          if (feature?.label && feature?.id !== undefined) return { id: feature.id, label: feature.label };
           const id = feature?.id
             ?? feature?.properties?.id
             ?? feature?.properties?.grid_id
@@ -1362,15 +2059,57 @@ const ChecklistPage = ({ user }: any) => {
     return () => { mounted = false; };
   }, []);
 
-  // Filter species based on search term
-  const filteredSpecies = speciesList.filter(sp => {
-    if (!searchTerm) return true;
+  // Server-side search also matches French/English names, synonyms and typos; it is debounced per keystroke
+  useEffect(() => {
+    const term = searchTerm.trim();
+    if (!term) {
+      setSearchResults(null);
+      return;
+    }
+    const controller = new AbortController();
+    const timer = window.setTimeout(async () => {
+      try {
+        const params = new URLSearchParams({ q: term, lang: i18n.language, limit: '100' });
+        const res = await fetch(`${API_BASE}/api/species/search?${params}`, { signal: controller.signal });
+        if (!res.ok) throw new Error(`Request failed with status ${res.status}`);
+        const payload = await res.json();
+        setSearchResults(Array.isArray(payload?.results) ? payload.results : []);
+      } catch (err: any) {
+        if (err?.name === 'AbortError') return;
+        console.warn('Species search failed, filtering locally:', err);
+        setSearchResults(null);
+      }
+    }, SPECIES_SEARCH_DEBOUNCE_MS);
+    return () => {
+      controller.abort();
+      window.clearTimeout(timer);
+    };
+  }, [searchTerm, i18n.language]);
+
+  // Ranked server results when available, otherwise a substring match on the loaded list
+  const filteredSpecies = React.useMemo(() => {
+    if (!searchTerm.trim()) return speciesList;
+    if (searchResults) {
+      const byId: Record<string, any> = {};
+      speciesList.forEach((sp) => { byId[String(sp.id)] = sp; });
+      return searchResults
+        .filter((result) => byId[String(result.id)])
+        .map((result) => ({ ...byId[String(result.id)], match: result }));
+    }
     const search = searchTerm.toLowerCase();
-    return (
-      sp.scientific_name.toLowerCase().includes(search) ||
-      (sp.dutch_name && sp.dutch_name.toLowerCase().includes(search))
-    );
-  });
+    return speciesList.filter((sp) => (
+      [sp.scientific_name, sp.dutch_name, sp.french_name, sp.english_name]
+        .some((name) => name && name.toLowerCase().includes(search))
+    ));
+  }, [speciesList, searchResults, searchTerm]);
+
+  const clearFieldError = (path: string) => {
+    setFieldErrors((prev) => prev.filter((field) => field.path !== path && !field.path.startsWith(`${path}.`)));
+  };
+
+  // The urban point is also sent as `anthropogenous`, so errors on either key belong to the urban step.
+  const habitatErrorMessage = (key: string) => fieldErrorMessage(fieldErrors, `locations.${key}`)
+    || (key === 'urban' ? fieldErrorMessage(fieldErrors, 'locations.anthropogenous') : null);
 
   const handleGridSelect = (gridId: any) => {
     if (!gridId) return;
@@ -1378,31 +2117,46 @@ const ChecklistPage = ({ user }: any) => {
       resetLocations();
     }
     setSelectedGrid(gridId);
+    clearFieldError('gridCellId');
   };
 
   const handleLocationSelect = (type: any, latlng: any) => {
     if (!type) return;
     setLocations((prev: any) => ({ ...prev, [type]: latlng }));
     setOverrideHabitat(null);
+    clearFieldError(`locations.${type}`);
+    if (type === 'urban') clearFieldError('locations.anthropogenous');
   };
 
-  const handleSubmit = async () => {
-    if (!selectedGrid) {
-      alert('Please select a grid cell');
-      return;
-    }
-
-    if (!locations.swamp || !locations.urban || !locations.forest) {
-      alert('Please capture swamp, urban, and forest locations within the selected grid cell.');
-      return;
+  // Uploads the picked photos per species; the checklist itself is already saved, so a failure only
+  // returns a message listing the species whose photos did not make it.
+  const uploadPhotos = async (checklistId: number, token: string) => {
+    const failed: string[] = [];
+    for (const [taxonId, files] of Object.entries(photos)) {
+      if (!files.length || !(species[taxonId] > 0)) continue;
+      const form = new FormData();
+      form.append('species', taxonId);
+      files.forEach((file) => form.append('photos', file));
+      try {
+        const res = await fetch(`${API_BASE}/api/checklists/${checklistId}/photos`, {
+          method: 'POST',
+          headers: { Authorization: `Bearer ${token}` },
+          body: form
+        });
+        if (!res.ok) throw new Error(`Photo upload failed with status ${res.status}`);
+      } catch (err) {
+        console.error('Photo upload failed', err);
+        const sp = speciesList.find((item: any) => String(item.id) === taxonId);
+        failed.push(sp ? sp.scientific_name : taxonId);
+      }
     }
+    return failed.length ? t('checklist.photoUploadFailed', { species: failed.join(', ') }) : null;
+  };
 
-    if (!timeSpent || parseInt(timeSpent) < 1) {
-      alert('Please enter time spent searching in minutes');
-      return;
-    }
+  const handleSubmit = async () => {
+    setSubmitError(null);
 
-    const checklistData = {
+    const checklistData: ChecklistCreateBody & Record<string, any> = {
       userId: user.id,
       gridCellId: selectedGrid,
       locations: {
@@ -1413,9 +2167,26 @@ const ChecklistPage = ({ user }: any) => {
       },
       species,
       timeSpent: parseInt(timeSpent),
+      submissionId: submissionIdRef.current,
       timestamp: new Date().toISOString()
     };
 
+    // The schema allows partial location sets (edits); a new checklist needs all three habitats.
+    const missing: FieldError[] = [];
+    if (!selectedGrid) missing.push({ path: 'gridCellId', message: 'Please select a grid cell' });
+    HABITAT_STEPS.forEach((step) => {
+      if (!locations[step.key]) missing.push({ path: `locations.${step.key}`, message: 'Place this location inside the selected grid cell' });
+    });
+    const errors = [
+      ...missing,
+      ...validateRequest('checklistCreate', checklistData).filter((field) => !missing.some((m) => m.path === field.path))
+    ];
+    if (errors.length) {
+      setFieldErrors(errors);
+      return;
+    }
+    setFieldErrors([]);
+
     try {
       // Get access token from Auth context (provided by App)
       const token = auth && auth.getAccessToken ? await auth.getAccessToken() : null;
@@ -1423,7 +2194,7 @@ const ChecklistPage = ({ user }: any) => {
       // Client-side check: ensure we have a token before submitting and give helpful guidance
       if (!token) {
         console.error('Checklist submit failed: no access token present. Please login again.');
-        alert('No access token found — please log out and login again (or try refreshing the page).');
+        setSubmitError('No access token found — please log out and login again (or try refreshing the page).');
         return;
       }
       try { console.debug('Submitting checklist with token length:', token ? token.length : 0); } catch (_) {}
@@ -1442,7 +2213,24 @@ const ChecklistPage = ({ user }: any) => {
         let msg = '';
         try {
           const errJson = await response.json();
-          msg = errJson?.error || errJson?.message || errJson?.hint || errJson?.detail || JSON.stringify(errJson);
+          if (response.status === 422 && errJson?.hint) {
+            // Location or species check failed on the server; mark the habitats and species that need attention
+            const outside = Array.isArray(errJson.locations) ? errJson.locations : [];
+            const unknownSpecies = Array.isArray(errJson.species) ? errJson.species : [];
+            setFieldErrors([
+              ...outside.map((loc: any) => ({ path: `locations.${loc.type}`, message: errJson.hint })),
+              ...unknownSpecies.map((key: string) => ({ path: `species.${key}`, message: errJson.hint }))
+            ]);
+            msg = errJson.hint;
+          } else if (response.status === 429) {
+            const retryAfter = Number(response.headers.get('Retry-After')) || Number(errJson?.retryAfter) || 60;
+            msg = t('checklist.tooManySubmissions', { minutes: Math.ceil(retryAfter / 60) });
+          } else if (fieldErrorsFromResponse(errJson).length) {
+            setFieldErrors(fieldErrorsFromResponse(errJson));
+            msg = 'Please correct the highlighted fields.';
+          } else {
+            msg = errJson?.error || errJson?.message || errJson?.hint || errJson?.detail || JSON.stringify(errJson);
+          }
         } catch (e) {
           msg = await response.text().catch(() => '');
         }
@@ -1450,6 +2238,8 @@ const ChecklistPage = ({ user }: any) => {
       }
 
       const json = await response.json().catch(() => null);
+      submissionIdRef.current = createSubmissionId();
+      setPhotoUploadError(json?.checklistId ? await uploadPhotos(json.checklistId, token) : null);
       setSubmitMessage(json?.message || null);
       setSubmitted(true);
       setTimeout(() => {
@@ -1457,12 +2247,13 @@ const ChecklistPage = ({ user }: any) => {
         resetLocations();
         const initialCounts = speciesList.reduce((acc: any, sp: any) => ({ ...acc, [sp.id]: 0 }), {});
         setSpecies(initialCounts);
+        setPhotos({});
         setTimeSpent('');
         setSubmitted(false);
       }, 3000);
     } catch (error: any) {
       console.error('Submission error:', error);
-      alert('Error submitting checklist: ' + error.message);
+      setSubmitError('Error submitting checklist: ' + error.message);
     }
   };
 
@@ -1480,6 +2271,7 @@ const ChecklistPage = ({ user }: any) => {
         <div className="text-6xl mb-4">✓</div>
         <h2 className="text-3xl font-bold text-green-600 mb-2">Checklist Submitted!</h2>
         {submitMessage ? <p className="text-gray-600 mb-2">{submitMessage}</p> : null}
+        {photoUploadError ? <div className="notification is-warning" role="alert">{photoUploadError}</div> : null}
         <p className="text-gray-600">Thank you for your contribution</p>
       </div>
     );
@@ -1501,7 +2293,7 @@ const ChecklistPage = ({ user }: any) => {
               ) : gridCellsError ? (
                 <div className="notification is-danger" role="alert">{gridCellsError}</div>
               ) : (
-                <div className="select is-fullwidth">
+                <div className={`select is-fullwidth ${hasFieldError(fieldErrors, 'gridCellId') ? 'is-danger' : ''}`}>
                   <select
                     id={gridCellSelectId}
                     value={selectedGrid || ''}
@@ -1514,7 +2306,11 @@ const ChecklistPage = ({ user }: any) => {
                   </select>
                 </div>
               )}
+              {fieldErrorMessage(fieldErrors, 'gridCellId') ? (
+                <p className="help is-danger">{fieldErrorMessage(fieldErrors, 'gridCellId')}</p>
+              ) : null}
             </div>
+            {!selectedGrid && <SurveyGapSuggestions onSelect={handleGridSelect} />}
             <Map 
               onGridSelect={handleGridSelect} 
               selectedGrid={selectedGrid}
@@ -1532,8 +2328,9 @@ const ChecklistPage = ({ user }: any) => {
                   {HABITAT_STEPS.map((step) => {
                     const done = Boolean(locations[step.key]);
                     const isActive = activeHabitat === step.key;
+                    const stepError = habitatErrorMessage(step.key);
                     return (
-                      <div key={step.key} className={`habitat-step ${done ? 'completed' : isActive ? 'active' : ''}`}>
+                      <div key={step.key} className={`habitat-step ${done ? 'completed' : isActive ? 'active' : ''} ${stepError ? 'has-error' : ''}`}>
                         <div className="habitat-step-header">
                           <span>{step.label}</span>
                           {done && (
@@ -1551,6 +2348,7 @@ const ChecklistPage = ({ user }: any) => {
                             <span>Waiting…</span>
                           )}
                         </div>
+                        {stepError ? <p className="help is-danger">{stepError}</p> : null}
                       </div>
                     );
                   })}
@@ -1587,37 +2385,62 @@ const ChecklistPage = ({ user }: any) => {
                       name="speciesSearch"
                       className="input"
                       type="text"
-                      placeholder="Zoek op Nederlandse of Latijnse naam..."
+                      placeholder={t('checklist.searchPlaceholder')}
                       value={searchTerm}
                       onChange={(e) => setSearchTerm(e.target.value)}
                     />
                   </div>
-                  <p className="help-note mt-2">{filteredSpecies.length} van {speciesList.length} soorten getoond {searchTerm && ` (gefilterd op "${searchTerm}")`}</p>
+                  <p className="help-note mt-2">{t('checklist.speciesShown', { shown: filteredSpecies.length, total: speciesList.length })}</p>
                 </div>
 
                 <div className="species-list box">
                   {filteredSpecies.length === 0 ? (
-                    <div className="has-text-centered py-4">Geen soorten gevonden voor "{searchTerm}"</div>
+                    <div className="has-text-centered py-4">{t('checklist.noSpeciesFound', { term: searchTerm })}</div>
                   ) : (
                     filteredSpecies.map((sp) => (
                       <div key={sp.id} className="species-item">
                         <div>
-                          <div className="name" id={`species-label-${sp.id}`}>{sp.dutch_name}</div>
+                          <div className="name" id={`species-label-${sp.id}`}>{vernacularName(sp, i18n.language) || sp.scientific_name}</div>
                           <div className="is-size-7 has-text-grey">{sp.scientific_name} · {sp.observation_count} waarnemingen</div>
+                          {sp.match && sp.match.matched_field === 'synonym' && (
+                            <div className="is-size-7 has-text-grey">{t('checklist.matchedAs', { name: sp.match.matched_name })}</div>
+                          )}
+                          {species[sp.id] > 0 && (
+                            <div className="is-size-7 mt-1">
+                              <label className="species-photo-input">
+                                <input
+                                  type="file"
+                                  accept={PHOTO_ACCEPT}
+                                  multiple
+                                  onChange={(e) => {
+                                    const files = Array.from(e.target.files || []).slice(0, MAX_PHOTOS_PER_SPECIES);
+                                    setPhotos((prev) => ({ ...prev, [sp.id]: files }));
+                                  }}
+                                />
+                                <span>{(photos[sp.id] || []).length
+                                  ? t('checklist.photosSelected', { count: photos[sp.id].length })
+                                  : t('checklist.addPhotos')}</span>
+                              </label>
+                            </div>
+                          )}
                         </div>
                         <div>
                           <label className="sr-only" htmlFor={`species-count-${sp.id}`}>
-                            {`Aantal voor ${sp.dutch_name || sp.scientific_name}`}
+                            {`Aantal voor ${vernacularName(sp, i18n.language) || sp.scientific_name}`}
                           </label>
                           <input
                             id={`species-count-${sp.id}`}
                             name={`speciesCount-${sp.id}`}
-                            className="input"
+                            className={`input ${hasFieldError(fieldErrors, `species.${sp.id}`) ? 'is-danger' : ''}`}
                             type="number"
                             min="0"
                             aria-labelledby={`species-label-${sp.id}`}
+                            aria-invalid={hasFieldError(fieldErrors, `species.${sp.id}`)}
                             value={species[sp.id] || 0}
-                            onChange={(e) => setSpecies((prev: any) => ({ ...prev, [sp.id]: parseInt(e.target.value) || 0 }))}
+                            onChange={(e) => {
+                              setSpecies((prev: any) => ({ ...prev, [sp.id]: parseInt(e.target.value) || 0 }));
+                              clearFieldError(`species.${sp.id}`);
+                            }}
                           />
                         </div>
                       </div>
@@ -1631,15 +2454,25 @@ const ChecklistPage = ({ user }: any) => {
                     <input
                       id={timeSpentInputId}
                       name="timeSpent"
-                      className="input"
+                      className={`input ${hasFieldError(fieldErrors, 'timeSpent') ? 'is-danger' : ''}`}
                       type="number"
                       min="1"
+                      aria-invalid={hasFieldError(fieldErrors, 'timeSpent')}
                       value={timeSpent}
-                      onChange={(e) => setTimeSpent(e.target.value)}
+                      onChange={(e) => {
+                        setTimeSpent(e.target.value);
+                        clearFieldError('timeSpent');
+                      }}
                     />
                   </div>
+                  {fieldErrorMessage(fieldErrors, 'timeSpent') ? (
+                    <p className="help is-danger">Time spent {fieldErrorMessage(fieldErrors, 'timeSpent')}</p>
+                  ) : null}
                 </div>
 
+                {submitError ? (
+                  <div className="notification is-danger" role="alert">{submitError}</div>
+                ) : null}
                 <div className="submit-row">
                   <button className="button is-primary is-medium" onClick={handleSubmit}>{t('checklist.submit')}</button>
                   <div className="help-note">Make sure you added at least one location and filled species counts as needed.</div>
@@ -1653,18 +2486,878 @@ const ChecklistPage = ({ user }: any) => {
   );
 };
 
-const App = () => {
-  const [currentPage, setCurrentPage] = useState('news');
-  // navigation state handles SPA pages, including auth pages
-  const [mobileMenuOpen, setMobileMenuOpen] = useState(false);
-  const [identifyDropdownOpen, setIdentifyDropdownOpen] = useState(false);
-  const auth = useAuth();
+// Formats accepted by /api/checklists/:id/photos, and how many photos go up with one request.
+const PHOTO_ACCEPT = 'image/jpeg,image/png,image/webp';
+const MAX_PHOTOS_PER_SPECIES = 5;
+
+// The local storage adapter serves photos from the API (relative URLs); Supabase returns signed URLs.
+const photoUrl = (url: string) => (url && url.startsWith('/') ? `${API_BASE}${url}` : url);
+
+// Thumbnails of an observation's photos, each linking to the full image.
+const ObservationPhotos = ({ photos, name }: { photos?: any[]; name: string }) => {
   const { t, i18n } = useTranslation();
+  if (!photos || photos.length === 0) return null;
+  return (
+    <div className="observation-photos">
+      {photos.map((photo) => (
+        <a key={photo.id} href={photoUrl(photo.url)} target="_blank" rel="noopener noreferrer">
+          <img
+            src={photoUrl(photo.thumbnail_url)}
+            alt={t('photos.alt', { name })}
+            title={photo.taken_at ? t('photos.takenAt', { date: new Date(photo.taken_at).toLocaleString(i18n.language) }) : undefined}
+            loading="lazy"
+          />
+        </a>
+      ))}
+    </div>
+  );
+};
+
+const VALIDATION_STATUS_TAGS: Record<ValidationStatus, string> = {
+  pending: 'is-light',
+  accepted: 'is-success is-light',
+  rejected: 'is-danger is-light',
+  needs_info: 'is-warning is-light'
+};
+
+const ValidationStatusTag = ({ status }: { status: ValidationStatus }) => {
+  const { t } = useTranslation();
+  return <span className={`tag ${VALIDATION_STATUS_TAGS[status] || 'is-light'}`}>{t(`validation.status.${status}`)}</span>;
+};
+
+// One of the observer's own checklists (/api/checklists/:id) with the validation of each observation.
+const ChecklistDetail = ({ checklistId, onClose }: { checklistId: number; onClose: () => void }) => {
+  const { t, i18n } = useTranslation();
+  const auth = React.useContext(AuthContext);
+  const [checklist, setChecklist] = useState<any>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let mounted = true;
+    (async () => {
+      setLoading(true);
+      setError(null);
+      try {
+        const token = auth && auth.getAccessToken ? await auth.getAccessToken() : null;
+        if (!token) throw new Error('No access token found — please log out and login again.');
+        const res = await fetch(`${API_BASE}/api/checklists/${checklistId}`, { headers: { Authorization: `Bearer ${token}` } });
+        if (!res.ok) {
+          const text = await res.text().catch(() => '');
+          throw new Error(text || `Request failed with status ${res.status}`);
+        }
+        const data = await res.json();
+        if (mounted) setChecklist(data);
+      } catch (err: any) {
+        if (!mounted) return;
+        console.error('Failed to load checklist', err);
+        setError(err?.message || 'Failed to load checklist');
+      } finally {
+        if (mounted) setLoading(false);
+      }
+    })();
+    return () => { mounted = false; };
+  }, [checklistId, auth]);
+
+  return (
+    <div className="box mt-3">
+      <div className="is-flex is-justify-content-space-between is-align-items-center mb-2">
+        <h3 className="is-size-6 has-text-weight-semibold">
+          {checklist
+            ? t('profile.checklistTitle', { cell: checklist.grid_cell_id, date: new Date(checklist.submitted_at).toLocaleDateString(i18n.language) })
+            : t('profile.loadingChecklist')}
+        </h3>
+        <button className="delete" aria-label={t('profile.closeChecklist')} onClick={onClose}></button>
+      </div>
+      {loading && <p className="help-note">{t('profile.loadingChecklist')}</p>}
+      {error && <div className="notification is-danger" role="alert">{error}</div>}
+      {checklist && (checklist.species || []).length === 0 && <p className="help-note">{t('profile.noSpeciesOnChecklist')}</p>}
+      {checklist && (checklist.species || []).length > 0 && (
+        <ul>
+          {checklist.species.map((sp: any) => (
+            <li key={sp.id ?? sp.species_id} className="mb-1">
+              <em>{sp.species_name}</em> × {sp.count} <ValidationStatusTag status={sp.validation_status || 'pending'} />
+              {sp.validation_comment && (
+                <p className="is-size-7 has-text-grey">{t('profile.validatorComment', { comment: sp.validation_comment })}</p>
+              )}
+              <ObservationPhotos photos={sp.photos} name={sp.species_name} />
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+// The signed-in observer's statistics (/api/profile) and own checklists (/api/checklists).
+const ProfilePage = ({ user }: any) => {
+  const { t, i18n } = useTranslation();
+  const auth = React.useContext(AuthContext);
+  const [profile, setProfile] = useState<any>(null);
+  const [checklists, setChecklists] = useState<any[]>([]);
+  const [openChecklistId, setOpenChecklistId] = useState<number | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!user) return;
+    let mounted = true;
+    const load = async () => {
+      setLoading(true);
+      setError(null);
+      try {
+        const token = auth && auth.getAccessToken ? await auth.getAccessToken() : null;
+        if (!token) throw new Error('No access token found — please log out and login again.');
+        const headers = { Authorization: `Bearer ${token}` };
+        const [profileRes, checklistsRes] = await Promise.all([
+          fetch(`${API_BASE}/api/profile`, { headers }),
+          fetch(`${API_BASE}/api/checklists`, { headers })
+        ]);
+        for (const res of [profileRes, checklistsRes]) {
+          if (!res.ok) {
+            const text = await res.text().catch(() => '');
+            throw new Error(text || `Request failed with status ${res.status}`);
+          }
+        }
+        const [profileData, checklistData] = await Promise.all([profileRes.json(), checklistsRes.json()]);
+        if (!mounted) return;
+        setProfile(profileData);
+        setChecklists(Array.isArray(checklistData) ? checklistData : []);
+      } catch (err: any) {
+        if (!mounted) return;
+        console.error('Failed to load profile', err);
+        setError(err?.message || 'Failed to load profile');
+      } finally {
+        if (mounted) setLoading(false);
+      }
+    };
+    load();
+    return () => { mounted = false; };
+  }, [user, auth]);
+
+  if (!user) {
+    return (
+      <div className="text-center py-12">
+        <p className="text-xl text-gray-600">{t('profile.loginRequired')}</p>
+      </div>
+    );
+  }
+
+  const formatDate = (value: string | null) => {
+    if (!value) return '—';
+    const date = new Date(value);
+    return Number.isNaN(date.getTime()) ? value : date.toLocaleDateString(i18n.language);
+  };
+
+  if (loading) return <div className="box">{t('profile.loading')}</div>;
+  if (error) return <div className="notification is-danger" role="alert">{error}</div>;
+
+  const stats = profile?.stats || {};
+  const minutes = Number(stats.total_minutes) || 0;
+  const tiles = [
+    { label: t('profile.checklists'), value: stats.checklist_count ?? 0 },
+    { label: t('profile.effort'), value: t('profile.effortValue', { hours: Math.floor(minutes / 60), minutes: minutes % 60 }) },
+    { label: t('profile.gridCells'), value: stats.grid_cell_count ?? 0 },
+    { label: t('profile.species'), value: (stats.species || []).length }
+  ];
+
+  return (
+    <div className="max-w-6xl mx-auto">
+      <div className="box mb-5">
+        <h1 className="title is-3">{profile?.user?.name || profile?.user?.email || t('profile.title')}</h1>
+        <p className="help-note">
+          {profile?.user?.created_at ? `${t('profile.memberSince', { date: formatDate(profile.user.created_at) })} · ` : ''}
+          {t('profile.alias', { alias: profile?.user?.alias })}
+        </p>
+      </div>
+
+      <div className="columns is-multiline mb-4">
+        {tiles.map((tile) => (
+          <div key={tile.label} className="column is-one-quarter">
+            <div className="box has-text-centered">
+              <p className="heading">{tile.label}</p>
+              <p className="title is-4">{tile.value}</p>
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <div className="columns">
+        <div className="column">
+          <div className="box">
+            <h2 className="is-size-5 has-text-weight-semibold mb-2">{t('profile.lifeList')}</h2>
+            {(stats.species || []).length === 0 ? (
+              <p className="help-note">{t('profile.noSpecies')}</p>
+            ) : (
+              <ul>
+                {stats.species.map((sp: any) => (
+                  <li key={sp.species_id}>
+                    <em>{sp.scientific_name}</em>
+                    <span className="is-size-7 has-text-grey"> · {t('profile.firstSeen', { date: formatDate(sp.first_seen_at), cell: sp.first_grid_cell_id })}</span>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        </div>
+        <div className="column">
+          <div className="box">
+            <h2 className="is-size-5 has-text-weight-semibold mb-1">{t('profile.firstRecords')}</h2>
+            <p className="help-note mb-2">{t('profile.firstRecordsIntro')}</p>
+            {(stats.first_records || []).length === 0 ? (
+              <p className="help-note">{t('profile.noFirstRecords')}</p>
+            ) : (
+              <ul>
+                {stats.first_records.map((record: any) => (
+                  <li key={`${record.species_id}-${record.grid_cell_id}`}>
+                    <em>{record.scientific_name}</em> · {record.grid_cell_id} · {formatDate(record.submitted_at)}
+                    {record.atlas_first && <span className="tag is-success is-light ml-2">{t('profile.atlasFirst')}</span>}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        </div>
+      </div>
+
+      <div className="box">
+        <h2 className="is-size-5 has-text-weight-semibold mb-2">{t('profile.myChecklists')}</h2>
+        {checklists.length === 0 ? (
+          <p className="help-note">{t('profile.noChecklists')}</p>
+        ) : (
+          <ul>
+            {checklists.map((checklist) => (
+              <li key={checklist.id}>
+                <a onClick={() => setOpenChecklistId(openChecklistId === checklist.id ? null : checklist.id)}>
+                  {t('profile.checklistLine', {
+                    date: formatDate(checklist.submitted_at),
+                    cell: checklist.grid_cell_id,
+                    minutes: checklist.time_spent_minutes ?? '?',
+                    species: checklist.species_count ?? 0
+                  })}
+                </a>
+                {openChecklistId === checklist.id && (
+                  <ChecklistDetail checklistId={checklist.id} onClose={() => setOpenChecklistId(null)} />
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+};
+
+// Validator queue (/api/validation/observations): filter by status, species and grid cell, then accept,
+// reject or ask the observer for more information. Rejecting and asking need a comment.
+const ValidationPage = () => {
+  const { t, i18n } = useTranslation();
+  const auth = React.useContext(AuthContext);
+  const [status, setStatus] = useState<ValidationStatus>('pending');
+  const [speciesFilter, setSpeciesFilter] = useState('');
+  const [gridCellFilter, setGridCellFilter] = useState('');
+  const [observations, setObservations] = useState<any[]>([]);
+  const [comments, setComments] = useState<Record<string, string>>({});
+  const [loading, setLoading] = useState(false);
+  const [savingId, setSavingId] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const isValidator = Boolean(auth && auth.hasRole('validator'));
+
+  const authHeaders = async () => {
+    const token = auth && auth.getAccessToken ? await auth.getAccessToken() : null;
+    if (!token) throw new Error('No access token found — please log out and login again.');
+    return { Authorization: `Bearer ${token}` };
+  };
+
+  const readError = async (res: Response) => {
+    const body = await res.json().catch(() => null);
+    return body?.hint || body?.error || `Request failed with status ${res.status}`;
+  };
+
+  const loadObservations = async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const params = new URLSearchParams({ status });
+      if (speciesFilter.trim()) params.set('species', speciesFilter.trim());
+      if (gridCellFilter.trim()) params.set('grid_cell', gridCellFilter.trim());
+      const res = await fetch(`${API_BASE}/api/validation/observations?${params}`, { headers: await authHeaders() });
+      if (!res.ok) throw new Error(await readError(res));
+      const data = await res.json();
+      setObservations(Array.isArray(data?.observations) ? data.observations : []);
+    } catch (err: any) {
+      console.error('Failed to load observations', err);
+      setError(err?.message || 'Failed to load observations');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    if (isValidator) loadObservations();
+  }, [isValidator, status]);
+
+  const validate = async (observationId: number, nextStatus: ValidationStatus) => {
+    const comment = comments[observationId]?.trim() || null;
+    if (!comment && (nextStatus === 'rejected' || nextStatus === 'needs_info')) {
+      setError(t('validation.commentRequired'));
+      return;
+    }
+    const body: ObservationValidationBody = { status: nextStatus, comment };
+    setSavingId(observationId);
+    setError(null);
+    try {
+      const res = await fetch(`${API_BASE}/api/validation/observations/${observationId}`, {
+        method: 'PATCH',
+        headers: { ...(await authHeaders()), 'Content-Type': 'application/json' },
+        body: JSON.stringify(body)
+      });
+      if (!res.ok) throw new Error(await readError(res));
+      const updated = await res.json();
+      // Validated observations leave the list unless it shows that status.
+      setObservations((prev) => (updated.validation_status === status
+        ? prev.map((o) => (o.id === updated.id ? updated : o))
+        : prev.filter((o) => o.id !== updated.id)));
+    } catch (err: any) {
+      setError(err?.message || 'Failed to save validation');
+    } finally {
+      setSavingId(null);
+    }
+  };
+
+  if (!isValidator) {
+    return (
+      <div className="text-center py-12">
+        <p className="text-xl text-gray-600">{t('validation.forbidden')}</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="max-w-6xl mx-auto">
+      <div className="box mb-5">
+        <h1 className="title is-3">{t('validation.title')}</h1>
+        <p className="help-note">{t('validation.intro')}</p>
+      </div>
+
+      <form className="box mb-5" onSubmit={(e) => { e.preventDefault(); loadObservations(); }}>
+        <div className="field is-grouped is-grouped-multiline">
+          <div className="control">
+            <div className="select">
+              <select aria-label={t('validation.statusFilter')} value={status} onChange={(e) => setStatus(e.target.value as ValidationStatus)}>
+                {(Object.keys(VALIDATION_STATUS_TAGS) as ValidationStatus[]).map((option) => (
+                  <option key={option} value={option}>{t(`validation.status.${option}`)}</option>
+                ))}
+              </select>
+            </div>
+          </div>
+          <div className="control is-expanded">
+            <input className="input" type="text" placeholder={t('validation.speciesPlaceholder')} value={speciesFilter} onChange={(e) => setSpeciesFilter(e.target.value)} />
+          </div>
+          <div className="control">
+            <input className="input" type="text" placeholder={t('validation.gridCellPlaceholder')} value={gridCellFilter} onChange={(e) => setGridCellFilter(e.target.value)} />
+          </div>
+          <div className="control">
+            <button className="button is-link" type="submit" disabled={loading}>{t('validation.filter')}</button>
+          </div>
+        </div>
+      </form>
+
+      {error && <div className="notification is-danger" role="alert">{error}</div>}
+
+      <div className="box">
+        {loading ? (
+          <p className="help-note">{t('validation.loading')}</p>
+        ) : observations.length === 0 ? (
+          <p className="help-note">{t('validation.empty')}</p>
+        ) : (
+          <ul>
+            {observations.map((o) => (
+              <li key={o.id} className="validation-item">
+                <p>
+                  <em>{o.species_name}</em> × {o.count} · {o.grid_cell_id} · {new Date(o.submitted_at).toLocaleDateString(i18n.language)} · {o.observer_name ? `${o.observer_name} (${o.observer})` : o.observer}
+                  {' '}<ValidationStatusTag status={o.validation_status} />
+                </p>
+                {o.validation_comment && <p className="is-size-7 has-text-grey">{o.validation_comment}</p>}
+                <ObservationPhotos photos={o.photos} name={o.species_name} />
+                <div className="field has-addons mt-2">
+                  <div className="control is-expanded">
+                    <input
+                      className="input is-small"
+                      type="text"
+                      placeholder={t('validation.commentPlaceholder')}
+                      value={comments[o.id] || ''}
+                      onChange={(e) => setComments((prev) => ({ ...prev, [o.id]: e.target.value }))}
+                    />
+                  </div>
+                  <div className="control">
+                    <button className="button is-small is-success" type="button" disabled={savingId === o.id} onClick={() => validate(o.id, 'accepted')}>{t('validation.accept')}</button>
+                  </div>
+                  <div className="control">
+                    <button className="button is-small is-warning" type="button" disabled={savingId === o.id} onClick={() => validate(o.id, 'needs_info')}>{t('validation.askInfo')}</button>
+                  </div>
+                  <div className="control">
+                    <button className="button is-small is-danger" type="button" disabled={savingId === o.id} onClick={() => validate(o.id, 'rejected')}>{t('validation.reject')}</button>
+                  </div>
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+};
+
+// Admin-only overview of granted roles (/api/admin/roles) with a form to change a user's role.
+const RolesAdminPage = () => {
+  const { t } = useTranslation();
+  const auth = React.useContext(AuthContext);
+  const [roles, setRoles] = useState<any[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [userId, setUserId] = useState('');
+  const [role, setRole] = useState<UserRole>('validator');
+  const [saving, setSaving] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+  const isAdmin = Boolean(auth && auth.hasRole('admin'));
+
+  const authHeaders = async () => {
+    const token = auth && auth.getAccessToken ? await auth.getAccessToken() : null;
+    if (!token) throw new Error('No access token found — please log out and login again.');
+    return { Authorization: `Bearer ${token}` };
+  };
+
+  const readError = async (res: Response) => {
+    const body = await res.json().catch(() => null);
+    return body?.hint || body?.error || `Request failed with status ${res.status}`;
+  };
+
+  const loadRoles = async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const res = await fetch(`${API_BASE}/api/admin/roles`, { headers: await authHeaders() });
+      if (!res.ok) throw new Error(await readError(res));
+      const data = await res.json();
+      setRoles(Array.isArray(data) ? data : []);
+    } catch (err: any) {
+      console.error('Failed to load roles', err);
+      setError(err?.message || 'Failed to load roles');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    if (isAdmin) loadRoles();
+  }, [isAdmin]);
+
+  const saveRole = async (targetUserId: string, targetRole: UserRole) => {
+    setSaving(true);
+    setError(null);
+    setMessage(null);
+    try {
+      const res = await fetch(`${API_BASE}/api/admin/users/${encodeURIComponent(targetUserId)}/role`, {
+        method: 'PUT',
+        headers: { ...(await authHeaders()), 'Content-Type': 'application/json' },
+        body: JSON.stringify({ role: targetRole })
+      });
+      if (!res.ok) throw new Error(await readError(res));
+      setMessage(t('admin.roleSaved', { user: targetUserId, role: t(`admin.roles.${targetRole}`) }));
+      setUserId('');
+      await loadRoles();
+    } catch (err: any) {
+      setError(err?.message || 'Failed to save role');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (!isAdmin) {
+    return (
+      <div className="text-center py-12">
+        <p className="text-xl text-gray-600">{t('admin.forbidden')}</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="max-w-6xl mx-auto">
+      <div className="box mb-5">
+        <h1 className="title is-3">{t('admin.title')}</h1>
+        <p className="help-note">{t('admin.intro')}</p>
+      </div>
+
+      {error && <div className="notification is-danger" role="alert">{error}</div>}
+      {message && <div className="notification is-success">{message}</div>}
+
+      <div className="box mb-5">
+        <h2 className="is-size-5 has-text-weight-semibold mb-2">{t('admin.grantTitle')}</h2>
+        <form onSubmit={(e) => { e.preventDefault(); if (userId.trim()) saveRole(userId.trim(), role); }}>
+          <div className="field is-grouped">
+            <div className="control is-expanded">
+              <input className="input" type="text" placeholder={t('admin.userIdPlaceholder')} value={userId} onChange={(e) => setUserId(e.target.value)} />
+            </div>
+            <div className="control">
+              <div className="select">
+                <select value={role} onChange={(e) => setRole(e.target.value as UserRole)}>
+                  {USER_ROLES.map((option) => <option key={option} value={option}>{t(`admin.roles.${option}`)}</option>)}
+                </select>
+              </div>
+            </div>
+            <div className="control">
+              <button className="button is-link" type="submit" disabled={saving || !userId.trim()}>{t('admin.save')}</button>
+            </div>
+          </div>
+        </form>
+      </div>
+
+      <div className="box">
+        <h2 className="is-size-5 has-text-weight-semibold mb-2">{t('admin.currentRoles')}</h2>
+        {loading ? (
+          <p className="help-note">{t('admin.loading')}</p>
+        ) : roles.length === 0 ? (
+          <p className="help-note">{t('admin.noRoles')}</p>
+        ) : (
+          <table className="table is-fullwidth is-striped">
+            <thead>
+              <tr>
+                <th>{t('admin.name')}</th>
+                <th>{t('admin.userId')}</th>
+                <th>{t('admin.role')}</th>
+                <th></th>
+              </tr>
+            </thead>
+            <tbody>
+              {roles.map((row) => (
+                <tr key={row.user_id}>
+                  <td>{row.name || '—'}</td>
+                  <td><code>{row.user_id}</code></td>
+                  <td>{t(`admin.roles.${row.role}`)}</td>
+                  <td className="has-text-right">
+                    {String(row.user_id) !== String(auth.user?.id) && (
+                      <button className="button is-small is-light" type="button" disabled={saving} onClick={() => saveRole(row.user_id, 'observer')}>
+                        {t('admin.revoke')}
+                      </button>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </div>
+  );
+};
+
+// Editor form state: strings for the inputs, turned into a NewsItemBody on save.
+const EMPTY_NEWS_FORM = { title: '', content: '', image_url: '', author: '', license: '', published_date: '', draft: true };
+
+const NEWS_LANGUAGES: NewsLanguage[] = ['nl', 'fr', 'en'];
+
+// News editor for admins (/api/admin/news): write drafts, publish them, edit or delete published items.
+const NewsEditorPage = () => {
+  const { t, i18n } = useTranslation();
+  const auth = React.useContext(AuthContext);
+  const [items, setItems] = useState<any[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  const [form, setForm] = useState(EMPTY_NEWS_FORM);
+  const [language, setLanguage] = useState<NewsLanguage>('nl');
+  // Translations into the other languages; ones left empty are not saved
+  const [translations, setTranslations] = useState<Record<string, NewsTranslationBody>>({});
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [fieldErrors, setFieldErrors] = useState<FieldError[]>([]);
+  const [saving, setSaving] = useState(false);
+  const isAdmin = Boolean(auth && auth.hasRole('admin'));
+
+  const authHeaders = async () => {
+    const token = auth && auth.getAccessToken ? await auth.getAccessToken() : null;
+    if (!token) throw new Error('No access token found — please log out and login again.');
+    return { Authorization: `Bearer ${token}` };
+  };
+
+  const readError = async (res: Response) => {
+    const body = await res.json().catch(() => null);
+    if (fieldErrorsFromResponse(body).length) setFieldErrors(fieldErrorsFromResponse(body));
+    return body?.hint || body?.error || `Request failed with status ${res.status}`;
+  };
+
+  const loadItems = async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const res = await fetch(`${API_BASE}/api/admin/news`, { headers: await authHeaders() });
+      if (!res.ok) throw new Error(await readError(res));
+      const data = await res.json();
+      setItems(Array.isArray(data) ? data : []);
+    } catch (err: any) {
+      console.error('Failed to load news', err);
+      setError(err?.message || 'Failed to load news');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    if (isAdmin) loadItems();
+  }, [isAdmin]);
+
+  const resetForm = () => {
+    setForm(EMPTY_NEWS_FORM);
+    setLanguage('nl');
+    setTranslations({});
+    setEditingId(null);
+    setFieldErrors([]);
+  };
+
+  const startEdit = (item: any) => {
+    setForm({
+      title: item.title || '',
+      content: item.content || '',
+      image_url: item.image_url || '',
+      author: item.author || '',
+      license: item.license || '',
+      published_date: item.published_date ? String(item.published_date).slice(0, 10) : '',
+      draft: Boolean(item.draft)
+    });
+    setLanguage(NEWS_LANGUAGES.includes(item.language) ? item.language : 'nl');
+    setTranslations(item.translations || {});
+    setEditingId(item.id);
+    setFieldErrors([]);
+    setMessage(null);
+  };
+
+  const save = async () => {
+    const body: NewsItemBody = {
+      title: form.title.trim(),
+      content: form.content,
+      image_url: form.image_url.trim() || null,
+      author: form.author.trim() || null,
+      license: form.license.trim() || null,
+      published_date: form.published_date || null,
+      draft: form.draft,
+      language,
+      translations: Object.fromEntries(NEWS_LANGUAGES
+        .filter((lang) => lang !== language && (translations[lang]?.title.trim() || translations[lang]?.content.trim()))
+        .map((lang) => [lang, { title: translations[lang].title.trim(), content: translations[lang].content }]))
+    };
+    const errors = validateRequest('newsItem', body);
+    setFieldErrors(errors);
+    if (errors.length) return;
+    setSaving(true);
+    setError(null);
+    setMessage(null);
+    try {
+      const res = await fetch(editingId ? `${API_BASE}/api/admin/news/${editingId}` : `${API_BASE}/api/admin/news`, {
+        method: editingId ? 'PUT' : 'POST',
+        headers: { ...(await authHeaders()), 'Content-Type': 'application/json' },
+        body: JSON.stringify(body)
+      });
+      if (!res.ok) throw new Error(await readError(res));
+      setMessage(t('newsEditor.saved', { title: body.title }));
+      resetForm();
+      await loadItems();
+    } catch (err: any) {
+      setError(err?.message || 'Failed to save news item');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const runAction = async (path: string, method: string, done: string) => {
+    setSaving(true);
+    setError(null);
+    setMessage(null);
+    try {
+      const res = await fetch(`${API_BASE}${path}`, { method, headers: await authHeaders() });
+      if (!res.ok) throw new Error(await readError(res));
+      setMessage(done);
+      await loadItems();
+    } catch (err: any) {
+      setError(err?.message || 'Request failed');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const publish = (item: any) => runAction(`/api/admin/news/${item.id}/publish`, 'POST', t('newsEditor.publishedMessage', { title: item.title }));
+
+  const remove = (item: any) => {
+    if (!window.confirm(t('newsEditor.confirmDelete', { title: item.title }))) return;
+    if (editingId === item.id) resetForm();
+    runAction(`/api/admin/news/${item.id}`, 'DELETE', t('newsEditor.deleted', { title: item.title }));
+  };
+
+  const field = (key: keyof typeof EMPTY_NEWS_FORM, label: string, type = 'text') => (
+    <div className="field">
+      <label className="label" htmlFor={`news-${key}`}>{label}</label>
+      <div className="control">
+        <input
+          id={`news-${key}`}
+          className={`input ${hasFieldError(fieldErrors, key) ? 'is-danger' : ''}`}
+          type={type}
+          value={form[key] as string}
+          onChange={(e) => setForm((prev) => ({ ...prev, [key]: e.target.value }))}
+        />
+      </div>
+      {fieldErrorMessage(fieldErrors, key) && <p className="help is-danger">{fieldErrorMessage(fieldErrors, key)}</p>}
+    </div>
+  );
+
+  if (!isAdmin) {
+    return (
+      <div className="text-center py-12">
+        <p className="text-xl text-gray-600">{t('newsEditor.forbidden')}</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="max-w-6xl mx-auto">
+      <div className="box mb-5">
+        <h1 className="title is-3">{t('newsEditor.title')}</h1>
+        <p className="help-note">{t('newsEditor.intro')}</p>
+      </div>
+
+      {error && <div className="notification is-danger" role="alert">{error}</div>}
+      {message && <div className="notification is-success">{message}</div>}
+
+      <form className="box mb-5" onSubmit={(e) => { e.preventDefault(); save(); }}>
+        <h2 className="is-size-5 has-text-weight-semibold mb-2">{editingId ? t('newsEditor.editItem') : t('newsEditor.newItem')}</h2>
+        <div className="field">
+          <label className="label" htmlFor="news-language">{t('newsEditor.language')}</label>
+          <div className="control">
+            <div className="select">
+              <select id="news-language" value={language} onChange={(e) => setLanguage(e.target.value as NewsLanguage)}>
+                {NEWS_LANGUAGES.map((lang) => <option key={lang} value={lang}>{t(`news.languages.${lang}`)}</option>)}
+              </select>
+            </div>
+          </div>
+        </div>
+        {field('title', t('newsEditor.fields.title'))}
+        <div className="field">
+          <label className="label" htmlFor="news-content">{t('newsEditor.fields.content')}</label>
+          <div className="control">
+            <textarea
+              id="news-content"
+              className={`textarea ${hasFieldError(fieldErrors, 'content') ? 'is-danger' : ''}`}
+              rows={8}
+              value={form.content}
+              onChange={(e) => setForm((prev) => ({ ...prev, content: e.target.value }))}
+            />
+          </div>
+          {fieldErrorMessage(fieldErrors, 'content') && <p className="help is-danger">{fieldErrorMessage(fieldErrors, 'content')}</p>}
+        </div>
+        {field('image_url', t('newsEditor.fields.imageUrl'), 'url')}
+        <div className="columns">
+          <div className="column">{field('author', t('newsEditor.fields.author'))}</div>
+          <div className="column">{field('license', t('newsEditor.fields.license'))}</div>
+          <div className="column">{field('published_date', t('newsEditor.fields.publishedDate'), 'date')}</div>
+        </div>
+        {NEWS_LANGUAGES.filter((lang) => lang !== language).map((lang) => (
+          <fieldset key={lang} className="box news-translation">
+            <legend className="has-text-weight-semibold">{t('newsEditor.translation', { language: t(`news.languages.${lang}`) })}</legend>
+            <p className="help-note mb-2">{t('newsEditor.translationHint')}</p>
+            <div className="field">
+              <label className="label" htmlFor={`news-title-${lang}`}>{t('newsEditor.fields.title')}</label>
+              <div className="control">
+                <input
+                  id={`news-title-${lang}`}
+                  className={`input ${hasFieldError(fieldErrors, `translations.${lang}.title`) ? 'is-danger' : ''}`}
+                  type="text"
+                  value={translations[lang]?.title || ''}
+                  onChange={(e) => setTranslations((prev) => ({ ...prev, [lang]: { content: '', ...prev[lang], title: e.target.value } }))}
+                />
+              </div>
+            </div>
+            <div className="field">
+              <label className="label" htmlFor={`news-content-${lang}`}>{t('newsEditor.fields.content')}</label>
+              <div className="control">
+                <textarea
+                  id={`news-content-${lang}`}
+                  className={`textarea ${hasFieldError(fieldErrors, `translations.${lang}.content`) ? 'is-danger' : ''}`}
+                  rows={5}
+                  value={translations[lang]?.content || ''}
+                  onChange={(e) => setTranslations((prev) => ({ ...prev, [lang]: { title: '', ...prev[lang], content: e.target.value } }))}
+                />
+              </div>
+              {fieldErrorMessage(fieldErrors, `translations.${lang}`) && (
+                <p className="help is-danger">{fieldErrorMessage(fieldErrors, `translations.${lang}`)}</p>
+              )}
+            </div>
+          </fieldset>
+        ))}
+        <div className="field">
+          <label className="checkbox">
+            <input type="checkbox" checked={form.draft} onChange={(e) => setForm((prev) => ({ ...prev, draft: e.target.checked }))} />
+            {' '}{t('newsEditor.fields.draft')}
+          </label>
+        </div>
+        <div className="buttons">
+          <button className="button is-link" type="submit" disabled={saving}>{t('newsEditor.save')}</button>
+          {editingId && <button className="button is-light" type="button" onClick={resetForm}>{t('newsEditor.cancel')}</button>}
+        </div>
+      </form>
+
+      <div className="box">
+        {loading ? (
+          <p className="help-note">{t('newsEditor.loading')}</p>
+        ) : items.length === 0 ? (
+          <p className="help-note">{t('newsEditor.empty')}</p>
+        ) : (
+          <table className="table is-fullwidth is-striped">
+            <tbody>
+              {items.map((item) => (
+                <tr key={item.id}>
+                  <td>
+                    <strong>{item.title}</strong>{' '}
+                    <span className="tag is-light">{[item.language, ...Object.keys(item.translations || {})].join(' · ').toUpperCase()}</span>{' '}
+                    <span className={`tag ${item.draft ? 'is-warning is-light' : 'is-success is-light'}`}>
+                      {item.draft ? t('newsEditor.draftTag') : t('newsEditor.publishedTag')}
+                    </span>
+                  </td>
+                  <td>{item.published_date ? new Date(item.published_date).toLocaleDateString(i18n.language) : ''}</td>
+                  <td className="has-text-right">
+                    <div className="buttons is-right">
+                      <button className="button is-small is-light" type="button" disabled={saving} onClick={() => startEdit(item)}>{t('newsEditor.edit')}</button>
+                      {item.draft && (
+                        <button className="button is-small is-success" type="button" disabled={saving} onClick={() => publish(item)}>{t('newsEditor.publish')}</button>
+                      )}
+                      <button className="button is-small is-danger is-light" type="button" disabled={saving} onClick={() => remove(item)}>{t('newsEditor.delete')}</button>
+                    </div>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </div>
+  );
+};
+
+const App = () => {
+  const [currentPage, setCurrentPage] = useState(AUTH_LINK ? AUTH_LINK.page : 'news');
+  // navigation state handles SPA pages, including auth pages
+  const [mobileMenuOpen, setMobileMenuOpen] = useState(false);
+  const [identifyDropdownOpen, setIdentifyDropdownOpen] = useState(false);
+  const auth = useAuth();
+  const { t, i18n } = useTranslation();
+
+  // If the user clicked a confirmation link (which supplies an access_token in the URL fragment),
+  // Supabase requires the SPA to parse the fragment and set the session. getSessionFromUrl() will
+  // parse the URL and set the session in the client. We call it on app load when an access_token
+  // is present in the URL to consume the token and clean the URL.
+  // Keep verification and reset tokens out of the history and of Referer headers once AUTH_LINK has them.
+  useEffect(() => {
+    if (!AUTH_LINK) return;
+    try { history.replaceState({}, document.title, window.location.pathname); } catch (_) {}
+  }, []);
 
-  // If the user clicked a confirmation link (which supplies an access_token in the URL fragment),
-  // Supabase requires the SPA to parse the fragment and set the session. getSessionFromUrl() will
-  // parse the URL and set the session in the client. We call it on app load when an access_token
-  // is present in the URL to consume the token and clean the URL.
   useEffect(() => {
     const supabase = getSupabaseClient();
     if (!supabase) return;
@@ -1720,6 +3413,7 @@ const App = () => {
                 <a className={`navbar-item ${currentPage === 'news' ? 'is-active' : ''}`} onClick={() => setCurrentPage('news')}>{t('nav.news')}</a>
                 <a className={`navbar-item ${currentPage === 'about' ? 'is-active' : ''}`} onClick={() => setCurrentPage('about')}>{t('nav.about')}</a>
                 <a className={`navbar-item ${currentPage === 'explore' ? 'is-active' : ''}`} onClick={() => setCurrentPage('explore')}>Explore species</a>
+                <a className={`navbar-item ${currentPage === 'map' ? 'is-active' : ''}`} onClick={() => setCurrentPage('map')}>{t('nav.map')}</a>
                 
                 <div className={`navbar-item has-dropdown ${identifyDropdownOpen ? 'is-active' : ''}`} onMouseEnter={() => setIdentifyDropdownOpen(true)} onMouseLeave={() => setIdentifyDropdownOpen(false)}>
                   <a className="navbar-link">
@@ -1742,6 +3436,18 @@ const App = () => {
                 </div>
 
                 <a className={`navbar-item ${currentPage === 'checklist' ? 'is-active' : ''}`} onClick={() => setCurrentPage('checklist')}>{t('nav.checklist')}</a>
+                {auth.user && (
+                  <a className={`navbar-item ${currentPage === 'profile' ? 'is-active' : ''}`} onClick={() => setCurrentPage('profile')}>{t('nav.profile')}</a>
+                )}
+                {auth.user && auth.hasRole('validator') && (
+                  <a className={`navbar-item ${currentPage === 'validation' ? 'is-active' : ''}`} onClick={() => setCurrentPage('validation')}>{t('nav.validation')}</a>
+                )}
+                {auth.user && auth.hasRole('admin') && (
+                  <a className={`navbar-item ${currentPage === 'news-editor' ? 'is-active' : ''}`} onClick={() => setCurrentPage('news-editor')}>{t('nav.newsEditor')}</a>
+                )}
+                {auth.user && auth.hasRole('admin') && (
+                  <a className={`navbar-item ${currentPage === 'admin' ? 'is-active' : ''}`} onClick={() => setCurrentPage('admin')}>{t('nav.admin')}</a>
+                )}
                 <a className={`navbar-item ${currentPage === 'contact' ? 'is-active' : ''}`} onClick={() => setCurrentPage('contact')}>{t('nav.contact')}</a>
               </div>
 
@@ -1777,17 +3483,25 @@ const App = () => {
 
         <section className="section" style={{ paddingTop: '4.5rem' }}>
           <div className="container">
+            <EmailVerificationNotice />
             {currentPage === 'news' && <NewsPage />}
             {currentPage === 'about' && <AboutPage onNavigate={setCurrentPage} />}
             {currentPage === 'checklist' && <ChecklistPage user={auth.user} />}
             {currentPage === 'contact' && <ContactPage />}
             {currentPage === 'explore' && <ExploreSpeciesPage />}
+            {currentPage === 'map' && <GridMapPage />}
+            {currentPage === 'profile' && <ProfilePage user={auth.user} />}
+            {currentPage === 'validation' && <ValidationPage />}
+            {currentPage === 'admin' && <RolesAdminPage />}
+            {currentPage === 'news-editor' && <NewsEditorPage />}
             {currentPage === 'identify-freshwater-gastropods' && <FreshwaterGastropodsIdentificationPage />}
             {currentPage === 'identify-pill-clams' && <PillClamsIdentificationPage />}
             {currentPage === 'identify-najades' && <NajadesIdentificationPage />}
             {currentPage === 'identify-terrestrial-gastropods' && <TerrestrialGastropodsIdentificationPage />}
-            {currentPage === 'login' && <LoginPage onSuccess={() => setCurrentPage('news')} />}
+            {currentPage === 'login' && <LoginPage onSuccess={() => setCurrentPage('news')} onForgotPassword={() => setCurrentPage('reset-password')} />}
             {currentPage === 'register' && <RegisterPage onSuccess={() => setCurrentPage('news')} />}
+            {currentPage === 'reset-password' && <ResetPasswordPage token={AUTH_LINK?.page === 'reset-password' ? AUTH_LINK.token : null} onDone={() => setCurrentPage('login')} />}
+            {currentPage === 'verify-email' && <VerifyEmailPage token={AUTH_LINK?.token} onDone={() => setCurrentPage('news')} />}
           </div>
         </section>
 
@@ -0,0 +1,146 @@
+import Ajv from 'ajv';
+
+// Same schemas the backend validates request bodies against (lib/validation.js).
+import requestSchemas from '../../shared/request-schemas.json';
+
+export type FieldError = { path: string; message: string };
+
+export type RequestSchemaName = 'register' | 'login' | 'authSync' | 'checklistCreate' | 'checklistReplace' | 'checklistPatch'
+  | 'userRole' | 'observationValidation' | 'newsItem';
+
+export type HabitatKey = 'swamp' | 'urban' | 'anthropogenous' | 'forest';
+
+export interface LocationBody {
+  lat: number;
+  lng: number;
+}
+
+export interface RegisterBody {
+  email: string;
+  password: string;
+  name?: string | null;
+  locale?: 'nl' | 'fr' | 'en' | null;
+}
+
+export interface LoginBody {
+  email: string;
+  password: string;
+}
+
+export interface PasswordResetRequestBody {
+  email: string;
+  locale?: 'nl' | 'fr' | 'en' | null;
+}
+
+export interface PasswordResetBody {
+  token: string;
+  password: string;
+}
+
+export interface AuthSyncBody {
+  email?: string | null;
+  name?: string | null;
+  locale?: 'nl' | 'fr' | 'en' | null;
+}
+
+export interface ChecklistCreateBody {
+  gridCellId: string;
+  timeSpent: number;
+  locations?: Partial<Record<HabitatKey, LocationBody | null>>;
+  species?: Record<string, number>;
+  submissionId?: string | null;
+}
+
+export interface ChecklistUpdateBody {
+  timeSpent?: number;
+  locations?: Partial<Record<HabitatKey, LocationBody | null>>;
+  species?: Record<string, number>;
+}
+
+export type UserRole = 'observer' | 'validator' | 'admin';
+
+export interface UserRoleBody {
+  role: UserRole;
+}
+
+export type ValidationStatus = 'pending' | 'accepted' | 'rejected' | 'needs_info';
+
+export interface ObservationValidationBody {
+  status: ValidationStatus;
+  comment?: string | null;
+}
+
+export type NewsLanguage = 'nl' | 'fr' | 'en';
+
+export interface NewsTranslationBody {
+  title: string;
+  content: string;
+}
+
+export interface NewsItemBody {
+  title: string;
+  content: string;
+  image_url?: string | null;
+  author?: string | null;
+  license?: string | null;
+  published_date?: string | null;
+  draft?: boolean;
+  language?: NewsLanguage;
+  translations?: Partial<Record<NewsLanguage, NewsTranslationBody>>;
+}
+
+const ajv = new Ajv({
+  allErrors: true,
+  allowUnionTypes: true,
+  coerceTypes: true,
+  schemas: Object.values(requestSchemas)
+});
+
+// Ajv errors -> [{ path, message }] with dotted paths, matching the backend's `fields` list.
+const toFieldErrors = (errors: any[] = []): FieldError[] => {
+  const seen = new Set<string>();
+  return errors
+    .map((err) => {
+      const segments = String(err.instancePath || '')
+        .split('/')
+        .filter(Boolean)
+        .map((segment) => segment.replace(/~1/g, '/').replace(/~0/g, '~'));
+      let message = err.message || 'is invalid';
+      if (err.keyword === 'required') {
+        segments.push(err.params.missingProperty);
+        message = 'is required';
+      } else if (err.keyword === 'additionalProperties') {
+        segments.push(err.params.additionalProperty);
+        message = 'is not allowed';
+      }
+      return { path: segments.join('.'), message };
+    })
+    .filter((field) => {
+      const key = `${field.path}|${field.message}`;
+      if (seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+};
+
+// Validates (and coerces, like the backend) a request body. Returns [] when it is valid.
+export const validateRequest = (schemaName: RequestSchemaName, body: any): FieldError[] => {
+  const validate = ajv.getSchema(schemaName);
+  if (!validate) throw new Error(`Unknown request schema: ${schemaName}`);
+  return validate(body) ? [] : toFieldErrors(validate.errors || []);
+};
+
+// Field errors from a 400 "Validation failed" response body, or [] for other errors.
+export const fieldErrorsFromResponse = (json: any): FieldError[] => (
+  Array.isArray(json?.fields) ? json.fields.filter((field: any) => field && typeof field.path === 'string') : []
+);
+
+// True when `path` or anything below it failed, e.g. hasFieldError(errors, 'locations.swamp').
+export const hasFieldError = (errors: FieldError[], path: string) => errors.some(
+  (field) => field.path === path || field.path.startsWith(`${path}.`)
+);
+
+export const fieldErrorMessage = (errors: FieldError[], path: string) => {
+  const match = errors.find((field) => field.path === path || field.path.startsWith(`${path}.`));
+  return match ? match.message : null;
+};
@@ -3,5 +3,6 @@ import react from '@vitejs/plugin-react'
 
 export default defineConfig({
   plugins: [react()],
-  server: { port: 5173 }
+  // Allow imports from ../shared (request schemas used by the backend too)
+  server: { port: 5173, fs: { allow: ['..'] } }
 })
@@ -0,0 +1,51 @@
+// Texts of the mails sent to legacy accounts (see lib/mail), in the site languages. `hours` is how long the
+// link in them works.
+
+const { DEFAULT_NEWS_LANGUAGE } = require('./news');
+
+const ACCOUNT_MAIL_TEXT = {
+  nl: {
+    greeting: (name) => (name ? `Beste ${name},` : 'Hallo,'),
+    verifySubject: 'Bevestig je e-mailadres voor Tandonia',
+    verifyBody: (hours) => `Bevestig je e-mailadres via deze link (geldig gedurende ${hours} uur):`,
+    resetSubject: 'Nieuw wachtwoord voor Tandonia',
+    resetBody: (hours) => `Kies een nieuw wachtwoord via deze link (geldig gedurende ${hours} uur):`,
+    ignore: 'Heb je dit niet aangevraagd? Dan kun je deze e-mail negeren.'
+  },
+  fr: {
+    greeting: (name) => (name ? `Bonjour ${name},` : 'Bonjour,'),
+    verifySubject: 'Confirmez votre adresse e-mail pour Tandonia',
+    verifyBody: (hours) => `Confirmez votre adresse e-mail avec ce lien (valable ${hours} heures) :`,
+    resetSubject: 'Nouveau mot de passe pour Tandonia',
+    resetBody: (hours) => `Choisissez un nouveau mot de passe avec ce lien (valable ${hours} heure(s)) :`,
+    ignore: "Vous n'êtes pas à l'origine de cette demande ? Ignorez simplement cet e-mail."
+  },
+  en: {
+    greeting: (name) => (name ? `Dear ${name},` : 'Hello,'),
+    verifySubject: 'Confirm your email address for Tandonia',
+    verifyBody: (hours) => `Confirm your email address with this link (valid for ${hours} hours):`,
+    resetSubject: 'New password for Tandonia',
+    resetBody: (hours) => `Choose a new password with this link (valid for ${hours} hour(s)):`,
+    ignore: 'Did not ask for this? Then you can ignore this email.'
+  }
+};
+
+const mailText = (lang) => ACCOUNT_MAIL_TEXT[lang] || ACCOUNT_MAIL_TEXT[DEFAULT_NEWS_LANGUAGE];
+
+const compose = (text, name, body, link) => [text.greeting(name), '', body, link, '', text.ignore, '', 'Tandonia'].join('\n');
+
+// { subject, text } for lib/mail's send().
+const verificationMail = ({ lang, name, link, hours }) => {
+  const text = mailText(lang);
+  return { subject: text.verifySubject, text: compose(text, name, text.verifyBody(hours), link) };
+};
+
+const passwordResetMail = ({ lang, name, link, hours }) => {
+  const text = mailText(lang);
+  return { subject: text.resetSubject, text: compose(text, name, text.resetBody(hours), link) };
+};
+
+module.exports = {
+  passwordResetMail,
+  verificationMail
+};
@@ -0,0 +1,46 @@
+// One-time tokens for the legacy accounts in the users table: email verification and password reset links
+// (see 0018_account_tokens.sql). The token itself is only mailed; account_tokens keeps its SHA-256 hash, so the
+// table cannot be used to take over accounts.
+
+const crypto = require('crypto');
+
+const ACCOUNT_TOKEN_PURPOSES = ['verify_email', 'reset_password'];
+
+// Verification links may wait in a mailbox for a while; reset links grant the account, so they expire quickly.
+const ACCOUNT_TOKEN_TTL_MS = {
+  verify_email: 48 * 60 * 60 * 1000,
+  reset_password: 60 * 60 * 1000
+};
+
+const hashToken = (token) => crypto.createHash('sha256').update(String(token)).digest('hex');
+
+// A new token for userId, replacing any unused one for the same purpose. Resolves to the token to mail.
+const issueAccountToken = async (pool, userId, purpose) => {
+  if (!ACCOUNT_TOKEN_PURPOSES.includes(purpose)) throw new Error(`Unknown account token purpose: ${purpose}`);
+  const token = crypto.randomBytes(32).toString('base64url');
+  await pool.query(`
+    WITH replaced AS (
+      DELETE FROM account_tokens WHERE user_id = $1 AND purpose = $2 AND used_at IS NULL
+    )
+    INSERT INTO account_tokens (token_hash, user_id, purpose, expires_at)
+    VALUES ($3, $1, $2, NOW() + make_interval(secs => $4::double precision / 1000))
+  `, [String(userId), purpose, hashToken(token), ACCOUNT_TOKEN_TTL_MS[purpose]]);
+  return token;
+};
+
+// Marks the token used and resolves to the user id it was issued to; null when it is unknown, used, expired
+// or for another purpose.
+const consumeAccountToken = async (pool, token, purpose) => {
+  const result = await pool.query(`
+    UPDATE account_tokens SET used_at = NOW()
+    WHERE token_hash = $1 AND purpose = $2 AND used_at IS NULL AND expires_at > NOW()
+    RETURNING user_id
+  `, [hashToken(token), purpose]);
+  return result.rows.length ? result.rows[0].user_id : null;
+};
+
+module.exports = {
+  ACCOUNT_TOKEN_TTL_MS,
+  consumeAccountToken,
+  issueAccountToken
+};
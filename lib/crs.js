@@ -0,0 +1,44 @@
+// Coordinate reference systems used by Tandonia.
+// The map and grid_cells work in WGS84 (EPSG:4326); checklist_locations.geom is stored in
+// Belgian Lambert 72 (EPSG:31370) so distances and areas come out in metres.
+
+const proj4 = require('proj4');
+
+const WGS84_SRID = 4326;
+const LAMBERT72_SRID = 31370;
+
+// Same definition as PostGIS spatial_ref_sys, including the datum shift to WGS84.
+proj4.defs(
+  `EPSG:${LAMBERT72_SRID}`,
+  '+proj=lcc +lat_0=90 +lon_0=4.36748666666667 +lat_1=51.1666672333333 +lat_2=49.8333339 '
+    + '+x_0=150000.013 +y_0=5400088.438 +ellps=intl '
+    + '+towgs84=-106.8686,52.2978,-103.7239,0.3366,-0.457,1.8422,-1.2747 +units=m +no_defs'
+);
+
+const wgs84ToLambert72 = proj4('EPSG:4326', `EPSG:${LAMBERT72_SRID}`);
+
+// { lat, lng } in WGS84 -> { x, y } in metres (EPSG:31370).
+const toLambert72 = ({ lat, lng }) => {
+  const [x, y] = wgs84ToLambert72.forward([Number(lng), Number(lat)]);
+  return { x, y };
+};
+
+// { x, y } in EPSG:31370 -> { lat, lng } in WGS84.
+const fromLambert72 = ({ x, y }) => {
+  const [lng, lat] = wgs84ToLambert72.inverse([Number(x), Number(y)]);
+  return { lat, lng };
+};
+
+// EWKT for a WGS84 point reprojected to Lambert 72; PostgREST accepts it for geometry columns.
+const lambert72PointEwkt = (latlng) => {
+  const { x, y } = toLambert72(latlng);
+  return `SRID=${LAMBERT72_SRID};POINT(${x.toFixed(3)} ${y.toFixed(3)})`;
+};
+
+module.exports = {
+  LAMBERT72_SRID,
+  WGS84_SRID,
+  fromLambert72,
+  lambert72PointEwkt,
+  toLambert72
+};
@@ -0,0 +1,287 @@
+// Darwin Core Archive (DwC-A) builder for the Tandonia survey.
+// Shared by the /api/export/dwca route in tandonia_backend.js and scripts/export_dwca.js.
+//
+// Each checklist becomes one sampling event (core) and each species count > 0 becomes an
+// occurrence (extension) linked through eventID. The grid cell is the locationID and the
+// time spent searching is reported as samplingEffort. Rejected observations are left out; the
+// others carry their validation as identificationVerificationStatus.
+
+const archiver = require('archiver');
+const { geometryBbox } = require('./geometry');
+
+const DWC = 'http://rs.tdwg.org/dwc/terms/';
+
+const EVENT_FIELDS = [
+  'eventID',
+  'eventDate',
+  'samplingProtocol',
+  'samplingEffort',
+  'sampleSizeValue',
+  'sampleSizeUnit',
+  'habitat',
+  'locationID',
+  'countryCode',
+  'decimalLatitude',
+  'decimalLongitude',
+  'geodeticDatum',
+  'coordinateUncertaintyInMeters'
+];
+
+const OCCURRENCE_FIELDS = [
+  'eventID',
+  'occurrenceID',
+  'basisOfRecord',
+  'scientificName',
+  'individualCount',
+  'occurrenceStatus',
+  'identificationVerificationStatus'
+];
+
+// species_observations.validation_status -> identificationVerificationStatus (rejected is not exported).
+const VERIFICATION_STATUS = {
+  accepted: 'verified',
+  pending: 'unverified',
+  needs_info: 'unverified'
+};
+
+// Half the diagonal of a 1 km grid square, used when reporting the cell centre.
+const GRID_CELL_UNCERTAINTY_METERS = 707;
+
+const DEFAULT_METADATA = {
+  title: process.env.DWCA_TITLE || 'Tandonia mollusc survey of Belgium',
+  abstract: process.env.DWCA_ABSTRACT
+    || 'Timed checklist surveys of terrestrial and freshwater molluscs in 1 km grid squares across Belgium, collected by volunteers through tandonia.be.',
+  publisher: process.env.DWCA_PUBLISHER || 'Tandonia',
+  contactName: process.env.DWCA_CONTACT_NAME || 'Tandonia',
+  contactEmail: process.env.DWCA_CONTACT_EMAIL || '',
+  license: process.env.DWCA_LICENSE || 'http://creativecommons.org/licenses/by/4.0/legalcode',
+  language: 'en'
+};
+
+const tsvValue = (value) => {
+  if (value === null || value === undefined) return '';
+  return String(value).replace(/[\t\r\n]+/g, ' ').trim();
+};
+
+const toTsv = (fields, rows) => [
+  fields.join('\t'),
+  ...rows.map((row) => fields.map((field) => tsvValue(row[field])).join('\t'))
+].join('\n') + '\n';
+
+const xmlEscape = (value) => String(value ?? '')
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;');
+
+// Centre of the bounding box of a GeoJSON geometry; good enough for square grid cells.
+const approximateCentroid = (geometry) => {
+  const bbox = geometryBbox(geometry);
+  if (!bbox) return null;
+  return { lat: (bbox[1] + bbox[3]) / 2, lng: (bbox[0] + bbox[2]) / 2 };
+};
+
+const roundCoordinate = (value) => (typeof value === 'number' && Number.isFinite(value)
+  ? Math.round(value * 1e6) / 1e6
+  : null);
+
+const habitatLabel = (locationType) => {
+  const key = String(locationType || '').toLowerCase();
+  return key === 'urban' ? 'anthropogenous' : key;
+};
+
+// Builds the four archive members from plain rows.
+//   checklists:   [{ id, grid_cell_id, time_spent_minutes, submitted_at }]
+//   observations: [{ id, checklist_id, species_name, count, validation_status }] (id: species_observations.id)
+//   locations:    [{ checklist_id, location_type }]
+//   gridCells:    [{ id, lat, lng }] (cell centres in WGS84)
+//   species:      [{ id, scientific_name }] from taxa, used to resolve observations stored by species id
+const buildDwcaFiles = ({ checklists = [], observations = [], locations = [], gridCells = [], species = [] }, metadata = {}) => {
+  const meta = { ...DEFAULT_METADATA, ...metadata };
+  const centres = new Map(gridCells.map((cell) => [String(cell.id), cell]));
+  const speciesNames = new Map(species.map((sp) => [String(sp.id), sp.scientific_name]));
+
+  const habitatsByChecklist = new Map();
+  for (const loc of locations) {
+    const key = String(loc.checklist_id);
+    if (!habitatsByChecklist.has(key)) habitatsByChecklist.set(key, new Set());
+    habitatsByChecklist.get(key).add(habitatLabel(loc.location_type));
+  }
+
+  const events = checklists.map((c) => {
+    const centre = centres.get(String(c.grid_cell_id));
+    const minutes = c.time_spent_minutes != null ? Number(c.time_spent_minutes) : null;
+    const habitats = habitatsByChecklist.get(String(c.id));
+    return {
+      eventID: `tandonia:checklist:${c.id}`,
+      eventDate: c.submitted_at ? new Date(c.submitted_at).toISOString().slice(0, 10) : '',
+      samplingProtocol: 'timed search',
+      samplingEffort: minutes != null ? `${minutes} minutes` : '',
+      sampleSizeValue: minutes != null ? minutes : '',
+      sampleSizeUnit: minutes != null ? 'minutes' : '',
+      habitat: habitats ? [...habitats].sort().join(' | ') : '',
+      locationID: `tandonia:grid:${c.grid_cell_id}`,
+      countryCode: 'BE',
+      decimalLatitude: centre ? roundCoordinate(centre.lat) : '',
+      decimalLongitude: centre ? roundCoordinate(centre.lng) : '',
+      geodeticDatum: centre ? 'EPSG:4326' : '',
+      coordinateUncertaintyInMeters: centre ? GRID_CELL_UNCERTAINTY_METERS : ''
+    };
+  });
+
+  const knownChecklists = new Set(checklists.map((c) => String(c.id)));
+  const occurrences = observations
+    .filter((o) => Number(o.count) > 0 && knownChecklists.has(String(o.checklist_id)) && o.validation_status !== 'rejected')
+    .map((o) => {
+      const name = speciesNames.get(String(o.species_name)) || o.species_name;
+      return {
+        eventID: `tandonia:checklist:${o.checklist_id}`,
+        // The observation row outlives edits of its checklist (and renames of its taxon), so GBIF can track it.
+        occurrenceID: `tandonia:observation:${o.id}`,
+        basisOfRecord: 'HumanObservation',
+        scientificName: name,
+        individualCount: Number(o.count),
+        occurrenceStatus: 'present',
+        identificationVerificationStatus: VERIFICATION_STATUS[o.validation_status] || 'unverified'
+      };
+    });
+
+  return {
+    'event.txt': toTsv(EVENT_FIELDS, events),
+    'occurrence.txt': toTsv(OCCURRENCE_FIELDS, occurrences),
+    'meta.xml': buildMetaXml(),
+    'eml.xml': buildEmlXml(meta)
+  };
+};
+
+const fieldXml = (fields) => fields
+  .map((field, index) => `    <field index="${index}" term="${DWC}${field}"/>`)
+  .join('\n');
+
+const buildMetaXml = () => `<?xml version="1.0" encoding="UTF-8"?>
+<archive xmlns="http://rs.tdwg.org/dwc/text/" metadata="eml.xml">
+  <core encoding="UTF-8" fieldsTerminatedBy="\\t" linesTerminatedBy="\\n" fieldsEnclosedBy="" ignoreHeaderLines="1" rowType="${DWC}Event">
+    <files>
+      <location>event.txt</location>
+    </files>
+    <id index="0"/>
+${fieldXml(EVENT_FIELDS)}
+  </core>
+  <extension encoding="UTF-8" fieldsTerminatedBy="\\t" linesTerminatedBy="\\n" fieldsEnclosedBy="" ignoreHeaderLines="1" rowType="${DWC}Occurrence">
+    <files>
+      <location>occurrence.txt</location>
+    </files>
+    <coreid index="0"/>
+${fieldXml(OCCURRENCE_FIELDS)}
+  </extension>
+</archive>
+`;
+
+const buildEmlXml = (meta) => {
+  const pubDate = new Date().toISOString().slice(0, 10);
+  const contact = `<organizationName>${xmlEscape(meta.publisher)}</organizationName>
+      <individualName><surName>${xmlEscape(meta.contactName)}</surName></individualName>${meta.contactEmail ? `
+      <electronicMailAddress>${xmlEscape(meta.contactEmail)}</electronicMailAddress>` : ''}`;
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<eml:eml xmlns:eml="eml://ecoinformatics.org/eml-2.1.1"
+  xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance"
+  xsi:schemaLocation="eml://ecoinformatics.org/eml-2.1.1 http://rs.gbif.org/schema/eml-gbif-profile/1.1/eml.xsd"
+  packageId="tandonia-survey" system="http://tandonia.be" scope="system" xml:lang="${xmlEscape(meta.language)}">
+  <dataset>
+    <title>${xmlEscape(meta.title)}</title>
+    <creator>
+      ${contact}
+    </creator>
+    <metadataProvider>
+      ${contact}
+    </metadataProvider>
+    <pubDate>${pubDate}</pubDate>
+    <language>${xmlEscape(meta.language)}</language>
+    <abstract>
+      <para>${xmlEscape(meta.abstract)}</para>
+    </abstract>
+    <intellectualRights>
+      <para><ulink url="${xmlEscape(meta.license)}"><citetitle>${xmlEscape(meta.license)}</citetitle></ulink></para>
+    </intellectualRights>
+    <coverage>
+      <geographicCoverage>
+        <geographicDescription>Belgium</geographicDescription>
+        <boundingCoordinates>
+          <westBoundingCoordinate>2.5</westBoundingCoordinate>
+          <eastBoundingCoordinate>6.4</eastBoundingCoordinate>
+          <northBoundingCoordinate>51.5</northBoundingCoordinate>
+          <southBoundingCoordinate>49.5</southBoundingCoordinate>
+        </boundingCoordinates>
+      </geographicCoverage>
+    </coverage>
+    <contact>
+      ${contact}
+    </contact>
+    <methods>
+      <methodStep>
+        <description><para>Observers select a 1 km grid square, record a swamp, anthropogenous and forest sampling point inside it, and count all species found during a timed search.</para></description>
+      </methodStep>
+      <sampling>
+        <studyExtent><description><para>1 km grid squares covering Belgium.</para></description></studyExtent>
+        <samplingDescription><para>Sampling effort is the time spent searching, in minutes.</para></samplingDescription>
+      </sampling>
+    </methods>
+  </dataset>
+</eml:eml>
+`;
+};
+
+// Zips the archive members into `output` (a writable stream). Resolves once the archive is finalized.
+const writeDwcaArchive = (files, output) => new Promise((resolve, reject) => {
+  const archive = archiver('zip', { zlib: { level: 9 } });
+  archive.on('error', reject);
+  output.on('error', reject);
+  output.on('close', resolve);
+  output.on('finish', resolve);
+  archive.pipe(output);
+  for (const [name, content] of Object.entries(files)) {
+    archive.append(content, { name });
+  }
+  archive.finalize().catch(reject);
+});
+
+// Loads the rows needed by buildDwcaFiles through a pg Pool (or client).
+const fetchDwcaRowsFromPool = async (pool) => {
+  const checklists = await pool.query(`
+    SELECT id, grid_cell_id, time_spent_minutes, submitted_at
+    FROM checklists
+    ORDER BY id
+  `);
+  const observations = await pool.query(`
+    SELECT id, checklist_id, species_name, count, validation_status
+    FROM species_observations
+    ORDER BY checklist_id, species_name
+  `);
+  const locations = await pool.query(`
+    SELECT checklist_id, location_type
+    FROM checklist_locations
+  `);
+  const gridCells = await pool.query(`
+    SELECT
+      gc.id,
+      ST_Y(ST_Centroid(ST_Transform(gc.geom, 4326))) AS lat,
+      ST_X(ST_Centroid(ST_Transform(gc.geom, 4326))) AS lng
+    FROM grid_cells gc
+    WHERE gc.id::text IN (SELECT DISTINCT grid_cell_id FROM checklists)
+  `);
+  const species = await pool.query('SELECT id, scientific_name FROM taxa');
+  return {
+    checklists: checklists.rows,
+    observations: observations.rows,
+    locations: locations.rows,
+    gridCells: gridCells.rows,
+    species: species.rows
+  };
+};
+
+module.exports = {
+  approximateCentroid,
+  buildDwcaFiles,
+  fetchDwcaRowsFromPool,
+  writeDwcaArchive
+};
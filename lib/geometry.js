@@ -0,0 +1,157 @@
+// GeoJSON helpers for serving grid cells at different zoom levels.
+// Coordinates are WGS84 (EPSG:4326), matching grid_cells as imported by import_grid_cells.
+
+// Above this zoom level geometries are sent unsimplified.
+const MAX_SIMPLIFY_ZOOM = 14;
+
+// Degrees covered by one 256px web-map tile pixel at the equator.
+const degreesPerPixel = (zoom) => 360 / (256 * Math.pow(2, zoom));
+
+// Douglas-Peucker tolerance (degrees) for a zoom level: half a screen pixel, or 0 when zoomed in.
+const toleranceForZoom = (zoom) => {
+  if (zoom === null || zoom === undefined || Number.isNaN(zoom) || zoom >= MAX_SIMPLIFY_ZOOM) return 0;
+  return degreesPerPixel(zoom) / 2;
+};
+
+// Number of decimals worth keeping at a zoom level; more digits are invisible on screen.
+const precisionForZoom = (zoom) => {
+  if (zoom === null || zoom === undefined || Number.isNaN(zoom)) return 7;
+  const digits = Math.ceil(Math.log10(1 / degreesPerPixel(zoom))) + 1;
+  return Math.min(7, Math.max(3, digits));
+};
+
+// Parses "minLng,minLat,maxLng,maxLat". Returns null when absent; throws on malformed input.
+const parseBbox = (value) => {
+  if (value === undefined || value === null || value === '') return null;
+  const parts = String(value).split(',').map((part) => Number(part.trim()));
+  if (parts.length !== 4 || parts.some((n) => !Number.isFinite(n))) {
+    throw new Error('bbox must be minLng,minLat,maxLng,maxLat');
+  }
+  const [minX, minY, maxX, maxY] = parts;
+  if (minX > maxX || minY > maxY) {
+    throw new Error('bbox min values must not exceed max values');
+  }
+  return parts;
+};
+
+const geometryBbox = (geometry) => {
+  if (!geometry || !geometry.coordinates) return null;
+  let minX = Infinity;
+  let minY = Infinity;
+  let maxX = -Infinity;
+  let maxY = -Infinity;
+  const visit = (coords) => {
+    if (typeof coords[0] === 'number') {
+      if (coords[0] < minX) minX = coords[0];
+      if (coords[0] > maxX) maxX = coords[0];
+      if (coords[1] < minY) minY = coords[1];
+      if (coords[1] > maxY) maxY = coords[1];
+      return;
+    }
+    coords.forEach(visit);
+  };
+  visit(geometry.coordinates);
+  return Number.isFinite(minX) ? [minX, minY, maxX, maxY] : null;
+};
+
+const bboxIntersects = (a, b) => Boolean(a && b && a[0] <= b[2] && a[2] >= b[0] && a[1] <= b[3] && a[3] >= b[1]);
+
+// Even-odd ray casting over every ring, so holes are excluded.
+const pointInRings = ([x, y], rings) => {
+  let inside = false;
+  for (const ring of rings) {
+    for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+      const [xi, yi] = ring[i];
+      const [xj, yj] = ring[j];
+      if ((yi > y) !== (yj > y) && x < ((xj - xi) * (y - yi)) / (yj - yi) + xi) {
+        inside = !inside;
+      }
+    }
+  }
+  return inside;
+};
+
+// True when a [lng, lat] position falls inside a Polygon or MultiPolygon.
+const pointInGeometry = (geometry, position) => {
+  if (!geometry || !geometry.coordinates) return false;
+  if (geometry.type === 'Polygon') return pointInRings(position, geometry.coordinates);
+  if (geometry.type === 'MultiPolygon') return geometry.coordinates.some((polygon) => pointInRings(position, polygon));
+  return false;
+};
+
+const perpendicularDistance = (point, start, end) => {
+  const dx = end[0] - start[0];
+  const dy = end[1] - start[1];
+  if (dx === 0 && dy === 0) return Math.hypot(point[0] - start[0], point[1] - start[1]);
+  const t = ((point[0] - start[0]) * dx + (point[1] - start[1]) * dy) / (dx * dx + dy * dy);
+  const clamped = Math.max(0, Math.min(1, t));
+  return Math.hypot(point[0] - (start[0] + clamped * dx), point[1] - (start[1] + clamped * dy));
+};
+
+const douglasPeucker = (points, tolerance) => {
+  if (points.length <= 2) return points;
+  const keep = new Array(points.length).fill(false);
+  keep[0] = true;
+  keep[points.length - 1] = true;
+  const stack = [[0, points.length - 1]];
+  while (stack.length) {
+    const [first, last] = stack.pop();
+    let maxDistance = 0;
+    let index = -1;
+    for (let i = first + 1; i < last; i++) {
+      const distance = perpendicularDistance(points[i], points[first], points[last]);
+      if (distance > maxDistance) {
+        maxDistance = distance;
+        index = i;
+      }
+    }
+    if (index !== -1 && maxDistance > tolerance) {
+      keep[index] = true;
+      stack.push([first, index], [index, last]);
+    }
+  }
+  return points.filter((_point, i) => keep[i]);
+};
+
+// Rings that would collapse below a valid polygon keep their original vertices.
+const simplifyRing = (ring, tolerance) => {
+  const simplified = douglasPeucker(ring, tolerance);
+  return simplified.length >= 4 ? simplified : ring;
+};
+
+const roundPosition = (position, factor) => position.map((n) => Math.round(n * factor) / factor);
+
+// JavaScript counterpart of ST_AsGeoJSON(ST_SimplifyPreserveTopology(geom, tolerance), precision)
+// for the Supabase path, where geometries arrive as GeoJSON and cannot be simplified in SQL.
+const simplifyGeometry = (geometry, tolerance, precision = 7) => {
+  if (!geometry || !geometry.coordinates) return geometry;
+  const factor = Math.pow(10, precision);
+  const ring = (coords) => (tolerance > 0 ? simplifyRing(coords, tolerance) : coords).map((p) => roundPosition(p, factor));
+  const line = (coords) => (tolerance > 0 ? douglasPeucker(coords, tolerance) : coords).map((p) => roundPosition(p, factor));
+  switch (geometry.type) {
+    case 'Point':
+      return { ...geometry, coordinates: roundPosition(geometry.coordinates, factor) };
+    case 'MultiPoint':
+      return { ...geometry, coordinates: geometry.coordinates.map((p) => roundPosition(p, factor)) };
+    case 'LineString':
+      return { ...geometry, coordinates: line(geometry.coordinates) };
+    case 'MultiLineString':
+      return { ...geometry, coordinates: geometry.coordinates.map(line) };
+    case 'Polygon':
+      return { ...geometry, coordinates: geometry.coordinates.map(ring) };
+    case 'MultiPolygon':
+      return { ...geometry, coordinates: geometry.coordinates.map((polygon) => polygon.map(ring)) };
+    default:
+      return geometry;
+  }
+};
+
+module.exports = {
+  bboxIntersects,
+  geometryBbox,
+  parseBbox,
+  pointInGeometry,
+  precisionForZoom,
+  simplifyGeometry,
+  toleranceForZoom
+};
@@ -0,0 +1,82 @@
+// Outgoing mail: verification and password reset links for the legacy accounts. All transports have the same
+// interface:
+//
+//   send({ to, subject, text })  resolves once the message has been handed over
+//
+// MAIL_TRANSPORT=smtp sends through SMTP_URL, or SMTP_HOST / SMTP_PORT / SMTP_USER / SMTP_PASSWORD (SMTP_SECURE=true
+// for TLS from the start). MAIL_TRANSPORT=file writes every message to MAIL_DIR as an .eml file and
+// MAIL_TRANSPORT=console prints it; both are meant for local use. Without MAIL_TRANSPORT, SMTP is used when it is
+// configured and the console otherwise. MAIL_FROM is the sender.
+
+const crypto = require('crypto');
+const fs = require('fs/promises');
+const path = require('path');
+const nodemailer = require('nodemailer');
+
+const DEFAULT_FROM = 'Tandonia <no-reply@tandonia.be>';
+const DEFAULT_MAIL_DIR = path.join(__dirname, '..', 'mail-outbox');
+
+const smtpOptions = (env) => {
+  if (env.SMTP_URL) return env.SMTP_URL;
+  return {
+    host: env.SMTP_HOST,
+    port: Number(env.SMTP_PORT) || 587,
+    secure: env.SMTP_SECURE === 'true',
+    auth: env.SMTP_USER ? { user: env.SMTP_USER, pass: env.SMTP_PASSWORD } : undefined
+  };
+};
+
+const createSmtpMailTransport = (options, { from = DEFAULT_FROM } = {}) => {
+  const transporter = nodemailer.createTransport(options);
+  return {
+    name: 'smtp',
+
+    async send({ to, subject, text }) {
+      await transporter.sendMail({ from, to, subject, text });
+    }
+  };
+};
+
+// The message as it would go out over SMTP, so it can be opened in a mail client.
+const createFileMailTransport = ({ dir = DEFAULT_MAIL_DIR, from = DEFAULT_FROM } = {}) => {
+  const transporter = nodemailer.createTransport({ streamTransport: true, buffer: true, newline: 'unix' });
+  return {
+    name: 'file',
+    dir,
+
+    async send({ to, subject, text }) {
+      const { message } = await transporter.sendMail({ from, to, subject, text });
+      await fs.mkdir(dir, { recursive: true });
+      const file = path.join(dir, `${new Date().toISOString().replace(/[:.]/g, '-')}-${crypto.randomUUID()}.eml`);
+      await fs.writeFile(file, message);
+      console.info(`Mail to ${to} written to ${file}`);
+    }
+  };
+};
+
+const createConsoleMailTransport = ({ from = DEFAULT_FROM } = {}) => ({
+  name: 'console',
+
+  async send({ to, subject, text }) {
+    console.info(['--- mail ---', `From: ${from}`, `To: ${to}`, `Subject: ${subject}`, '', text, '--- end of mail ---'].join('\n'));
+  }
+});
+
+const createMailTransport = ({ env = process.env } = {}) => {
+  const kind = env.MAIL_TRANSPORT || (env.SMTP_URL || env.SMTP_HOST ? 'smtp' : 'console');
+  const from = env.MAIL_FROM || DEFAULT_FROM;
+  if (kind === 'smtp') {
+    if (!env.SMTP_URL && !env.SMTP_HOST) throw new Error('MAIL_TRANSPORT=smtp needs SMTP_URL or SMTP_HOST');
+    return createSmtpMailTransport(smtpOptions(env), { from });
+  }
+  if (kind === 'file') return createFileMailTransport({ dir: env.MAIL_DIR || DEFAULT_MAIL_DIR, from });
+  if (kind === 'console') return createConsoleMailTransport({ from });
+  throw new Error(`Unknown MAIL_TRANSPORT: ${kind}`);
+};
+
+module.exports = {
+  createConsoleMailTransport,
+  createFileMailTransport,
+  createMailTransport,
+  createSmtpMailTransport
+};
@@ -0,0 +1,151 @@
+// Versioned SQL migrations from supabase/migrations (<version>_<name>.sql), applied in version order.
+// Applied versions are recorded in public.schema_migrations together with a checksum of the file.
+// The scripts are written for Supabase: their policies and grants use the auth schema (auth.uid(), auth.role())
+// and the anon, authenticated and service_role roles, so they are only applied to Supabase databases.
+
+const crypto = require('crypto');
+const fs = require('fs');
+const path = require('path');
+
+const MIGRATIONS_DIR = path.join(__dirname, '..', 'supabase', 'migrations');
+const MIGRATION_FILE_RE = /^(\d+)_([\w-]+)\.sql$/;
+
+// Key for pg_advisory_lock so two runners (e.g. two deploys) never apply migrations at the same time.
+const MIGRATION_LOCK_KEY = 52110431;
+
+const checksumOf = (sql) => crypto.createHash('sha256').update(sql).digest('hex');
+
+// Migration files sorted by version. Throws when two files share a version.
+const listMigrations = (dir = MIGRATIONS_DIR) => {
+  const migrations = fs.readdirSync(dir)
+    .map((file) => {
+      const match = MIGRATION_FILE_RE.exec(file);
+      if (!match) return null;
+      const sql = fs.readFileSync(path.join(dir, file), 'utf8');
+      return { version: match[1], name: match[2], file, sql, checksum: checksumOf(sql) };
+    })
+    .filter(Boolean)
+    .sort((a, b) => Number(a.version) - Number(b.version));
+
+  for (let i = 1; i < migrations.length; i += 1) {
+    if (Number(migrations[i].version) === Number(migrations[i - 1].version)) {
+      throw new Error(`Duplicate migration version ${migrations[i].version}: ${migrations[i - 1].file}, ${migrations[i].file}`);
+    }
+  }
+  return migrations;
+};
+
+const ensureMigrationsTable = (client) => client.query(`
+  CREATE TABLE IF NOT EXISTS public.schema_migrations (
+    version TEXT PRIMARY KEY,
+    name TEXT NOT NULL,
+    checksum TEXT NOT NULL,
+    applied_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+  )
+`);
+
+// version -> { version, name, checksum, applied_at }; empty when schema_migrations does not exist yet.
+const fetchAppliedMigrations = async (client) => {
+  const exists = await client.query(`SELECT to_regclass('public.schema_migrations') IS NOT NULL AS exists`);
+  if (!exists.rows[0].exists) return new Map();
+  const result = await client.query('SELECT version, name, checksum, applied_at FROM public.schema_migrations');
+  return new Map(result.rows.map((row) => [String(Number(row.version)), row]));
+};
+
+// True when the database has what the scripts expect from Supabase: auth.uid() and the API roles.
+const isSupabaseDatabase = async (client) => {
+  const result = await client.query(`
+    SELECT to_regprocedure('auth.uid()') IS NOT NULL
+      AND (SELECT COUNT(*) FROM pg_roles WHERE rolname IN ('anon', 'authenticated', 'service_role')) = 3 AS supabase
+  `);
+  return Boolean(result.rows[0] && result.rows[0].supabase);
+};
+
+const recordMigration = (client, migration) => client.query(`
+  INSERT INTO public.schema_migrations (version, name, checksum) VALUES ($1, $2, $3)
+`, [migration.version, migration.name, migration.checksum]);
+
+// Applies every pending migration, each in its own transaction together with its schema_migrations row.
+// Options:
+//   dryRun    only report what would be applied; nothing is written (not even schema_migrations)
+//   baseline  record migrations up to this version as applied without running them, for databases
+//             that were set up by pasting the scripts into the SQL editor
+// Resolves { applied, baselined, pending } (lists of migration files). Rejects on the first failing migration,
+// and before touching anything when migrations would run against a database that is not a Supabase project.
+const runMigrations = async (pool, { dir = MIGRATIONS_DIR, dryRun = false, baseline = null, log = console.log } = {}) => {
+  const migrations = listMigrations(dir);
+  const client = await pool.connect();
+  const summary = { applied: [], baselined: [], pending: [] };
+  try {
+    await client.query('SELECT pg_advisory_lock($1)', [MIGRATION_LOCK_KEY]);
+    const applied = await fetchAppliedMigrations(client);
+
+    for (const migration of migrations) {
+      const row = applied.get(String(Number(migration.version)));
+      if (row && row.checksum !== migration.checksum) {
+        log(`warning: ${migration.file} changed after it was applied (${new Date(row.applied_at).toISOString()})`);
+      }
+    }
+    const known = new Set(migrations.map((m) => String(Number(m.version))));
+    for (const [version, row] of applied) {
+      if (!known.has(version)) log(`warning: applied migration ${row.version} has no file in ${dir}`);
+    }
+
+    const pending = migrations.filter((m) => !applied.has(String(Number(m.version))));
+    if (!pending.length) {
+      log('Database is up to date.');
+      return summary;
+    }
+    const toApply = pending.filter((m) => baseline === null || Number(m.version) > Number(baseline));
+    if (toApply.length && !(await isSupabaseDatabase(client))) {
+      throw new Error(`Not a Supabase database (no auth schema or anon/authenticated/service_role roles); `
+        + `refusing to apply ${toApply.length} migration(s) from ${toApply[0].file}`);
+    }
+    if (!dryRun) await ensureMigrationsTable(client);
+
+    for (const migration of pending) {
+      if (baseline !== null && Number(migration.version) <= Number(baseline)) {
+        log(`${dryRun ? 'would baseline' : 'baselined'} ${migration.file}`);
+        if (!dryRun) await recordMigration(client, migration);
+        summary.baselined.push(migration.file);
+        continue;
+      }
+      if (dryRun) {
+        log(`would apply ${migration.file}`);
+        summary.pending.push(migration.file);
+        continue;
+      }
+
+      const startedAt = Date.now();
+      try {
+        await client.query('BEGIN');
+        await client.query(migration.sql);
+        await recordMigration(client, migration);
+        await client.query('COMMIT');
+      } catch (err) {
+        try {
+          await client.query('ROLLBACK');
+        } catch (rollbackErr) {
+          log(`rollback failed: ${rollbackErr.message}`);
+        }
+        err.message = `${migration.file}: ${err.message}`;
+        throw err;
+      }
+      log(`applied ${migration.file} (${Date.now() - startedAt} ms)`);
+      summary.applied.push(migration.file);
+    }
+    return summary;
+  } finally {
+    try {
+      await client.query('SELECT pg_advisory_unlock($1)', [MIGRATION_LOCK_KEY]);
+    } finally {
+      client.release();
+    }
+  }
+};
+
+module.exports = {
+  MIGRATIONS_DIR,
+  listMigrations,
+  runMigrations
+};
@@ -0,0 +1,32 @@
+// Languages of news items. Each item is written in one language (news.language) and may carry translations
+// into the others; readers get their language when it exists and the original otherwise.
+
+const NEWS_LANGUAGES = ['nl', 'fr', 'en'];
+const DEFAULT_NEWS_LANGUAGE = 'nl';
+
+// "fr-BE" -> "fr"; null for anything that is not a news language.
+const newsLanguage = (value) => {
+  const lang = typeof value === 'string' ? value.toLowerCase().split('-')[0] : null;
+  return NEWS_LANGUAGES.includes(lang) ? lang : null;
+};
+
+// A news item as served to readers in `lang`: title and content from the translation when there is one,
+// `lang` saying which language they are in, and the languages the item is available in.
+const localizeNewsItem = ({ translations = {}, ...item }, lang) => {
+  const original = item.language || DEFAULT_NEWS_LANGUAGE;
+  const translation = lang !== original ? translations[lang] : null;
+  return {
+    ...item,
+    title: translation ? translation.title : item.title,
+    content: translation ? translation.content : item.content,
+    lang: translation ? lang : original,
+    available_languages: [original, ...Object.keys(translations).filter((key) => key !== original)]
+  };
+};
+
+module.exports = {
+  DEFAULT_NEWS_LANGUAGE,
+  NEWS_LANGUAGES,
+  localizeNewsItem,
+  newsLanguage
+};
@@ -0,0 +1,123 @@
+// RSS 2.0 and Atom feeds of the published news, built from the same localized items /api/news serves
+// (see lib/news). Each entry links to the item on the news page and carries its image as an enclosure,
+// with the photo author and license credited in the entry text.
+
+const { DEFAULT_NEWS_LANGUAGE } = require('./news');
+
+const FEED_TEXT = {
+  nl: { title: 'Tandonia – nieuws', description: 'Nieuws van het Tandonia-project', photo: 'Foto', license: 'Licentie' },
+  fr: { title: 'Tandonia – actualités', description: 'Actualités du projet Tandonia', photo: 'Photo', license: 'Licence' },
+  en: { title: 'Tandonia – news', description: 'News from the Tandonia project', photo: 'Photo', license: 'License' }
+};
+
+const IMAGE_TYPES = { jpg: 'image/jpeg', jpeg: 'image/jpeg', png: 'image/png', webp: 'image/webp', gif: 'image/gif' };
+
+const xmlEscape = (value) => String(value ?? '')
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;');
+
+// Enclosures need a MIME type; guess it from the extension, JPEG when there is none.
+const imageType = (url) => {
+  const match = /\.([a-z0-9]+)(?:[?#].*)?$/i.exec(url || '');
+  return (match && IMAGE_TYPES[match[1].toLowerCase()]) || 'image/jpeg';
+};
+
+// "Photo: <author> · License: <license>", or null when the item has neither.
+const creditLine = (item, text) => {
+  const parts = [];
+  if (item.author) parts.push(`${text.photo}: ${item.author}`);
+  if (item.license) parts.push(`${text.license}: ${item.license}`);
+  return parts.length ? parts.join(' · ') : null;
+};
+
+// Entry body as HTML: the image, the text as paragraphs (blank lines) with line breaks, and the credit.
+const entryHtml = (item, text) => {
+  const paragraphs = String(item.content || '')
+    .split(/\n\s*\n/)
+    .map((paragraph) => paragraph.trim())
+    .filter(Boolean)
+    .map((paragraph) => `<p>${xmlEscape(paragraph).replace(/\n/g, '<br>')}</p>`);
+  const credit = creditLine(item, text);
+  return [
+    item.image_url ? `<p><img src="${xmlEscape(item.image_url)}" alt="${xmlEscape(item.title)}"></p>` : null,
+    ...paragraphs,
+    credit ? `<p><small>${xmlEscape(credit)}</small></p>` : null
+  ].filter(Boolean).join('\n');
+};
+
+const itemLink = (siteUrl, item) => `${siteUrl}/#news-${item.id}`;
+
+const itemDate = (item) => new Date(item.published_date || item.updated_at || item.created_at || 0);
+
+// items: localized news items, newest first. siteUrl: the frontend (no trailing slash). feedUrl: this feed.
+const buildRssFeed = (items, { lang = DEFAULT_NEWS_LANGUAGE, siteUrl, feedUrl }) => {
+  const text = FEED_TEXT[lang] || FEED_TEXT[DEFAULT_NEWS_LANGUAGE];
+  const lastBuild = items.length ? itemDate(items[0]) : new Date();
+  const entries = items.map((item) => [
+    '    <item>',
+    `      <title>${xmlEscape(item.title)}</title>`,
+    `      <link>${xmlEscape(itemLink(siteUrl, item))}</link>`,
+    `      <guid isPermaLink="false">tandonia:news:${xmlEscape(item.id)}</guid>`,
+    `      <pubDate>${itemDate(item).toUTCString()}</pubDate>`,
+    `      <description>${xmlEscape(entryHtml(item, text))}</description>`,
+    item.image_url ? `      <enclosure url="${xmlEscape(item.image_url)}" length="0" type="${imageType(item.image_url)}"/>` : null,
+    item.image_url ? `      <media:content url="${xmlEscape(item.image_url)}" medium="image" type="${imageType(item.image_url)}">` : null,
+    item.image_url && item.author ? `        <media:credit>${xmlEscape(item.author)}</media:credit>` : null,
+    item.image_url && item.license ? `        <media:license>${xmlEscape(item.license)}</media:license>` : null,
+    item.image_url ? '      </media:content>' : null,
+    '    </item>'
+  ].filter(Boolean).join('\n'));
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<rss version="2.0" xmlns:atom="http://www.w3.org/2005/Atom" xmlns:media="http://search.yahoo.com/mrss/">',
+    '  <channel>',
+    `    <title>${xmlEscape(text.title)}</title>`,
+    `    <link>${xmlEscape(siteUrl)}</link>`,
+    `    <description>${xmlEscape(text.description)}</description>`,
+    `    <language>${xmlEscape(lang)}</language>`,
+    `    <lastBuildDate>${lastBuild.toUTCString()}</lastBuildDate>`,
+    `    <atom:link href="${xmlEscape(feedUrl)}" rel="self" type="application/rss+xml"/>`,
+    ...entries,
+    '  </channel>',
+    '</rss>',
+    ''
+  ].join('\n');
+};
+
+const buildAtomFeed = (items, { lang = DEFAULT_NEWS_LANGUAGE, siteUrl, feedUrl }) => {
+  const text = FEED_TEXT[lang] || FEED_TEXT[DEFAULT_NEWS_LANGUAGE];
+  const updated = items.length ? itemDate(items[0]) : new Date();
+  const entries = items.map((item) => [
+    '  <entry>',
+    `    <title>${xmlEscape(item.title)}</title>`,
+    `    <id>tag:tandonia.be,2024:news:${xmlEscape(item.id)}</id>`,
+    `    <link rel="alternate" type="text/html" href="${xmlEscape(itemLink(siteUrl, item))}"/>`,
+    item.image_url ? `    <link rel="enclosure" type="${imageType(item.image_url)}" href="${xmlEscape(item.image_url)}"/>` : null,
+    `    <published>${itemDate(item).toISOString()}</published>`,
+    `    <updated>${new Date(item.updated_at || itemDate(item)).toISOString()}</updated>`,
+    creditLine(item, text) ? `    <rights>${xmlEscape(creditLine(item, text))}</rights>` : null,
+    `    <content type="html" xml:lang="${xmlEscape(item.lang || lang)}">${xmlEscape(entryHtml(item, text))}</content>`,
+    '  </entry>'
+  ].filter(Boolean).join('\n'));
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<feed xmlns="http://www.w3.org/2005/Atom" xml:lang="${xmlEscape(lang)}">`,
+    `  <title>${xmlEscape(text.title)}</title>`,
+    `  <subtitle>${xmlEscape(text.description)}</subtitle>`,
+    `  <id>${xmlEscape(feedUrl)}</id>`,
+    `  <link rel="self" type="application/atom+xml" href="${xmlEscape(feedUrl)}"/>`,
+    `  <link rel="alternate" type="text/html" href="${xmlEscape(siteUrl)}"/>`,
+    `  <updated>${updated.toISOString()}</updated>`,
+    '  <author><name>Tandonia</name></author>',
+    ...entries,
+    '</feed>',
+    ''
+  ].join('\n');
+};
+
+module.exports = {
+  buildAtomFeed,
+  buildRssFeed
+};
@@ -0,0 +1,88 @@
+// Where observation photos are kept. Both adapters have the same interface:
+//
+//   save(key, buffer, contentType)  stores the file under `key` (e.g. "12/34/<uuid>.jpg")
+//   url(key)                        address the browser can load it from (a signed URL for Supabase)
+//   remove(keys)                    deletes files; missing ones are ignored
+//
+// PHOTO_STORAGE=supabase uses the private SUPABASE_PHOTO_BUCKET bucket (see 0013_observation_photos.sql);
+// PHOTO_STORAGE=local writes below PHOTO_UPLOAD_DIR and is served by the backend under LOCAL_PHOTO_ROUTE,
+// which is meant for development only.
+
+const fs = require('fs/promises');
+const path = require('path');
+
+const DEFAULT_BUCKET = 'observation-photos';
+const DEFAULT_UPLOAD_DIR = path.join(__dirname, '..', 'uploads', 'photos');
+const LOCAL_PHOTO_ROUTE = '/media/photos';
+
+// Signed URLs are handed out with every response that lists photos, so they only need to outlive a page view.
+const SIGNED_URL_TTL_SECONDS = 60 * 60;
+
+const createSupabasePhotoStorage = (supabase, { bucket = DEFAULT_BUCKET } = {}) => ({
+  name: 'supabase',
+
+  async save(key, buffer, contentType) {
+    const { error } = await supabase.storage.from(bucket).upload(key, buffer, { contentType, upsert: false });
+    if (error) throw error;
+  },
+
+  async url(key) {
+    const { data, error } = await supabase.storage.from(bucket).createSignedUrl(key, SIGNED_URL_TTL_SECONDS);
+    if (error) throw error;
+    return data ? data.signedUrl : null;
+  },
+
+  async remove(keys) {
+    if (!keys.length) return;
+    const { error } = await supabase.storage.from(bucket).remove(keys);
+    if (error) throw error;
+  }
+});
+
+const createLocalPhotoStorage = ({ dir = DEFAULT_UPLOAD_DIR } = {}) => {
+  // Keys are generated by the backend, but never let one point outside the upload directory.
+  const fileFor = (key) => {
+    const file = path.resolve(dir, key);
+    if (!file.startsWith(path.resolve(dir) + path.sep)) throw new Error(`Invalid photo key: ${key}`);
+    return file;
+  };
+
+  return {
+    name: 'local',
+    dir,
+
+    async save(key, buffer) {
+      const file = fileFor(key);
+      await fs.mkdir(path.dirname(file), { recursive: true });
+      await fs.writeFile(file, buffer);
+    },
+
+    async url(key) {
+      return `${LOCAL_PHOTO_ROUTE}/${key.split('/').map(encodeURIComponent).join('/')}`;
+    },
+
+    async remove(keys) {
+      await Promise.all(keys.map((key) => fs.rm(fileFor(key), { force: true })));
+    }
+  };
+};
+
+// Supabase Storage when a client is given (unless PHOTO_STORAGE=local), otherwise the local directory.
+const createPhotoStorage = ({ supabase = null, env = process.env } = {}) => {
+  const kind = env.PHOTO_STORAGE || (supabase ? 'supabase' : 'local');
+  if (kind === 'supabase') {
+    if (!supabase) throw new Error('PHOTO_STORAGE=supabase needs the Supabase service credentials');
+    return createSupabasePhotoStorage(supabase, { bucket: env.SUPABASE_PHOTO_BUCKET || DEFAULT_BUCKET });
+  }
+  if (kind === 'local') {
+    return createLocalPhotoStorage({ dir: env.PHOTO_UPLOAD_DIR || DEFAULT_UPLOAD_DIR });
+  }
+  throw new Error(`Unknown PHOTO_STORAGE: ${kind}`);
+};
+
+module.exports = {
+  LOCAL_PHOTO_ROUTE,
+  createLocalPhotoStorage,
+  createPhotoStorage,
+  createSupabasePhotoStorage
+};
@@ -0,0 +1,66 @@
+// Photo processing for observation attachments: EXIF capture date and GPS position, a re-encoded full-size
+// image and a thumbnail. Both are written as JPEG without metadata, so the stored files never carry the
+// observer's exact position; the EXIF values are kept in observation_photos instead.
+
+const exifr = require('exifr');
+const sharp = require('sharp');
+
+// What observers may upload. HEIC is not listed: the prebuilt sharp binaries cannot decode it.
+const PHOTO_CONTENT_TYPES = ['image/jpeg', 'image/png', 'image/webp'];
+
+const PHOTO_MAX_BYTES = 10 * 1024 * 1024;
+
+// Longest side in pixels of the stored image and of its thumbnail.
+const FULL_SIZE = 2048;
+const THUMBNAIL_SIZE = 320;
+
+const JPEG_QUALITY = 85;
+
+// { taken_at, lat, lng } from the EXIF block, each null when missing. Photos without EXIF are fine.
+const readPhotoExif = async (buffer) => {
+  let tags = null;
+  try {
+    tags = await exifr.parse(buffer, { gps: true, pick: ['DateTimeOriginal', 'CreateDate', 'latitude', 'longitude'] });
+  } catch (err) {
+    console.warn('EXIF parsing failed:', err.message || err);
+  }
+  const taken = tags && (tags.DateTimeOriginal || tags.CreateDate);
+  const lat = tags && Number.isFinite(tags.latitude) ? tags.latitude : null;
+  const lng = tags && Number.isFinite(tags.longitude) ? tags.longitude : null;
+  return {
+    taken_at: taken instanceof Date && !Number.isNaN(taken.getTime()) ? taken.toISOString() : null,
+    lat,
+    lng
+  };
+};
+
+// Rotated upright (EXIF orientation), scaled down to fit `size` and encoded as JPEG.
+const renderJpeg = async (buffer, size) => {
+  const { data, info } = await sharp(buffer)
+    .rotate()
+    .resize({ width: size, height: size, fit: 'inside', withoutEnlargement: true })
+    .jpeg({ quality: JPEG_QUALITY })
+    .toBuffer({ resolveWithObject: true });
+  return { buffer: data, width: info.width, height: info.height, contentType: 'image/jpeg' };
+};
+
+// Rejects with an error whose `code` is 'INVALID_IMAGE' when the upload cannot be decoded.
+const processPhoto = async (buffer) => {
+  try {
+    await sharp(buffer).metadata();
+  } catch (err) {
+    throw Object.assign(new Error(`File is not a readable image: ${err.message}`), { code: 'INVALID_IMAGE' });
+  }
+  const [exif, full, thumbnail] = await Promise.all([
+    readPhotoExif(buffer),
+    renderJpeg(buffer, FULL_SIZE),
+    renderJpeg(buffer, THUMBNAIL_SIZE)
+  ]);
+  return { exif, full, thumbnail };
+};
+
+module.exports = {
+  PHOTO_CONTENT_TYPES,
+  PHOTO_MAX_BYTES,
+  processPhoto
+};
@@ -0,0 +1,240 @@
+// Throttling for the auth and submission routes. Counters live in a store; both stores have the same interface:
+//
+//   increment(key, windowMs)  counts one hit for `key`, starting a new window when there is none or it has
+//                             expired; resolves to { count, resetAt } (resetAt in ms since the epoch)
+//   get(key)                  the current { count, resetAt }, or null when there is none or it has expired
+//   reset(key)                forgets `key`
+//
+// RATE_LIMIT_STORE=supabase or postgres shares the counters between instances through the rate_limits table
+// (see 0016_rate_limits.sql and 0025_rate_limit_hit.sql); RATE_LIMIT_STORE=memory keeps them in this process,
+// which only holds for a single long-running instance. Without RATE_LIMIT_STORE the first configured database
+// is used: Supabase, then Postgres, memory when there is neither.
+
+// Expired counters are swept once every this many increments.
+const SWEEP_EVERY = 1000;
+
+const createMemoryRateLimitStore = ({ now = Date.now } = {}) => {
+  const entries = new Map();
+  let increments = 0;
+
+  const live = (key) => {
+    const entry = entries.get(key);
+    if (entry && entry.resetAt <= now()) {
+      entries.delete(key);
+      return null;
+    }
+    return entry || null;
+  };
+
+  const sweep = () => {
+    const time = now();
+    for (const [key, entry] of entries) {
+      if (entry.resetAt <= time) entries.delete(key);
+    }
+  };
+
+  return {
+    name: 'memory',
+
+    async increment(key, windowMs) {
+      if (++increments % SWEEP_EVERY === 0) sweep();
+      const entry = live(key) || { count: 0, resetAt: now() + windowMs };
+      entry.count += 1;
+      entries.set(key, entry);
+      return { ...entry };
+    },
+
+    async get(key) {
+      const entry = live(key);
+      return entry ? { ...entry } : null;
+    },
+
+    async reset(key) {
+      entries.delete(key);
+    }
+  };
+};
+
+const createPostgresRateLimitStore = (getPool) => {
+  let increments = 0;
+
+  const query = (text, params) => {
+    const pool = getPool();
+    if (!pool) throw new Error('RATE_LIMIT_STORE=postgres needs DATABASE_URL');
+    return pool.query(text, params);
+  };
+
+  const toEntry = (row) => (row ? { count: Number(row.count), resetAt: new Date(row.reset_at).getTime() } : null);
+
+  return {
+    name: 'postgres',
+
+    async increment(key, windowMs) {
+      if (++increments % SWEEP_EVERY === 0) {
+        query('DELETE FROM rate_limits WHERE reset_at <= NOW()').catch((err) => {
+          console.warn('Sweeping expired rate limits failed:', err.message || err);
+        });
+      }
+      const { rows } = await query(
+        `INSERT INTO rate_limits (key, count, reset_at)
+         VALUES ($1, 1, NOW() + make_interval(secs => $2::double precision / 1000))
+         ON CONFLICT (key) DO UPDATE SET
+           count = CASE WHEN rate_limits.reset_at <= NOW() THEN 1 ELSE rate_limits.count + 1 END,
+           reset_at = CASE WHEN rate_limits.reset_at <= NOW() THEN EXCLUDED.reset_at ELSE rate_limits.reset_at END
+         RETURNING count, reset_at`,
+        [key, windowMs]
+      );
+      return toEntry(rows[0]);
+    },
+
+    async get(key) {
+      const { rows } = await query('SELECT count, reset_at FROM rate_limits WHERE key = $1 AND reset_at > NOW()', [key]);
+      return toEntry(rows[0]);
+    },
+
+    async reset(key) {
+      await query('DELETE FROM rate_limits WHERE key = $1', [key]);
+    }
+  };
+};
+
+// `supabase` is a client with the service role key (the rate_limits table has no policies).
+const createSupabaseRateLimitStore = (supabase) => {
+  let increments = 0;
+
+  const client = () => {
+    if (!supabase) throw new Error('RATE_LIMIT_STORE=supabase needs SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY');
+    return supabase;
+  };
+
+  const toEntry = (row) => (row ? { count: Number(row.count), resetAt: new Date(row.reset_at).getTime() } : null);
+
+  return {
+    name: 'supabase',
+
+    async increment(key, windowMs) {
+      if (++increments % SWEEP_EVERY === 0) {
+        const warn = (err) => console.warn('Sweeping expired rate limits failed:', err.message || err);
+        client().from('rate_limits').delete().lte('reset_at', new Date().toISOString())
+          .then(({ error }) => error && warn(error), warn);
+      }
+      const { data, error } = await client().rpc('rate_limit_hit', { limit_key: key, window_ms: windowMs });
+      if (error) throw error;
+      return toEntry(Array.isArray(data) ? data[0] : data);
+    },
+
+    async get(key) {
+      const { data, error } = await client()
+        .from('rate_limits')
+        .select('count, reset_at')
+        .eq('key', key)
+        .gt('reset_at', new Date().toISOString())
+        .maybeSingle();
+      if (error) throw error;
+      return toEntry(data);
+    },
+
+    async reset(key) {
+      const { error } = await client().from('rate_limits').delete().eq('key', key);
+      if (error) throw error;
+    }
+  };
+};
+
+const createRateLimitStore = ({ getPool = () => null, supabase = null, env = process.env } = {}) => {
+  let kind = env.RATE_LIMIT_STORE;
+  if (!kind) {
+    if (supabase) kind = 'supabase';
+    else if (getPool()) kind = 'postgres';
+    else kind = 'memory';
+  }
+  if (kind === 'memory') {
+    if (env.NODE_ENV === 'production' || env.VERCEL) {
+      console.warn('Rate limits are kept in memory, so every instance counts on its own and lockouts do not '
+        + 'hold across instances; configure Supabase or DATABASE_URL (or set RATE_LIMIT_STORE).');
+    }
+    return createMemoryRateLimitStore();
+  }
+  if (kind === 'postgres') return createPostgresRateLimitStore(getPool);
+  if (kind === 'supabase') return createSupabaseRateLimitStore(supabase);
+  throw new Error(`Unknown RATE_LIMIT_STORE: ${kind}`);
+};
+
+const secondsUntil = (time) => Math.max(1, Math.ceil((time - Date.now()) / 1000));
+
+// 429 with a Retry-After header (seconds) and the same number in the body for clients that cannot read headers.
+const sendTooManyRequests = (res, retryAfter, hint = `Too many requests; try again in ${retryAfter} seconds`) => {
+  res.set('Retry-After', String(retryAfter));
+  return res.status(429).json({ error: 'Too Many Requests', hint, retryAfter });
+};
+
+// Middleware allowing `max` requests per `windowMs` for each key `key(req)` returns; requests without a key
+// (e.g. no account in the body yet) are not counted. A store that cannot be reached lets requests through,
+// so an outage of the counters does not take the routes down with it.
+const rateLimit = (store, { name, windowMs, max, key }) => async (req, res, next) => {
+  const value = key(req);
+  if (value === null || value === undefined || value === '') return next();
+  let entry;
+  try {
+    entry = await store.increment(`${name}:${value}`, windowMs);
+  } catch (err) {
+    console.warn(`Rate limit ${name} unavailable:`, err.message || err);
+    return next();
+  }
+  if (entry.count > max) return sendTooManyRequests(res, secondsUntil(entry.resetAt));
+  next();
+};
+
+// Progressive lockout after repeated failures (failed logins). From the `threshold`th failure within
+// `windowMs` on, each further failure locks `key` for twice as long as the previous one, starting at
+// `baseMs` and capped at `maxMs`. Same fail-open behaviour as rateLimit.
+const createLockout = (store, { name, threshold, baseMs, maxMs, windowMs }) => {
+  const failuresKey = (key) => `${name}:failures:${key}`;
+  const lockKey = (key) => `${name}:lock:${key}`;
+
+  return {
+    // Seconds until `key` is unlocked, or null when it is not locked.
+    async retryAfter(key) {
+      if (!key) return null;
+      try {
+        const lock = await store.get(lockKey(key));
+        return lock ? secondsUntil(lock.resetAt) : null;
+      } catch (err) {
+        console.warn(`Lockout ${name} unavailable:`, err.message || err);
+        return null;
+      }
+    },
+
+    async recordFailure(key) {
+      if (!key) return;
+      try {
+        const { count } = await store.increment(failuresKey(key), windowMs);
+        if (count < threshold) return;
+        const lockMs = Math.min(baseMs * 2 ** (count - threshold), maxMs);
+        await store.reset(lockKey(key));
+        await store.increment(lockKey(key), lockMs);
+      } catch (err) {
+        console.warn(`Lockout ${name} unavailable:`, err.message || err);
+      }
+    },
+
+    async clear(key) {
+      if (!key) return;
+      try {
+        await Promise.all([store.reset(failuresKey(key)), store.reset(lockKey(key))]);
+      } catch (err) {
+        console.warn(`Lockout ${name} unavailable:`, err.message || err);
+      }
+    }
+  };
+};
+
+module.exports = {
+  createLockout,
+  createMemoryRateLimitStore,
+  createPostgresRateLimitStore,
+  createRateLimitStore,
+  createSupabaseRateLimitStore,
+  rateLimit,
+  sendTooManyRequests
+};
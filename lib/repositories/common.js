@@ -0,0 +1,310 @@
+// Helpers for the repository implementations that work on plain rows in JavaScript
+// (Supabase, which has no SQL access for PostGIS functions, and the in-memory store).
+
+const { bboxIntersects, geometryBbox, simplifyGeometry } = require('../geometry');
+const { gridCellLabel, normalizeHabitatKey, parseGeometry } = require('./rows');
+
+// Applies the gridCells.list() options to raw { id, geom, properties } rows.
+// `counts` maps String(grid cell id) -> number of checklists.
+const selectGridCellRows = (rows, counts, { bbox = null, withGeometry = true, tolerance = 0, precision = 7 } = {}) => rows
+  .map((row) => ({ ...row, geometry: parseGeometry(row.geom ?? row.geometry) }))
+  .filter((row) => !bbox || bboxIntersects(geometryBbox(row.geometry), bbox))
+  .map((row) => ({
+    id: row.id,
+    properties: row.properties || {},
+    geometry: withGeometry ? simplifyGeometry(row.geometry, tolerance, precision) : undefined,
+    checklist_count: counts[String(row.id)] || 0
+  }));
+
+// Features for lib/tiles buildGridTileIndex, with the same properties ST_AsMVT emits on the Postgres path.
+const gridCellTileFeatures = (rows, counts) => rows
+  .map((row) => {
+    const geometry = parseGeometry(row.geom ?? row.geometry);
+    if (!geometry) return null;
+    const checklistCount = counts[String(row.id)] || 0;
+    return {
+      type: 'Feature',
+      geometry,
+      properties: {
+        id: String(row.id),
+        label: gridCellLabel(row.id, row.properties || {}),
+        checklist_count: checklistCount,
+        has_checklist: checklistCount > 0
+      }
+    };
+  })
+  .filter(Boolean);
+
+const countByGridCell = (checklists) => {
+  const counts = {};
+  for (const c of checklists) {
+    const key = String(c.grid_cell_id);
+    counts[key] = (counts[key] || 0) + 1;
+  }
+  return counts;
+};
+
+// Per grid cell statistics for species.distribution() from observation rows joined to their checklist,
+// [{ grid_cell_id, submitted_at, count }]. Returns String(grid cell id) -> { first_year, last_year, total_count, record_count }.
+const distributionByGridCell = (rows) => {
+  const cells = {};
+  for (const row of rows) {
+    const key = String(row.grid_cell_id);
+    const year = row.submitted_at ? new Date(row.submitted_at).getUTCFullYear() : null;
+    const cell = cells[key] || (cells[key] = { first_year: null, last_year: null, total_count: 0, record_count: 0 });
+    if (year !== null && !Number.isNaN(year)) {
+      cell.first_year = cell.first_year === null ? year : Math.min(cell.first_year, year);
+      cell.last_year = cell.last_year === null ? year : Math.max(cell.last_year, year);
+    }
+    cell.total_count += Number(row.count) || 0;
+    cell.record_count += 1;
+  }
+  return cells;
+};
+
+// gridCells.detail() shape from the checklists of one cell, each with its child rows:
+// [{ id, user_id, submitted_at, time_spent_minutes, locations: [{ location_type }], species: [{ species_id, species_name, count }] }].
+// Checklists are listed newest first; species are accumulated over all checklists.
+const summarizeGridCellChecklists = (checklists) => {
+  const species = {};
+  const list = checklists
+    .map((c) => {
+      for (const row of c.species || []) {
+        const key = String(row.species_id ?? row.species_name);
+        const entry = species[key] || (species[key] = {
+          species_id: row.species_id ?? null,
+          scientific_name: row.species_name,
+          total_count: 0,
+          record_count: 0
+        });
+        entry.total_count += Number(row.count) || 0;
+        entry.record_count += 1;
+      }
+      return {
+        id: c.id,
+        user_id: c.user_id,
+        submitted_at: c.submitted_at,
+        time_spent_minutes: c.time_spent_minutes,
+        habitats: [...new Set((c.locations || []).map((l) => l.location_type))].sort(),
+        species_count: (c.species || []).length
+      };
+    })
+    .sort((a, b) => new Date(b.submitted_at).getTime() - new Date(a.submitted_at).getTime());
+  return {
+    checklists: list,
+    species: Object.values(species).sort((a, b) => (
+      (b.record_count - a.record_count) || String(a.scientific_name).localeCompare(String(b.scientific_name))
+    ))
+  };
+};
+
+// gridCells.coverage() rows from { id, geom, properties } cells and the checklists in them, each with child rows:
+// [{ grid_cell_id, time_spent_minutes, locations: [{ location_type }], species: [{ species_id }] }].
+// `bbox` keeps only cells whose centroid (bounding box centre) lies inside it.
+const gridCellCoverageRows = (cells, checklists, { bbox = null } = {}) => {
+  const byCell = {};
+  for (const c of checklists) {
+    const key = String(c.grid_cell_id);
+    const entry = byCell[key] || (byCell[key] = { checklist_count: 0, total_minutes: 0, habitats: new Set(), species: new Set() });
+    entry.checklist_count += 1;
+    entry.total_minutes += Number(c.time_spent_minutes) || 0;
+    for (const l of c.locations || []) entry.habitats.add(l.location_type);
+    for (const o of c.species || []) entry.species.add(String(o.species_id ?? o.species_name));
+  }
+  return cells
+    .map((row) => {
+      const box = geometryBbox(parseGeometry(row.geom ?? row.geometry));
+      if (!box) return null;
+      const centroid = { lat: (box[1] + box[3]) / 2, lng: (box[0] + box[2]) / 2 };
+      if (bbox && (centroid.lng < bbox[0] || centroid.lng > bbox[2] || centroid.lat < bbox[1] || centroid.lat > bbox[3])) {
+        return null;
+      }
+      const entry = byCell[String(row.id)];
+      return {
+        id: row.id,
+        properties: row.properties || {},
+        centroid,
+        checklist_count: entry ? entry.checklist_count : 0,
+        total_minutes: entry ? entry.total_minutes : 0,
+        habitats: entry ? [...entry.habitats].sort() : [],
+        species_count: entry ? entry.species.size : 0
+      };
+    })
+    .filter(Boolean);
+};
+
+// checklists.statsForUser() shape.
+//   checklists    the user's checklists [{ id, grid_cell_id, submitted_at, time_spent_minutes }]
+//   observations  every observation (by anyone) of the species the user recorded, joined to its checklist:
+//                 [{ species_id, species_name, count, checklist_id, user_id, grid_cell_id, submitted_at }]
+// A first record is the earliest observation of a species in a grid cell; `atlas_first` marks the earliest overall.
+const summarizeObserverStats = (userId, checklists, observations) => {
+  const byDate = (a, b) => (new Date(a.submitted_at).getTime() - new Date(b.submitted_at).getTime())
+    || (Number(a.checklist_id) - Number(b.checklist_id));
+  const sorted = [...observations].sort(byDate);
+  const own = sorted.filter((o) => String(o.user_id) === String(userId));
+
+  const lifeList = {};
+  for (const o of own) {
+    const key = String(o.species_id);
+    const entry = lifeList[key] || (lifeList[key] = {
+      species_id: o.species_id,
+      scientific_name: o.species_name,
+      total_count: 0,
+      checklist_count: 0,
+      first_seen_at: o.submitted_at,
+      first_grid_cell_id: o.grid_cell_id
+    });
+    entry.total_count += Number(o.count) || 0;
+    entry.checklist_count += 1;
+  }
+
+  const firstInCell = {};
+  const firstOverall = {};
+  for (const o of sorted) {
+    const cellKey = `${o.species_id}|${o.grid_cell_id}`;
+    if (!firstInCell[cellKey]) firstInCell[cellKey] = o;
+    if (!firstOverall[String(o.species_id)]) firstOverall[String(o.species_id)] = o;
+  }
+  const firstRecords = Object.values(firstInCell)
+    .filter((o) => String(o.user_id) === String(userId))
+    .map((o) => ({
+      species_id: o.species_id,
+      scientific_name: o.species_name,
+      grid_cell_id: o.grid_cell_id,
+      checklist_id: o.checklist_id,
+      submitted_at: o.submitted_at,
+      atlas_first: firstOverall[String(o.species_id)] === o
+    }))
+    .sort((a, b) => -byDate(a, b));
+
+  const dates = checklists.map((c) => c.submitted_at).filter(Boolean).sort((a, b) => new Date(a).getTime() - new Date(b).getTime());
+  const gridCells = [...new Set(checklists.map((c) => String(c.grid_cell_id)))].sort();
+  return {
+    checklist_count: checklists.length,
+    total_minutes: checklists.reduce((sum, c) => sum + (Number(c.time_spent_minutes) || 0), 0),
+    grid_cell_count: gridCells.length,
+    grid_cells: gridCells,
+    first_checklist_at: dates.length ? dates[0] : null,
+    last_checklist_at: dates.length ? dates[dates.length - 1] : null,
+    species: Object.values(lifeList).sort((a, b) => String(a.scientific_name).localeCompare(String(b.scientific_name))),
+    first_records: firstRecords
+  };
+};
+
+// observations.listForValidation() from observation rows joined to their checklist:
+// [{ id, checklist_id, species_id, species_name, count, validation_status, validation_comment, validated_by,
+// validated_at, user_id, grid_cell_id, submitted_at }]. Oldest observation first, so the queue is worked in order.
+const selectValidationRows = (rows, { status = null, taxonId = null, gridCellIds = null, limit = 50, offset = 0 } = {}) => {
+  const cells = gridCellIds ? new Set(gridCellIds.map(String)) : null;
+  return rows
+    .filter((row) => (
+      (!status || row.validation_status === status)
+      && (taxonId === null || String(row.species_id) === String(taxonId))
+      && (!cells || cells.has(String(row.grid_cell_id)))
+    ))
+    .sort((a, b) => Number(a.id) - Number(b.id))
+    .slice(offset, offset + limit);
+};
+
+// JavaScript counterpart of public.resolve_taxon_id (supabase/migrations/0009_canonical_taxa.sql):
+// a taxon id, scientific name or synonym -> taxon row, or null. Synonym names are stored lower-cased.
+const resolveTaxonKey = (key, taxa, synonyms = []) => {
+  const text = String(key ?? '').trim();
+  if (/^\d{1,9}$/.test(text)) {
+    const byId = taxa.find((taxon) => String(taxon.id) === text);
+    if (byId) return byId;
+  }
+  const lower = text.toLowerCase();
+  const byName = taxa.find((taxon) => String(taxon.scientific_name || '').toLowerCase() === lower);
+  if (byName) return byName;
+  const synonym = synonyms.find((row) => row.name === lower);
+  return synonym ? taxa.find((taxon) => String(taxon.id) === String(synonym.taxon_id)) || null : null;
+};
+
+// stats.summary() from raw checklist [{ id, user_id, grid_cell_id, submitted_at }], observation
+// [{ checklist_id, species_name, count }] and location [{ checklist_id, location_type }] rows.
+const summarizeStatsRows = ({ checklists = [], observations = [], locations = [], totalGridCells = 0 }) => {
+  const checklistById = new Map();
+  const gridCells = new Set();
+  const observers = new Set();
+  const species = new Set();
+  const years = new Map();
+  const habitats = new Map();
+
+  const yearBucket = (year) => {
+    if (!years.has(year)) {
+      years.set(year, { checklists: 0, gridCells: new Set(), species: new Set(), observers: new Set() });
+    }
+    return years.get(year);
+  };
+
+  for (const c of checklists) {
+    const year = c.submitted_at ? new Date(c.submitted_at).getUTCFullYear() : null;
+    checklistById.set(String(c.id), { ...c, year });
+    if (c.grid_cell_id != null) gridCells.add(String(c.grid_cell_id));
+    if (c.user_id) observers.add(String(c.user_id));
+    if (year === null || Number.isNaN(year)) continue;
+    const bucket = yearBucket(year);
+    bucket.checklists += 1;
+    if (c.grid_cell_id != null) bucket.gridCells.add(String(c.grid_cell_id));
+    if (c.user_id) bucket.observers.add(String(c.user_id));
+  }
+
+  for (const o of observations) {
+    if (!(Number(o.count) > 0) || !o.species_name) continue;
+    const checklist = checklistById.get(String(o.checklist_id));
+    if (!checklist) continue;
+    species.add(String(o.species_name));
+    if (checklist.year !== null && !Number.isNaN(checklist.year)) {
+      yearBucket(checklist.year).species.add(String(o.species_name));
+    }
+  }
+
+  for (const l of locations) {
+    const checklist = checklistById.get(String(l.checklist_id));
+    const habitat = normalizeHabitatKey(l.location_type);
+    if (!checklist || !habitat) continue;
+    if (!habitats.has(habitat)) habitats.set(habitat, { checklists: new Set(), gridCells: new Set() });
+    const bucket = habitats.get(habitat);
+    bucket.checklists.add(String(checklist.id));
+    if (checklist.grid_cell_id != null) bucket.gridCells.add(String(checklist.grid_cell_id));
+  }
+
+  return {
+    checklists: checklists.length,
+    visited_grid_cells: gridCells.size,
+    total_grid_cells: totalGridCells,
+    species_recorded: species.size,
+    observers: observers.size,
+    by_year: [...years.entries()]
+      .sort(([a], [b]) => a - b)
+      .map(([year, b]) => ({
+        year,
+        checklists: b.checklists,
+        visited_grid_cells: b.gridCells.size,
+        species_recorded: b.species.size,
+        observers: b.observers.size
+      })),
+    by_habitat: [...habitats.entries()]
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([habitat, b]) => ({
+        habitat,
+        checklists: b.checklists.size,
+        visited_grid_cells: b.gridCells.size
+      }))
+  };
+};
+
+module.exports = {
+  countByGridCell,
+  distributionByGridCell,
+  gridCellCoverageRows,
+  gridCellTileFeatures,
+  resolveTaxonKey,
+  selectGridCellRows,
+  selectValidationRows,
+  summarizeGridCellChecklists,
+  summarizeObserverStats,
+  summarizeStatsRows
+};
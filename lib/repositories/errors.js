@@ -0,0 +1,24 @@
+// Thrown when no configured backend could answer a repository call; routes turn it into a 503.
+// `cause` holds the error of the last backend that was tried (if any).
+class DataUnavailableError extends Error {
+  constructor(message, cause = null) {
+    super(message);
+    this.name = 'DataUnavailableError';
+    this.cause = cause;
+  }
+}
+
+// Socket-level failures from pg and fetch (supabase-js), and Postgres connection exceptions (SQLSTATE class 08).
+const CONNECTION_ERROR_CODES = ['ECONNREFUSED', 'ECONNRESET', 'ETIMEDOUT', 'ENOTFOUND', 'EAI_AGAIN', 'EHOSTUNREACH', 'ENETUNREACH', 'EPIPE'];
+
+// True when `err` means the backend could not be reached, as opposed to the backend rejecting the call.
+// supabase-js reports an unreachable project as a "fetch failed" error without a code of its own.
+const isConnectionError = (err) => {
+  if (!err) return false;
+  const code = String(err.code || '');
+  if (CONNECTION_ERROR_CODES.includes(code) || /^08/.test(code)) return true;
+  if (/fetch failed|Connection terminated|timeout exceeded when trying to connect/i.test(String(err.message || ''))) return true;
+  return err.cause && err.cause !== err ? isConnectionError(err.cause) : false;
+};
+
+module.exports = { DataUnavailableError, isConnectionError };
@@ -0,0 +1,134 @@
+// Data access for the API routes. Every repository has the same interface whichever backend answers:
+//
+//   gridCells   list({ id, bbox, withGeometry, tolerance, precision }) -> [{ id, properties, geometry, checklist_count }]
+//               getGeometry(id) -> GeoJSON | null, version() -> string, tile({ z, x, y }, { version }) -> Buffer | null
+//               coverage({ bbox }) -> [{ id, properties, centroid: { lat, lng }, checklist_count, total_minutes, habitats,
+//                 species_count }] for cells whose centroid lies in bbox
+//               detail(id) -> { id, properties, checklists: [{ id, user_id, submitted_at, time_spent_minutes, habitats,
+//                 species_count }], species: [{ species_id, scientific_name, total_count, record_count }] } | null
+//   checklists  create({ userId, gridCellId, timeSpentMinutes, locations, species, submissionId }) -> { id, duplicate }
+//               listForUser(userId), getForUser(id, userId) -> row | null, getGridCellId(id, userId) -> id | null
+//               update({ checklistId, userId, timeSpentMinutes, species, locations }) -> { revisionId } | null
+//               remove({ checklistId, userId }) -> { revisionId } | null, revisions(id, userId)
+//               (getForUser species carry their observation id, validation_status and validation_comment;
+//               update keeps the observations of taxa that stay on the checklist, and their validation unless
+//               the count changes, which sets them back to pending)
+//               statsForUser(userId) -> { checklist_count, total_minutes, grid_cell_count, grid_cells, first_checklist_at,
+//                 last_checklist_at, species (life list), first_records }
+//   species     list() -> [{ id, scientific_name, dutch_name, french_name, english_name, observation_count }] from the canonical taxa
+//               resolve(keys) -> { [key]: { id, scientific_name } | null } for taxon ids, scientific names or synonyms
+//               catalog() -> [{ id, scientific_name, dutch_name, french_name, english_name, synonyms, observation_count }]
+//               distribution(taxonId, { withGeometry, tolerance, precision })
+//                 -> [{ id, properties, geometry, checklist_count, first_year, last_year, total_count, record_count }]
+//                 from accepted observations only
+//   observations listForValidation({ status, taxonId, gridCellIds, limit, offset }) -> [{ id, checklist_id, species_id,
+//                 species_name, count, validation_status, validation_comment, validated_by, validated_at, user_id,
+//                 grid_cell_id, submitted_at }], oldest first
+//               setValidation({ observationId, status, comment, validatorId }) -> that row | null
+//   photos      create({ observationId, userId, storageKey, thumbnailKey, contentType, width, height, sizeBytes,
+//                 originalFilename, takenAt, lat, lng }) -> observation_photos row
+//               listForObservations(observationIds) -> observation_photos rows (files: lib/photoStorage)
+//   users       get(userId) -> { id, email, name, locale, created_at } | null, the profile of a Supabase user id or of
+//                 the legacy users.id linked to it, else the bare account
+//               findLegacyAccount(email) -> legacy users row { id, email, name, created_at } | null (case-insensitive)
+//               saveProfile({ userId, email, name, locale, createdAt, legacyUserId }) -> profile as from get; upserts
+//                 user_profiles, keeping stored values for missing ones and the earliest created_at
+//               names(userIds) -> { [userId]: display name } for the ids that have one
+//               getRole(userId) -> 'observer' | 'validator' | 'admin' | null (null: no row, i.e. observer)
+//               setRole({ userId, role, grantedBy }) -> { user_id, role, granted_by, updated_at }
+//               listRoles() -> users with a role above observer
+//   news        list({ limit, includeDrafts }) -> newest first, drafts only when asked for
+//               get(id) / create(item, { createdBy }) / update(id, item) / publish(id) -> news item or null
+//               remove(id) -> boolean
+//               (items carry translations: { [lang]: { title, content } }; create/update replace them when
+//               item.translations is given, see lib/news for serving them)
+//   stats       summary() -> { checklists, visited_grid_cells, total_grid_cells, species_recorded, observers,
+//                 by_year: [{ year, checklists, visited_grid_cells, species_recorded, observers }],
+//                 by_habitat: [{ habitat, checklists, visited_grid_cells }] }
+//               dwcaRows() -> { checklists, observations, locations, gridCells, species } for lib/dwca's buildDwcaFiles
+//
+// null means "not found / not owned". Locations go in and come out as WGS84 { lat, lng };
+// checklist `species` go in as { [taxonId]: count } (resolve incoming keys with species.resolve first).
+// When every configured backend fails a call rejects with DataUnavailableError. Writes only move on to the next
+// backend when the previous one was unavailable or unreachable; any other error is passed on, since the write
+// may already have been (partly) applied.
+
+const { DataUnavailableError, isConnectionError } = require('./errors');
+const { createMemoryRepositories } = require('./memory');
+const { createPostgresRepositories } = require('./postgres');
+const { createSupabaseRepositories } = require('./supabase');
+
+const REPOSITORY_NAMES = ['gridCells', 'checklists', 'species', 'observations', 'photos', 'users', 'news', 'stats'];
+
+// Postgres renders vector tiles itself with ST_AsMVT, so it goes before the in-memory Supabase encoder.
+const PREFERRED_ORDER = {
+  'gridCells.tile': ['postgres', 'supabase']
+};
+
+// Methods that change data; see withFallback.
+const WRITE_METHODS = [
+  'checklists.create',
+  'checklists.update',
+  'checklists.remove',
+  'observations.setValidation',
+  'photos.create',
+  'users.saveProfile',
+  'users.setRole',
+  'news.create',
+  'news.update',
+  'news.publish',
+  'news.remove'
+];
+
+// Wraps every method so it is tried on each backend in turn until one answers.
+const withFallback = (backends) => {
+  const repositories = {};
+  for (const repoName of REPOSITORY_NAMES) {
+    repositories[repoName] = {};
+    for (const method of Object.keys(backends[0].repositories[repoName])) {
+      const key = `${repoName}.${method}`;
+      const order = PREFERRED_ORDER[key];
+      const candidates = order
+        ? [...backends].sort((a, b) => order.indexOf(a.name) - order.indexOf(b.name))
+        : backends;
+      const isWrite = WRITE_METHODS.includes(key);
+
+      repositories[repoName][method] = async (...args) => {
+        let lastError = null;
+        for (const backend of candidates) {
+          try {
+            return await backend.repositories[repoName][method](...args);
+          } catch (err) {
+            // An unconfigured backend is skipped silently; real failures are logged before moving on.
+            if (!(err instanceof DataUnavailableError)) {
+              if (isWrite && !isConnectionError(err)) throw err;
+              console.warn(`${key} via ${backend.name} failed:`, err && err.message ? err.message : err);
+              lastError = err;
+            }
+          }
+        }
+        throw new DataUnavailableError(`${key} unavailable`, lastError);
+      };
+    }
+  }
+  return repositories;
+};
+
+// backend: 'memory' for the in-memory store, anything else for Supabase (when a client is given) then Postgres.
+const createRepositories = ({ backend = null, supabase = null, getPool = () => null, seed } = {}) => {
+  if (backend === 'memory') {
+    return createMemoryRepositories(seed);
+  }
+  const backends = [];
+  if (supabase) {
+    backends.push({ name: 'supabase', repositories: createSupabaseRepositories(supabase) });
+  }
+  backends.push({ name: 'postgres', repositories: createPostgresRepositories(getPool) });
+  return withFallback(backends);
+};
+
+module.exports = {
+  DataUnavailableError,
+  createMemoryRepositories,
+  createRepositories
+};
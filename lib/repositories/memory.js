@@ -0,0 +1,539 @@
+// In-memory repository implementation (DATA_BACKEND=memory). Nothing is persisted; it exists so the
+// backend can run without a database, e.g. for local frontend work or tests against the HTTP API.
+
+const { approximateCentroid } = require('../dwca');
+const { buildGridTileIndex, encodeGridTile } = require('../tiles');
+const {
+  countByGridCell,
+  distributionByGridCell,
+  gridCellCoverageRows,
+  gridCellTileFeatures,
+  resolveTaxonKey,
+  selectGridCellRows,
+  selectValidationRows,
+  summarizeGridCellChecklists,
+  summarizeObserverStats,
+  summarizeStatsRows
+} = require('./common');
+const {
+  CHECKLIST_LOCATION_TYPES,
+  mergeProfileRow,
+  normalizeNewsRow,
+  normalizeProfileRow,
+  pickNewsFields,
+  normalizeSpeciesRow,
+  parseGeometry,
+  sortNewsByDate,
+  sortSpeciesByObservations
+} = require('./rows');
+
+// `seed` rows use the table shapes: gridCells [{ id, geom, properties }],
+// taxa [{ id, scientific_name, dutch_name, french_name, english_name }],
+// taxonSynonyms [{ name, taxon_id }], users [{ id, email, name, created_at }] (legacy accounts),
+// userProfiles [{ user_id, legacy_user_id, email, display_name, locale, created_at }], userRoles [{ user_id, role }]
+// and news as stored in Supabase. Photo rows go with their observation, as with the ON DELETE CASCADE in SQL.
+const createMemoryRepositories = (seed = {}) => {
+  const state = {
+    gridCells: [...(seed.gridCells || [])],
+    taxa: [...(seed.taxa || [])],
+    taxonSynonyms: [...(seed.taxonSynonyms || [])],
+    users: [...(seed.users || [])],
+    userProfiles: [...(seed.userProfiles || [])],
+    userRoles: [...(seed.userRoles || [])],
+    news: [...(seed.news || [])],
+    newsTranslations: [...(seed.newsTranslations || [])],
+    checklists: [],
+    locations: [],
+    observations: [],
+    photos: [],
+    revisions: []
+  };
+  let nextChecklistId = 1;
+  let nextObservationId = 1;
+  let nextPhotoId = 1;
+  let nextNewsId = state.news.reduce((max, item) => Math.max(max, Number(item.id) || 0), 0) + 1;
+  let nextRevisionId = 1;
+  let tileIndexCache = null;
+
+  const sameId = (a, b) => String(a) === String(b);
+  const findOwned = (checklistId, userId) => state.checklists.find(
+    (c) => sameId(c.id, checklistId) && sameId(c.user_id, userId)
+  );
+
+  const insertChildren = (checklistId, locations = {}, species = {}) => {
+    for (const locType of CHECKLIST_LOCATION_TYPES) {
+      if (locations[locType]) {
+        const { lat, lng } = locations[locType];
+        state.locations.push({ checklist_id: checklistId, location_type: locType, lat: Number(lat), lng: Number(lng) });
+      }
+    }
+    // `species` is keyed by taxon id (see species.resolve)
+    for (const [taxonId, count] of Object.entries(species || {})) {
+      const taxon = state.taxa.find((t) => sameId(t.id, taxonId));
+      if (taxon && count > 0) {
+        state.observations.push({
+          id: nextObservationId++,
+          checklist_id: checklistId,
+          species_id: taxon.id,
+          species_name: taxon.scientific_name,
+          count: Number(count),
+          validation_status: 'pending',
+          validation_comment: null,
+          validated_by: null,
+          validated_at: null
+        });
+      }
+    }
+  };
+
+  const dropObservations = (keep) => {
+    state.observations = state.observations.filter(keep);
+    const remaining = new Set(state.observations.map((o) => o.id));
+    state.photos = state.photos.filter((p) => remaining.has(p.observation_id));
+  };
+
+  // Replaces the species of a checklist. Taxa that stay keep their observation; its validation too, unless the count
+  // changes, which sends it back to pending (as the trigger in 0021_reset_validation_on_edit.sql does in SQL).
+  const replaceObservations = (checklistId, species = {}) => {
+    const kept = Object.entries(species || {}).filter(([, count]) => count > 0);
+    dropObservations((o) => (
+      o.checklist_id !== checklistId || kept.some(([taxonId]) => sameId(taxonId, o.species_id))
+    ));
+    const added = {};
+    for (const [taxonId, count] of kept) {
+      const existing = state.observations.find((o) => o.checklist_id === checklistId && sameId(o.species_id, taxonId));
+      if (existing) {
+        if (existing.count !== Number(count)) {
+          Object.assign(existing, { validation_status: 'pending', validation_comment: null, validated_by: null, validated_at: null });
+        }
+        existing.count = Number(count);
+      } else {
+        added[taxonId] = count;
+      }
+    }
+    insertChildren(checklistId, {}, added);
+  };
+
+  const childrenOf = (checklistId) => ({
+    locations: state.locations
+      .filter((l) => l.checklist_id === checklistId)
+      .map(({ location_type, lat, lng }) => ({ location_type, lat, lng })),
+    species: state.observations
+      .filter((o) => o.checklist_id === checklistId)
+      .map(({ id, species_id, species_name, count, validation_status, validation_comment, validated_at }) => ({
+        id, species_id, species_name, count, validation_status, validation_comment, validated_at
+      }))
+      .sort((a, b) => a.species_name.localeCompare(b.species_name))
+  });
+
+  const snapshot = (checklist) => ({ checklist: { ...checklist }, ...childrenOf(checklist.id) });
+
+  const insertRevision = (checklist, userId, action) => {
+    const revision = {
+      id: nextRevisionId++,
+      checklist_id: checklist.id,
+      user_id: userId,
+      action,
+      snapshot: snapshot(checklist),
+      created_at: new Date().toISOString()
+    };
+    state.revisions.push(revision);
+    return revision.id;
+  };
+
+  const gridCells = {
+    async list({ id = null, bbox = null, withGeometry = true, tolerance = 0, precision = 7 } = {}) {
+      const rows = id === null ? state.gridCells : state.gridCells.filter((row) => sameId(row.id, id));
+      return selectGridCellRows(rows, countByGridCell(state.checklists), { bbox, withGeometry, tolerance, precision });
+    },
+
+    async getGeometry(id) {
+      const row = state.gridCells.find((cell) => sameId(cell.id, id));
+      return row ? parseGeometry(row.geom) : null;
+    },
+
+    async coverage({ bbox = null } = {}) {
+      const cellChecklists = state.checklists.map((c) => ({ ...c, ...childrenOf(c.id) }));
+      return gridCellCoverageRows(state.gridCells, cellChecklists, { bbox });
+    },
+
+    async detail(id) {
+      const row = state.gridCells.find((cell) => sameId(cell.id, id));
+      if (!row) return null;
+      const cellChecklists = state.checklists
+        .filter((c) => sameId(c.grid_cell_id, row.id))
+        .map((c) => ({ ...c, ...childrenOf(c.id) }));
+      return { id: row.id, properties: row.properties || {}, ...summarizeGridCellChecklists(cellChecklists) };
+    },
+
+    async version() {
+      const latest = state.checklists.length ? state.checklists[state.checklists.length - 1].id : 0;
+      return `${state.gridCells.length}:${state.checklists.length}:${latest}`;
+    },
+
+    async tile(coords) {
+      const version = await gridCells.version();
+      if (!tileIndexCache || tileIndexCache.version !== version) {
+        const features = gridCellTileFeatures(state.gridCells, countByGridCell(state.checklists));
+        tileIndexCache = { version, index: features.length ? buildGridTileIndex(features) : null };
+      }
+      return tileIndexCache.index ? encodeGridTile(tileIndexCache.index, coords) : null;
+    }
+  };
+
+  const checklists = {
+    async create({ userId, gridCellId, timeSpentMinutes, locations = {}, species = {}, submissionId = null }) {
+      if (submissionId) {
+        const existing = state.checklists.find((c) => sameId(c.user_id, userId) && c.submission_id === submissionId);
+        if (existing) return { id: existing.id, duplicate: true };
+      }
+      const checklist = {
+        id: nextChecklistId++,
+        user_id: userId,
+        grid_cell_id: gridCellId,
+        time_spent_minutes: timeSpentMinutes,
+        submitted_at: new Date().toISOString(),
+        updated_at: null,
+        submission_id: submissionId
+      };
+      state.checklists.push(checklist);
+      insertChildren(checklist.id, locations, species);
+      return { id: checklist.id, duplicate: false };
+    },
+
+    async listForUser(userId) {
+      return state.checklists
+        .filter((c) => sameId(c.user_id, userId))
+        .sort((a, b) => new Date(b.submitted_at).getTime() - new Date(a.submitted_at).getTime())
+        .map((c) => {
+          const { locations, species } = childrenOf(c.id);
+          return {
+            id: c.id,
+            grid_cell_id: c.grid_cell_id,
+            time_spent_minutes: c.time_spent_minutes,
+            submitted_at: c.submitted_at,
+            location_count: locations.length,
+            species_count: species.length
+          };
+        });
+    },
+
+    async getForUser(checklistId, userId) {
+      const checklist = findOwned(checklistId, userId);
+      return checklist ? { ...checklist, ...childrenOf(checklist.id) } : null;
+    },
+
+    async getGridCellId(checklistId, userId) {
+      const checklist = findOwned(checklistId, userId);
+      return checklist ? checklist.grid_cell_id : null;
+    },
+
+    async update({ checklistId, userId, timeSpentMinutes, species, locations }) {
+      const checklist = findOwned(checklistId, userId);
+      if (!checklist) return null;
+      const revisionId = insertRevision(checklist, userId, 'update');
+
+      if (timeSpentMinutes !== undefined && timeSpentMinutes !== null) checklist.time_spent_minutes = timeSpentMinutes;
+      checklist.updated_at = new Date().toISOString();
+      if (locations !== undefined) {
+        state.locations = state.locations.filter((l) => l.checklist_id !== checklist.id);
+      }
+      if (species !== undefined) replaceObservations(checklist.id, species);
+      insertChildren(checklist.id, locations || {}, {});
+      return { revisionId };
+    },
+
+    async remove({ checklistId, userId }) {
+      const checklist = findOwned(checklistId, userId);
+      if (!checklist) return null;
+      const revisionId = insertRevision(checklist, userId, 'delete');
+      state.checklists = state.checklists.filter((c) => c !== checklist);
+      state.locations = state.locations.filter((l) => l.checklist_id !== checklist.id);
+      dropObservations((o) => o.checklist_id !== checklist.id);
+      return { revisionId };
+    },
+
+    async revisions(checklistId, userId) {
+      return state.revisions
+        .filter((r) => sameId(r.checklist_id, checklistId) && sameId(r.user_id, userId))
+        .map(({ user_id, ...revision }) => revision)
+        .reverse();
+    },
+
+    async statsForUser(userId) {
+      const own = state.checklists.filter((c) => sameId(c.user_id, userId));
+      const ownIds = new Set(own.map((c) => c.id));
+      const speciesIds = new Set(state.observations.filter((o) => ownIds.has(o.checklist_id)).map((o) => String(o.species_id)));
+      const observations = state.observations
+        .filter((o) => speciesIds.has(String(o.species_id)))
+        .map((o) => {
+          const checklist = state.checklists.find((c) => c.id === o.checklist_id);
+          return checklist ? {
+            ...o,
+            user_id: checklist.user_id,
+            grid_cell_id: checklist.grid_cell_id,
+            submitted_at: checklist.submitted_at
+          } : null;
+        })
+        .filter(Boolean);
+      return summarizeObserverStats(userId, own, observations);
+    }
+  };
+
+  const species = {
+    async list() {
+      return sortSpeciesByObservations(state.taxa.map((taxon, idx) => normalizeSpeciesRow({
+        ...taxon,
+        observation_count: state.observations.filter((o) => sameId(o.species_id, taxon.id)).length
+      }, idx)));
+    },
+
+    async resolve(keys) {
+      const resolved = {};
+      for (const key of keys) {
+        const taxon = resolveTaxonKey(key, state.taxa, state.taxonSynonyms);
+        resolved[key] = taxon ? { id: taxon.id, scientific_name: taxon.scientific_name } : null;
+      }
+      return resolved;
+    },
+
+    async catalog() {
+      return state.taxa.map((taxon) => ({
+        id: taxon.id,
+        scientific_name: taxon.scientific_name,
+        dutch_name: taxon.dutch_name || null,
+        french_name: taxon.french_name || null,
+        english_name: taxon.english_name || null,
+        synonyms: state.taxonSynonyms.filter((s) => sameId(s.taxon_id, taxon.id)).map((s) => s.name),
+        observation_count: state.observations.filter((o) => sameId(o.species_id, taxon.id)).length
+      }));
+    },
+
+    async distribution(taxonId, { withGeometry = true, tolerance = 0, precision = 7 } = {}) {
+      const rows = state.observations
+        .filter((o) => sameId(o.species_id, taxonId) && o.validation_status === 'accepted')
+        .map((o) => {
+          const checklist = state.checklists.find((c) => c.id === o.checklist_id);
+          return checklist ? { grid_cell_id: checklist.grid_cell_id, submitted_at: checklist.submitted_at, count: o.count } : null;
+        })
+        .filter(Boolean);
+      const stats = distributionByGridCell(rows);
+      const cells = state.gridCells.filter((row) => stats[String(row.id)]);
+      return selectGridCellRows(cells, countByGridCell(state.checklists), { withGeometry, tolerance, precision })
+        .map((cell) => ({ ...cell, ...stats[String(cell.id)] }));
+    }
+  };
+
+  // Observation rows joined to their checklist (observations.* shape).
+  const withChecklist = (o) => {
+    const checklist = state.checklists.find((c) => c.id === o.checklist_id);
+    return checklist ? {
+      ...o,
+      user_id: checklist.user_id,
+      grid_cell_id: checklist.grid_cell_id,
+      submitted_at: checklist.submitted_at
+    } : null;
+  };
+
+  const observations = {
+    async listForValidation(options = {}) {
+      return selectValidationRows(state.observations.map(withChecklist).filter(Boolean), options);
+    },
+
+    async setValidation({ observationId, status, comment = null, validatorId }) {
+      const observation = state.observations.find((o) => sameId(o.id, observationId));
+      if (!observation) return null;
+      Object.assign(observation, {
+        validation_status: status,
+        validation_comment: comment,
+        validated_by: String(validatorId),
+        validated_at: new Date().toISOString()
+      });
+      return withChecklist(observation);
+    }
+  };
+
+  const photos = {
+    async create(photo) {
+      const row = {
+        id: nextPhotoId++,
+        observation_id: Number(photo.observationId),
+        user_id: String(photo.userId),
+        storage_key: photo.storageKey,
+        thumbnail_key: photo.thumbnailKey,
+        content_type: photo.contentType || 'image/jpeg',
+        width: photo.width ?? null,
+        height: photo.height ?? null,
+        size_bytes: photo.sizeBytes ?? null,
+        original_filename: photo.originalFilename ?? null,
+        taken_at: photo.takenAt ?? null,
+        lat: photo.lat ?? null,
+        lng: photo.lng ?? null,
+        created_at: new Date().toISOString()
+      };
+      state.photos.push(row);
+      return { ...row };
+    },
+
+    async listForObservations(observationIds) {
+      const ids = new Set(observationIds.map(String));
+      return state.photos.filter((p) => ids.has(String(p.observation_id))).map((p) => ({ ...p }));
+    }
+  };
+
+  const legacyAccount = (userId) => state.users.find((u) => sameId(u.id, userId)) || null;
+  const profileOf = (userId) => state.userProfiles.find((p) => sameId(p.user_id, userId))
+    || state.userProfiles.find((p) => p.legacy_user_id != null && sameId(p.legacy_user_id, userId))
+    || null;
+
+  const users = {
+    async get(userId) {
+      const profile = profileOf(userId);
+      if (profile) return normalizeProfileRow(profile, profile.legacy_user_id != null ? legacyAccount(profile.legacy_user_id) : null);
+      const user = legacyAccount(userId);
+      return user ? { id: String(user.id), email: user.email || null, name: user.name || null, locale: null, created_at: user.created_at || null } : null;
+    },
+
+    async findLegacyAccount(email) {
+      const address = String(email).toLowerCase();
+      const user = state.users.find((u) => String(u.email || '').toLowerCase() === address);
+      return user ? { id: String(user.id), email: user.email || null, name: user.name || null, created_at: user.created_at || null } : null;
+    },
+
+    async saveProfile(profile) {
+      const existing = state.userProfiles.find((p) => sameId(p.user_id, profile.userId)) || null;
+      const row = mergeProfileRow(existing, profile);
+      state.userProfiles = [...state.userProfiles.filter((p) => p !== existing), row];
+      return normalizeProfileRow(row, row.legacy_user_id != null ? legacyAccount(row.legacy_user_id) : null);
+    },
+
+    async names(userIds) {
+      const names = {};
+      for (const userId of userIds) {
+        const user = await users.get(userId);
+        if (user && user.name) names[String(userId)] = user.name;
+      }
+      return names;
+    },
+
+    async getRole(userId) {
+      const row = state.userRoles.find((r) => sameId(r.user_id, userId));
+      return row ? row.role : null;
+    },
+
+    async setRole({ userId, role, grantedBy = null }) {
+      const row = { user_id: String(userId), role, granted_by: grantedBy, updated_at: new Date().toISOString() };
+      state.userRoles = [...state.userRoles.filter((r) => !sameId(r.user_id, userId)), row];
+      return { ...row };
+    },
+
+    async listRoles() {
+      return state.userRoles
+        .filter((r) => r.role !== 'observer')
+        .map((r) => ({ user_id: String(r.user_id), role: r.role, granted_by: r.granted_by ?? null, updated_at: r.updated_at ?? null }))
+        .sort((a, b) => a.role.localeCompare(b.role) || a.user_id.localeCompare(b.user_id));
+    }
+  };
+
+  const findNews = (id) => state.news.find((item) => sameId(item.id, id));
+
+  const newsItem = (row) => normalizeNewsRow({
+    ...row,
+    translations: state.newsTranslations.filter((t) => sameId(t.news_id, row.id))
+  });
+
+  // Replaces all translations of an item when `translations` ({ [lang]: { title, content } }) is given.
+  const replaceNewsTranslations = (newsId, translations) => {
+    if (translations === undefined) return;
+    state.newsTranslations = state.newsTranslations.filter((t) => !sameId(t.news_id, newsId));
+    for (const [lang, { title, content }] of Object.entries(translations || {})) {
+      state.newsTranslations.push({ news_id: newsId, lang, title, content: content || '' });
+    }
+  };
+
+  const news = {
+    async list({ limit = 50, includeDrafts = false } = {}) {
+      const items = state.news.map(newsItem).filter((item) => includeDrafts || !item.draft);
+      return sortNewsByDate(items).slice(0, limit);
+    },
+
+    async get(id) {
+      const item = findNews(id);
+      return item ? newsItem(item) : null;
+    },
+
+    async create(item, { createdBy = null } = {}) {
+      const row = {
+        language: 'nl',
+        image_url: null,
+        author: null,
+        license: null,
+        published_date: null,
+        draft: true,
+        ...pickNewsFields(item),
+        id: nextNewsId++,
+        created_by: createdBy,
+        created_at: new Date().toISOString(),
+        updated_at: null
+      };
+      state.news.push(row);
+      replaceNewsTranslations(row.id, item.translations);
+      return newsItem(row);
+    },
+
+    async update(id, item) {
+      const row = findNews(id);
+      if (!row) return null;
+      Object.assign(row, pickNewsFields(item), { updated_at: new Date().toISOString() });
+      replaceNewsTranslations(row.id, item.translations);
+      return newsItem(row);
+    },
+
+    async publish(id) {
+      const row = findNews(id);
+      if (!row) return null;
+      const now = new Date().toISOString();
+      Object.assign(row, { draft: false, published_date: row.published_date || now, updated_at: now });
+      return newsItem(row);
+    },
+
+    async remove(id) {
+      const before = state.news.length;
+      state.news = state.news.filter((item) => !sameId(item.id, id));
+      state.newsTranslations = state.newsTranslations.filter((t) => !sameId(t.news_id, id));
+      return state.news.length < before;
+    }
+  };
+
+  const stats = {
+    async summary() {
+      return summarizeStatsRows({
+        checklists: state.checklists,
+        observations: state.observations,
+        locations: state.locations,
+        totalGridCells: state.gridCells.length
+      });
+    },
+
+    async dwcaRows() {
+      const visited = new Set(state.checklists.map((c) => String(c.grid_cell_id)));
+      return {
+        checklists: state.checklists.map(({ id, grid_cell_id, time_spent_minutes, submitted_at }) => ({
+          id, grid_cell_id, time_spent_minutes, submitted_at
+        })),
+        observations: state.observations.map(({ id, checklist_id, species_name, count, validation_status }) => ({
+          id, checklist_id, species_name, count, validation_status
+        })),
+        locations: state.locations.map(({ checklist_id, location_type }) => ({ checklist_id, location_type })),
+        gridCells: state.gridCells
+          .filter((cell) => visited.has(String(cell.id)))
+          .map((cell) => ({ id: cell.id, ...approximateCentroid(parseGeometry(cell.geom)) })),
+        species: state.taxa.map(({ id, scientific_name }) => ({ id, scientific_name }))
+      };
+    }
+  };
+
+  return { gridCells, checklists, species, observations, photos, users, news, stats };
+};
+
+module.exports = { createMemoryRepositories };
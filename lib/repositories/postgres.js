@@ -0,0 +1,795 @@
+// Repository implementation on a pg Pool (DATABASE_URL). Spatial work is done in PostGIS.
+
+const { LAMBERT72_SRID, toLambert72 } = require('../crs');
+const { fetchDwcaRowsFromPool } = require('../dwca');
+const { fetchGridTileFromPool } = require('../tiles');
+const { summarizeGridCellChecklists, summarizeObserverStats } = require('./common');
+const { DataUnavailableError } = require('./errors');
+const {
+  CHECKLIST_LOCATION_TYPES,
+  NEWS_COLUMNS,
+  normalizeNewsRow,
+  normalizeProfileRow,
+  normalizeSpeciesRow,
+  parseGeometry,
+  pickNewsFields
+} = require('./rows');
+
+// `getPool` is a getter because the backend drops its pool when the startup connectivity check fails.
+const createPostgresRepositories = (getPool) => {
+  const currentPool = () => {
+    const pool = getPool();
+    if (!pool) throw new DataUnavailableError('Postgres pool unavailable');
+    return pool;
+  };
+
+  // Runs fn(client) inside BEGIN/COMMIT, rolling back when it throws.
+  const withTransaction = async (fn) => {
+    const client = await currentPool().connect();
+    try {
+      await client.query('BEGIN');
+      const result = await fn(client);
+      await client.query('COMMIT');
+      return result;
+    } catch (err) {
+      try {
+        await client.query('ROLLBACK');
+      } catch (rollbackErr) {
+        console.error('Postgres rollback failed:', rollbackErr.message);
+      }
+      throw err;
+    } finally {
+      client.release();
+    }
+  };
+
+  // Writes checklist_locations and species_observations rows for a checklist inside an open transaction.
+  // Locations arrive as WGS84 lat/lng and are stored in Belgian Lambert 72.
+  const insertChecklistChildren = async (client, checklistId, locations = {}, species = {}) => {
+    for (const locType of CHECKLIST_LOCATION_TYPES) {
+      if (locations[locType]) {
+        const { x, y } = toLambert72(locations[locType]);
+        await client.query(`
+          INSERT INTO checklist_locations (checklist_id, location_type, geom)
+          VALUES ($1, $2, ST_SetSRID(ST_MakePoint($3, $4), ${LAMBERT72_SRID}))
+        `, [checklistId, locType, x, y]);
+      }
+    }
+
+    // `species` is keyed by taxon id (see species.resolve)
+    for (const [taxonId, count] of Object.entries(species || {})) {
+      if (count > 0) {
+        await client.query(`
+          INSERT INTO species_observations (checklist_id, species_id, species_name, count)
+          SELECT $1, t.id, t.scientific_name, $3
+          FROM taxa t
+          WHERE t.id = $2
+        `, [checklistId, Number(taxonId), count]);
+      }
+    }
+  };
+
+  // Replaces the species of a checklist inside an open transaction. Taxa that stay keep their
+  // species_observations row (only the count changes); a changed count sets it back to pending
+  // (trigger in 0021_reset_validation_on_edit.sql).
+  const replaceObservations = async (client, checklistId, species = {}) => {
+    const kept = Object.entries(species || {}).filter(([, count]) => count > 0);
+    await client.query(`
+      DELETE FROM species_observations
+      WHERE checklist_id = $1 AND NOT (species_id = ANY($2::int[]))
+    `, [checklistId, kept.map(([taxonId]) => Number(taxonId))]);
+    const added = {};
+    for (const [taxonId, count] of kept) {
+      const updated = await client.query(`
+        UPDATE species_observations SET count = $3 WHERE checklist_id = $1 AND species_id = $2
+      `, [checklistId, Number(taxonId), count]);
+      if (updated.rowCount === 0) added[taxonId] = count;
+    }
+    await insertChecklistChildren(client, checklistId, {}, added);
+  };
+
+  // Current state of a checklist (row, locations, species) for checklist_revisions.
+  // Locks the checklist row so concurrent edits cannot interleave. Returns null when not owned/found.
+  const snapshotChecklist = async (client, checklistId, userId) => {
+    const checklistResult = await client.query(`
+      SELECT * FROM checklists WHERE id = $1 AND user_id = $2 FOR UPDATE
+    `, [checklistId, userId]);
+    if (checklistResult.rows.length === 0) return null;
+
+    const locationsResult = await client.query(`
+      SELECT location_type, ST_Y(ST_Transform(geom, 4326)) AS lat, ST_X(ST_Transform(geom, 4326)) AS lng
+      FROM checklist_locations
+      WHERE checklist_id = $1
+    `, [checklistId]);
+
+    const speciesResult = await client.query(`
+      SELECT species_id, species_name, count
+      FROM species_observations
+      WHERE checklist_id = $1
+      ORDER BY species_name
+    `, [checklistId]);
+
+    return {
+      checklist: checklistResult.rows[0],
+      locations: locationsResult.rows,
+      species: speciesResult.rows
+    };
+  };
+
+  const insertRevision = async (client, checklistId, userId, action, snapshot) => {
+    const result = await client.query(`
+      INSERT INTO checklist_revisions (checklist_id, user_id, action, snapshot, created_at)
+      VALUES ($1, $2, $3, $4, NOW())
+      RETURNING id
+    `, [checklistId, userId, action, JSON.stringify(snapshot)]);
+    return result.rows[0].id;
+  };
+
+  const gridCells = {
+    async list({ id = null, bbox = null, withGeometry = true, tolerance = 0, precision = 7 } = {}) {
+      const params = [];
+      const conditions = [];
+      if (bbox) {
+        params.push(...bbox);
+        conditions.push('gc.geom && ST_MakeEnvelope($1, $2, $3, $4, 4326)');
+      }
+      if (id !== null) {
+        params.push(String(id));
+        conditions.push(`gc.id::text = $${params.length}`);
+      }
+      const where = conditions.length ? `WHERE ${conditions.join(' AND ')}` : '';
+      let geometrySelect = '';
+      if (withGeometry) {
+        params.push(tolerance, precision);
+        const tol = `$${params.length - 1}`;
+        const prec = `$${params.length}`;
+        geometrySelect = `
+          ST_AsGeoJSON(
+            CASE WHEN ${tol}::float8 > 0 THEN ST_SimplifyPreserveTopology(gc.geom, ${tol}::float8) ELSE gc.geom END,
+            ${prec}::int
+          )::json AS geometry,`;
+      }
+      const result = await currentPool().query(`
+        SELECT
+          gc.id,${geometrySelect}
+          gc.properties,
+          COALESCE(c.checklist_count, 0) AS checklist_count
+        FROM grid_cells gc
+        LEFT JOIN (
+          SELECT grid_cell_id, COUNT(*)::int AS checklist_count
+          FROM checklists
+          GROUP BY grid_cell_id
+        ) c ON c.grid_cell_id = gc.id
+        ${where}
+      `, params);
+      return result.rows.map((row) => ({
+        id: row.id,
+        properties: row.properties || {},
+        geometry: withGeometry ? row.geometry : undefined,
+        checklist_count: row.checklist_count || 0
+      }));
+    },
+
+    async getGeometry(id) {
+      const result = await currentPool().query(`
+        SELECT ST_AsGeoJSON(ST_Transform(geom, 4326))::json AS geom
+        FROM grid_cells
+        WHERE id::text = $1
+      `, [String(id)]);
+      return result.rows.length ? parseGeometry(result.rows[0].geom) : null;
+    },
+
+    async coverage({ bbox = null } = {}) {
+      const params = [];
+      let where = '';
+      if (bbox) {
+        params.push(...bbox);
+        where = 'WHERE ST_Intersects(ST_Centroid(gc.geom), ST_MakeEnvelope($1, $2, $3, $4, 4326))';
+      }
+      const result = await currentPool().query(`
+        SELECT
+          gc.id,
+          gc.properties,
+          ST_Y(ST_Centroid(gc.geom)) AS lat,
+          ST_X(ST_Centroid(gc.geom)) AS lng,
+          COUNT(c.id)::int AS checklist_count,
+          COALESCE(SUM(c.time_spent_minutes), 0)::int AS total_minutes,
+          COALESCE((
+            SELECT array_agg(DISTINCT cl.location_type ORDER BY cl.location_type)
+            FROM checklist_locations cl
+            JOIN checklists c2 ON c2.id = cl.checklist_id
+            WHERE c2.grid_cell_id = gc.id
+          ), '{}') AS habitats,
+          (
+            SELECT COUNT(DISTINCT so.species_id)::int
+            FROM species_observations so
+            JOIN checklists c3 ON c3.id = so.checklist_id
+            WHERE c3.grid_cell_id = gc.id
+          ) AS species_count
+        FROM grid_cells gc
+        LEFT JOIN checklists c ON c.grid_cell_id = gc.id
+        ${where}
+        GROUP BY gc.id
+      `, params);
+      return result.rows.map((row) => ({
+        id: row.id,
+        properties: row.properties || {},
+        centroid: { lat: Number(row.lat), lng: Number(row.lng) },
+        checklist_count: row.checklist_count,
+        total_minutes: row.total_minutes,
+        habitats: row.habitats || [],
+        species_count: row.species_count
+      }));
+    },
+
+    async detail(id) {
+      const cellResult = await currentPool().query(`
+        SELECT id, properties FROM grid_cells WHERE id::text = $1
+      `, [String(id)]);
+      if (!cellResult.rows.length) return null;
+      const cell = cellResult.rows[0];
+      const checklistsResult = await currentPool().query(`
+        SELECT
+          c.id, c.user_id, c.submitted_at, c.time_spent_minutes,
+          COALESCE((
+            SELECT json_agg(json_build_object('location_type', cl.location_type))
+            FROM checklist_locations cl WHERE cl.checklist_id = c.id
+          ), '[]'::json) AS locations,
+          COALESCE((
+            SELECT json_agg(json_build_object('species_id', so.species_id, 'species_name', so.species_name, 'count', so.count))
+            FROM species_observations so WHERE so.checklist_id = c.id
+          ), '[]'::json) AS species
+        FROM checklists c
+        WHERE c.grid_cell_id = $1
+      `, [cell.id]);
+      return { id: cell.id, properties: cell.properties || {}, ...summarizeGridCellChecklists(checklistsResult.rows) };
+    },
+
+    async version() {
+      const result = await currentPool().query(`
+        SELECT
+          (SELECT COUNT(*) FROM grid_cells) AS cells,
+          (SELECT COUNT(*) FROM checklists) AS checklists,
+          (SELECT COALESCE(MAX(id), 0) FROM checklists) AS latest
+      `);
+      const row = result.rows[0];
+      return `${row.cells}:${row.checklists}:${row.latest}`;
+    },
+
+    async tile(coords) {
+      return fetchGridTileFromPool(currentPool(), coords);
+    }
+  };
+
+  const checklists = {
+    async create({ userId, gridCellId, timeSpentMinutes, locations = {}, species = {}, submissionId = null }) {
+      return withTransaction(async (client) => {
+        // ON CONFLICT covers both a replay and a concurrent retry of the same submission id
+        const inserted = await client.query(`
+          INSERT INTO checklists (user_id, grid_cell_id, time_spent_minutes, submitted_at, submission_id)
+          VALUES ($1, $2, $3, NOW(), $4)
+          ON CONFLICT (user_id, submission_id) DO NOTHING
+          RETURNING id
+        `, [userId, gridCellId, timeSpentMinutes, submissionId]);
+
+        if (inserted.rows.length === 0) {
+          const existing = await client.query(`
+            SELECT id FROM checklists WHERE user_id = $1 AND submission_id = $2
+          `, [userId, submissionId]);
+          return { id: existing.rows[0] ? existing.rows[0].id : null, duplicate: true };
+        }
+
+        const checklistId = inserted.rows[0].id;
+        await insertChecklistChildren(client, checklistId, locations, species);
+        return { id: checklistId, duplicate: false };
+      });
+    },
+
+    async listForUser(userId) {
+      const result = await currentPool().query(`
+        SELECT
+          c.id,
+          c.grid_cell_id,
+          c.time_spent_minutes,
+          c.submitted_at,
+          COUNT(DISTINCT cl.id)::int AS location_count,
+          COUNT(DISTINCT so.id)::int AS species_count
+        FROM checklists c
+        LEFT JOIN checklist_locations cl ON c.id = cl.checklist_id
+        LEFT JOIN species_observations so ON c.id = so.checklist_id
+        WHERE c.user_id = $1
+        GROUP BY c.id
+        ORDER BY c.submitted_at DESC
+      `, [userId]);
+      return result.rows;
+    },
+
+    async getForUser(checklistId, userId) {
+      const pool = currentPool();
+      const checklistResult = await pool.query(`
+        SELECT * FROM checklists WHERE id = $1 AND user_id = $2
+      `, [checklistId, userId]);
+      if (checklistResult.rows.length === 0) return null;
+
+      const locationsResult = await pool.query(`
+        SELECT
+          location_type,
+          ST_Y(ST_Transform(geom, 4326)) AS lat,
+          ST_X(ST_Transform(geom, 4326)) AS lng
+        FROM checklist_locations
+        WHERE checklist_id = $1
+      `, [checklistId]);
+
+      const speciesResult = await pool.query(`
+        SELECT id, species_id, species_name, count, validation_status, validation_comment, validated_at
+        FROM species_observations
+        WHERE checklist_id = $1
+        ORDER BY species_name
+      `, [checklistId]);
+
+      return {
+        ...checklistResult.rows[0],
+        locations: locationsResult.rows,
+        species: speciesResult.rows
+      };
+    },
+
+    async getGridCellId(checklistId, userId) {
+      const result = await currentPool().query(`
+        SELECT grid_cell_id FROM checklists WHERE id = $1 AND user_id = $2
+      `, [checklistId, userId]);
+      return result.rows.length ? result.rows[0].grid_cell_id : null;
+    },
+
+    async update({ checklistId, userId, timeSpentMinutes, species, locations }) {
+      return withTransaction(async (client) => {
+        const snapshot = await snapshotChecklist(client, checklistId, userId);
+        if (!snapshot) return null;
+
+        const revisionId = await insertRevision(client, checklistId, userId, 'update', snapshot);
+
+        await client.query(`
+          UPDATE checklists
+          SET time_spent_minutes = COALESCE($2, time_spent_minutes), updated_at = NOW()
+          WHERE id = $1
+        `, [checklistId, timeSpentMinutes ?? null]);
+
+        if (locations !== undefined) {
+          await client.query('DELETE FROM checklist_locations WHERE checklist_id = $1', [checklistId]);
+        }
+        if (species !== undefined) await replaceObservations(client, checklistId, species);
+        await insertChecklistChildren(client, checklistId, locations || {}, {});
+        return { revisionId };
+      });
+    },
+
+    async remove({ checklistId, userId }) {
+      return withTransaction(async (client) => {
+        const snapshot = await snapshotChecklist(client, checklistId, userId);
+        if (!snapshot) return null;
+        const revisionId = await insertRevision(client, checklistId, userId, 'delete', snapshot);
+        // species_observations and checklist_locations cascade
+        await client.query('DELETE FROM checklists WHERE id = $1', [checklistId]);
+        return { revisionId };
+      });
+    },
+
+    async revisions(checklistId, userId) {
+      const result = await currentPool().query(`
+        SELECT id, checklist_id, action, snapshot, created_at
+        FROM checklist_revisions
+        WHERE checklist_id = $1 AND user_id = $2
+        ORDER BY created_at DESC
+      `, [checklistId, userId]);
+      return result.rows;
+    },
+
+    async statsForUser(userId) {
+      const checklistsResult = await currentPool().query(`
+        SELECT id, grid_cell_id, submitted_at, time_spent_minutes
+        FROM checklists
+        WHERE user_id = $1
+      `, [userId]);
+      const observationsResult = await currentPool().query(`
+        SELECT so.species_id, so.species_name, so.count, so.checklist_id, c.user_id, c.grid_cell_id, c.submitted_at
+        FROM species_observations so
+        JOIN checklists c ON c.id = so.checklist_id
+        WHERE so.species_id IN (
+          SELECT so2.species_id
+          FROM species_observations so2
+          JOIN checklists c2 ON c2.id = so2.checklist_id
+          WHERE c2.user_id = $1
+        )
+      `, [userId]);
+      return summarizeObserverStats(userId, checklistsResult.rows, observationsResult.rows);
+    }
+  };
+
+  const species = {
+    async list() {
+      const result = await currentPool().query(`
+        SELECT t.id, t.scientific_name, t.dutch_name, t.french_name, t.english_name, COUNT(so.id)::int AS observation_count
+        FROM taxa t
+        LEFT JOIN species_observations so ON so.species_id = t.id
+        GROUP BY t.id
+        ORDER BY observation_count DESC, t.scientific_name
+      `);
+      return result.rows.map((row, idx) => normalizeSpeciesRow(row, idx));
+    },
+
+    async resolve(keys) {
+      const result = await currentPool().query(`
+        SELECT k.key, t.id, t.scientific_name
+        FROM unnest($1::text[]) AS k(key)
+        LEFT JOIN taxa t ON t.id = resolve_taxon_id(k.key)
+      `, [keys.map(String)]);
+      const resolved = {};
+      for (const row of result.rows) {
+        resolved[row.key] = row.id === null ? null : { id: row.id, scientific_name: row.scientific_name };
+      }
+      return resolved;
+    },
+
+    async catalog() {
+      const result = await currentPool().query(`
+        SELECT
+          t.id, t.scientific_name, t.dutch_name, t.french_name, t.english_name,
+          COALESCE((SELECT array_agg(s.name) FROM taxon_synonyms s WHERE s.taxon_id = t.id), '{}') AS synonyms,
+          (SELECT COUNT(*)::int FROM species_observations so WHERE so.species_id = t.id) AS observation_count
+        FROM taxa t
+      `);
+      return result.rows;
+    },
+
+    async distribution(taxonId, { withGeometry = true, tolerance = 0, precision = 7 } = {}) {
+      const params = [Number(taxonId)];
+      let geometrySelect = '';
+      if (withGeometry) {
+        params.push(tolerance, precision);
+        geometrySelect = `
+          ST_AsGeoJSON(
+            CASE WHEN $2::float8 > 0 THEN ST_SimplifyPreserveTopology(gc.geom, $2::float8) ELSE gc.geom END,
+            $3::int
+          )::json AS geometry,`;
+      }
+      const result = await currentPool().query(`
+        SELECT
+          gc.id,${geometrySelect}
+          gc.properties,
+          d.first_year,
+          d.last_year,
+          d.total_count,
+          d.record_count,
+          (SELECT COUNT(*)::int FROM checklists c WHERE c.grid_cell_id = gc.id) AS checklist_count
+        FROM (
+          SELECT
+            c.grid_cell_id,
+            EXTRACT(YEAR FROM MIN(c.submitted_at))::int AS first_year,
+            EXTRACT(YEAR FROM MAX(c.submitted_at))::int AS last_year,
+            COALESCE(SUM(so.count), 0)::int AS total_count,
+            COUNT(*)::int AS record_count
+          FROM species_observations so
+          JOIN checklists c ON c.id = so.checklist_id
+          WHERE so.species_id = $1 AND so.validation_status = 'accepted'
+          GROUP BY c.grid_cell_id
+        ) d
+        JOIN grid_cells gc ON gc.id = d.grid_cell_id
+      `, params);
+      return result.rows.map((row) => ({
+        id: row.id,
+        properties: row.properties || {},
+        geometry: withGeometry ? row.geometry : undefined,
+        checklist_count: row.checklist_count || 0,
+        first_year: row.first_year,
+        last_year: row.last_year,
+        total_count: row.total_count,
+        record_count: row.record_count
+      }));
+    }
+  };
+
+  const observations = {
+    async listForValidation({ status = null, taxonId = null, gridCellIds = null, limit = 50, offset = 0 } = {}) {
+      const params = [];
+      const conditions = [];
+      if (status) {
+        params.push(status);
+        conditions.push(`so.validation_status = $${params.length}`);
+      }
+      if (taxonId !== null) {
+        params.push(Number(taxonId));
+        conditions.push(`so.species_id = $${params.length}`);
+      }
+      if (gridCellIds) {
+        params.push(gridCellIds.map(String));
+        conditions.push(`c.grid_cell_id = ANY($${params.length}::text[])`);
+      }
+      params.push(limit, offset);
+      const where = conditions.length ? `WHERE ${conditions.join(' AND ')}` : '';
+      const result = await currentPool().query(`
+        SELECT
+          so.id, so.checklist_id, so.species_id, so.species_name, so.count,
+          so.validation_status, so.validation_comment, so.validated_by, so.validated_at,
+          c.user_id, c.grid_cell_id, c.submitted_at
+        FROM species_observations so
+        JOIN checklists c ON c.id = so.checklist_id
+        ${where}
+        ORDER BY so.id
+        LIMIT $${params.length - 1} OFFSET $${params.length}
+      `, params);
+      return result.rows;
+    },
+
+    async setValidation({ observationId, status, comment = null, validatorId }) {
+      const result = await currentPool().query(`
+        UPDATE species_observations so
+        SET validation_status = $2, validation_comment = $3, validated_by = $4, validated_at = NOW()
+        FROM checklists c
+        WHERE so.id = $1 AND c.id = so.checklist_id
+        RETURNING
+          so.id, so.checklist_id, so.species_id, so.species_name, so.count,
+          so.validation_status, so.validation_comment, so.validated_by, so.validated_at,
+          c.user_id, c.grid_cell_id, c.submitted_at
+      `, [Number(observationId), status, comment, String(validatorId)]);
+      return result.rows[0] || null;
+    }
+  };
+
+  const photos = {
+    async create(photo) {
+      const result = await currentPool().query(`
+        INSERT INTO observation_photos (
+          observation_id, user_id, storage_key, thumbnail_key, content_type, width, height, size_bytes,
+          original_filename, taken_at, lat, lng
+        )
+        VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12)
+        RETURNING id, observation_id, user_id, storage_key, thumbnail_key, content_type, width, height, size_bytes, original_filename, taken_at, lat, lng, created_at
+      `, [
+        Number(photo.observationId), String(photo.userId), photo.storageKey, photo.thumbnailKey,
+        photo.contentType || 'image/jpeg', photo.width ?? null, photo.height ?? null, photo.sizeBytes ?? null,
+        photo.originalFilename ?? null, photo.takenAt ?? null, photo.lat ?? null, photo.lng ?? null
+      ]);
+      return result.rows[0];
+    },
+
+    async listForObservations(observationIds) {
+      if (!observationIds.length) return [];
+      const result = await currentPool().query(`
+        SELECT id, observation_id, user_id, storage_key, thumbnail_key, content_type, width, height, size_bytes, original_filename, taken_at, lat, lng, created_at
+        FROM observation_photos
+        WHERE observation_id = ANY($1::int[])
+        ORDER BY id
+      `, [observationIds.map(Number)]);
+      return result.rows;
+    }
+  };
+
+  const users = {
+    // The profile of userId or of the account linked to it, else the bare legacy account.
+    async get(userId) {
+      const profile = await currentPool().query(`
+        SELECT p.user_id, p.email, p.display_name, p.locale, p.created_at, u.email AS legacy_email, u.name AS legacy_name
+        FROM user_profiles p
+        LEFT JOIN users u ON u.id::text = p.legacy_user_id
+        WHERE p.user_id = $1 OR p.legacy_user_id = $1
+        ORDER BY (p.user_id = $1) DESC
+        LIMIT 1
+      `, [String(userId)]);
+      if (profile.rows.length) {
+        const { legacy_email: email, legacy_name: name, ...row } = profile.rows[0];
+        return normalizeProfileRow(row, { email, name });
+      }
+      const result = await currentPool().query(`
+        SELECT id::text AS id, email, name, NULL AS locale, created_at FROM users WHERE id::text = $1
+      `, [String(userId)]);
+      return result.rows[0] || null;
+    },
+
+    async findLegacyAccount(email) {
+      const result = await currentPool().query(`
+        SELECT id::text AS id, email, name, created_at FROM users WHERE lower(email) = lower($1) ORDER BY id LIMIT 1
+      `, [String(email)]);
+      return result.rows[0] || null;
+    },
+
+    async saveProfile({ userId, email = null, name = null, locale = null, createdAt = null, legacyUserId = null }) {
+      await currentPool().query(`
+        INSERT INTO user_profiles (user_id, legacy_user_id, email, display_name, locale, created_at, updated_at)
+        VALUES ($1, $2, $3, $4, $5, COALESCE($6::timestamptz, NOW()), NOW())
+        ON CONFLICT (user_id) DO UPDATE SET
+          legacy_user_id = COALESCE(EXCLUDED.legacy_user_id, user_profiles.legacy_user_id),
+          email = COALESCE(EXCLUDED.email, user_profiles.email),
+          display_name = COALESCE(EXCLUDED.display_name, user_profiles.display_name),
+          locale = COALESCE(EXCLUDED.locale, user_profiles.locale),
+          created_at = LEAST(user_profiles.created_at, EXCLUDED.created_at),
+          updated_at = NOW()
+      `, [String(userId), legacyUserId != null ? String(legacyUserId) : null, email, name, locale, createdAt]);
+      return users.get(userId);
+    },
+
+    async names(userIds) {
+      const result = await currentPool().query(`
+        SELECT k.id, COALESCE(
+          (SELECT COALESCE(p.display_name, lu.name)
+           FROM user_profiles p
+           LEFT JOIN users lu ON lu.id::text = p.legacy_user_id
+           WHERE p.user_id = k.id OR p.legacy_user_id = k.id
+           ORDER BY (p.user_id = k.id) DESC
+           LIMIT 1),
+          (SELECT u.name FROM users u WHERE u.id::text = k.id)
+        ) AS name
+        FROM unnest($1::text[]) AS k(id)
+      `, [[...new Set(userIds.map(String))]]);
+      return Object.fromEntries(result.rows.filter((row) => row.name).map((row) => [row.id, row.name]));
+    },
+
+    async getRole(userId) {
+      const result = await currentPool().query(`
+        SELECT role FROM user_roles WHERE user_id = $1
+      `, [String(userId)]);
+      return result.rows.length ? result.rows[0].role : null;
+    },
+
+    async setRole({ userId, role, grantedBy = null }) {
+      const result = await currentPool().query(`
+        INSERT INTO user_roles (user_id, role, granted_by, updated_at)
+        VALUES ($1, $2, $3, NOW())
+        ON CONFLICT (user_id) DO UPDATE
+          SET role = EXCLUDED.role, granted_by = EXCLUDED.granted_by, updated_at = NOW()
+        RETURNING user_id, role, granted_by, updated_at
+      `, [String(userId), role, grantedBy]);
+      return result.rows[0];
+    },
+
+    async listRoles() {
+      const result = await currentPool().query(`
+        SELECT user_id, role, granted_by, updated_at
+        FROM user_roles
+        WHERE role <> 'observer'
+        ORDER BY role, user_id
+      `);
+      return result.rows;
+    }
+  };
+
+  // News columns plus the item's translations as a JSON array of news_translations rows.
+  const NEWS_SELECT = `
+    SELECT ${NEWS_COLUMNS},
+      COALESCE((
+        SELECT jsonb_agg(jsonb_build_object('lang', t.lang, 'title', t.title, 'content', t.content) ORDER BY t.lang)
+        FROM news_translations t
+        WHERE t.news_id = news.id
+      ), '[]'::jsonb) AS translations
+    FROM news
+  `;
+
+  const getNews = async (db, id) => {
+    const result = await db.query(`${NEWS_SELECT} WHERE id = $1`, [Number(id)]);
+    return result.rows[0] ? normalizeNewsRow(result.rows[0]) : null;
+  };
+
+  // Replaces all translations of an item when `translations` ({ [lang]: { title, content } }) is given.
+  const replaceNewsTranslations = async (client, newsId, translations) => {
+    if (translations === undefined) return;
+    await client.query('DELETE FROM news_translations WHERE news_id = $1', [newsId]);
+    for (const [lang, { title, content }] of Object.entries(translations || {})) {
+      await client.query(
+        'INSERT INTO news_translations (news_id, lang, title, content) VALUES ($1, $2, $3, $4)',
+        [newsId, lang, title, content || '']
+      );
+    }
+  };
+
+  const news = {
+    async list({ limit = 50, includeDrafts = false } = {}) {
+      const result = await currentPool().query(`
+        ${NEWS_SELECT}
+        WHERE $2 OR draft = false
+        ORDER BY COALESCE(published_date, created_at) DESC, id DESC
+        LIMIT $1
+      `, [limit, includeDrafts]);
+      return result.rows.map(normalizeNewsRow);
+    },
+
+    async get(id) {
+      return getNews(currentPool(), id);
+    },
+
+    async create(item, { createdBy = null } = {}) {
+      const fields = { ...pickNewsFields(item), created_by: createdBy };
+      const columns = Object.keys(fields);
+      return withTransaction(async (client) => {
+        const result = await client.query(`
+          INSERT INTO news (${columns.join(', ')})
+          VALUES (${columns.map((_, i) => `$${i + 1}`).join(', ')})
+          RETURNING id
+        `, Object.values(fields));
+        const { id } = result.rows[0];
+        await replaceNewsTranslations(client, id, item.translations);
+        return getNews(client, id);
+      });
+    },
+
+    async update(id, item) {
+      const fields = pickNewsFields(item);
+      const columns = Object.keys(fields);
+      return withTransaction(async (client) => {
+        const result = await client.query(`
+          UPDATE news
+          SET ${columns.map((column, i) => `${column} = $${i + 2}`).concat('updated_at = NOW()').join(', ')}
+          WHERE id = $1
+          RETURNING id
+        `, [Number(id), ...Object.values(fields)]);
+        if (!result.rows[0]) return null;
+        await replaceNewsTranslations(client, Number(id), item.translations);
+        return getNews(client, id);
+      });
+    },
+
+    async publish(id) {
+      const result = await currentPool().query(`
+        UPDATE news
+        SET draft = false, published_date = COALESCE(published_date, NOW()), updated_at = NOW()
+        WHERE id = $1
+        RETURNING id
+      `, [Number(id)]);
+      return result.rows[0] ? getNews(currentPool(), id) : null;
+    },
+
+    async remove(id) {
+      const result = await currentPool().query('DELETE FROM news WHERE id = $1', [Number(id)]);
+      return result.rowCount > 0;
+    }
+  };
+
+  const stats = {
+    async summary() {
+      const pool = currentPool();
+      const [totals, byYear, byHabitat] = await Promise.all([
+        pool.query(`
+          SELECT
+            (SELECT COUNT(*)::int FROM checklists) AS checklists,
+            (SELECT COUNT(DISTINCT grid_cell_id)::int FROM checklists) AS visited_grid_cells,
+            (SELECT COUNT(*)::int FROM grid_cells) AS total_grid_cells,
+            (SELECT COUNT(DISTINCT so.species_name)::int
+               FROM species_observations so
+               JOIN checklists c ON c.id = so.checklist_id
+              WHERE so.count > 0) AS species_recorded,
+            (SELECT COUNT(DISTINCT user_id)::int FROM checklists) AS observers
+        `),
+        pool.query(`
+          SELECT
+            EXTRACT(YEAR FROM c.submitted_at)::int AS year,
+            COUNT(DISTINCT c.id)::int AS checklists,
+            COUNT(DISTINCT c.grid_cell_id)::int AS visited_grid_cells,
+            COUNT(DISTINCT so.species_name)::int AS species_recorded,
+            COUNT(DISTINCT c.user_id)::int AS observers
+          FROM checklists c
+          LEFT JOIN species_observations so ON so.checklist_id = c.id AND so.count > 0
+          WHERE c.submitted_at IS NOT NULL
+          GROUP BY 1
+          ORDER BY 1
+        `),
+        pool.query(`
+          SELECT
+            CASE WHEN lower(cl.location_type) = 'urban' THEN 'anthropogenous' ELSE lower(cl.location_type) END AS habitat,
+            COUNT(DISTINCT cl.checklist_id)::int AS checklists,
+            COUNT(DISTINCT c.grid_cell_id)::int AS visited_grid_cells
+          FROM checklist_locations cl
+          JOIN checklists c ON c.id = cl.checklist_id
+          GROUP BY 1
+          ORDER BY 1
+        `)
+      ]);
+      return { ...totals.rows[0], by_year: byYear.rows, by_habitat: byHabitat.rows };
+    },
+
+    async dwcaRows() {
+      return fetchDwcaRowsFromPool(currentPool());
+    }
+  };
+
+  return { gridCells, checklists, species, observations, photos, users, news, stats };
+};
+
+module.exports = { createPostgresRepositories };
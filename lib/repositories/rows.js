@@ -0,0 +1,160 @@
+// Row shapes shared by the repository implementations and the routes.
+// Supabase tables have been imported from several sources over time, hence the alternative column names.
+
+// News items as stored since 0014_news.sql, which copied the older imported column names into these.
+// title and content are in `language`; translations into the other languages live in news_translations.
+const NEWS_COLUMNS = 'id, title, content, language, image_url, author, license, published_date, draft, created_by, created_at, updated_at';
+
+// Fields an editor writes (POST/PUT /api/admin/news); the rest is managed by the backend.
+const NEWS_FIELDS = ['title', 'content', 'language', 'image_url', 'author', 'license', 'published_date', 'draft'];
+
+// news_translations rows ({ lang, title, content }) -> { [lang]: { title, content } }
+const newsTranslationsByLang = (rows) => Object.fromEntries(
+  (rows || []).map((row) => [row.lang, { title: row.title, content: row.content || '' }])
+);
+
+const normalizeNewsRow = (row) => ({
+  id: row.id,
+  title: row.title,
+  content: row.content || '',
+  language: row.language || 'nl',
+  translations: newsTranslationsByLang(row.translations),
+  published_date: row.published_date || null,
+  image_url: row.image_url || null,
+  author: row.author || null,
+  license: row.license || null,
+  draft: Boolean(row.draft),
+  created_at: row.created_at || null,
+  updated_at: row.updated_at || null
+});
+
+// The editor fields present in `item`, for inserts and partial updates.
+const pickNewsFields = (item = {}) => Object.fromEntries(
+  NEWS_FIELDS.filter((field) => item[field] !== undefined).map((field) => [field, item[field]])
+);
+
+// Newest first; drafts without a publication date go by their creation date.
+const sortNewsByDate = (items) => items.sort((a, b) => {
+  const aDate = new Date(a.published_date || a.created_at || 0).getTime();
+  const bDate = new Date(b.published_date || b.created_at || 0).getTime();
+  return bDate - aDate || Number(b.id) - Number(a.id);
+});
+
+// user_profiles (0017_user_profiles.sql): one per person, keyed by the Supabase user id, linked to the legacy
+// users row of the same address through legacy_user_id.
+const PROFILE_COLUMNS = 'user_id, legacy_user_id, email, display_name, locale, created_at, updated_at';
+
+// A profile as the routes see it; `legacy` is the linked users row, whose name stands in for a missing one.
+const normalizeProfileRow = (row, legacy = null) => ({
+  id: String(row.user_id),
+  email: row.email || (legacy && legacy.email) || null,
+  name: row.display_name || (legacy && legacy.name) || null,
+  locale: row.locale || null,
+  created_at: row.created_at || null
+});
+
+// The user_profiles row after saveProfile({ email, name, locale, createdAt, legacyUserId }): missing values keep
+// what is stored and the profile dates from the earliest account it covers.
+const mergeProfileRow = (existing, { userId, email = null, name = null, locale = null, createdAt = null, legacyUserId = null }) => {
+  const dates = [existing && existing.created_at, createdAt].filter(Boolean).map((value) => new Date(value).getTime());
+  return {
+    user_id: String(userId),
+    legacy_user_id: legacyUserId != null ? String(legacyUserId) : (existing && existing.legacy_user_id) || null,
+    email: email || (existing && existing.email) || null,
+    display_name: name || (existing && existing.display_name) || null,
+    locale: locale || (existing && existing.locale) || null,
+    created_at: dates.length ? new Date(Math.min(...dates)).toISOString() : new Date().toISOString(),
+    updated_at: new Date().toISOString()
+  };
+};
+
+const normalizeSpeciesRow = (row, idx = 0) => {
+  const id = row.id ?? row.species_id ?? row.slug_id ?? idx + 1;
+  const scientificName = row.scientific_name || row.scientificName || row.species || row.name || row.title || '';
+  const dutchName = row.dutch_name || row.dutchName || row.common_name || row.dutch || null;
+  const frenchName = row.french_name || row.frenchName || null;
+  const englishName = row.english_name || row.englishName || null;
+  const observationCount = parseInt(
+    row.observation_count ?? row.count ?? row.observationCount ?? row.observations ?? 0,
+    10
+  ) || 0;
+  return {
+    id,
+    scientific_name: scientificName,
+    dutch_name: dutchName,
+    french_name: frenchName,
+    english_name: englishName,
+    observation_count: observationCount
+  };
+};
+
+const sortSpeciesByObservations = (items) => items.sort((a, b) => (
+  ((b.observation_count || 0) - (a.observation_count || 0)) || String(a.scientific_name).localeCompare(String(b.scientific_name))
+));
+
+const parseGeometry = (value) => {
+  if (!value) return null;
+  if (typeof value === 'object') return value;
+  if (typeof value === 'string') {
+    try {
+      return JSON.parse(value);
+    } catch (_err) {
+      return null;
+    }
+  }
+  return null;
+};
+
+const normalizeGridCellRow = (row, idx = 0) => {
+  const id = row.id ?? row.grid_id ?? row.name ?? `cell-${idx}`;
+  const properties = row.properties || {};
+  const geometry = row.geometry || row.geom || row.geojson || row.geo_json || null;
+  const parsedGeometry = parseGeometry(geometry);
+  if (!parsedGeometry) return null;
+  return {
+    type: 'Feature',
+    id,
+    geometry: parsedGeometry,
+    properties
+  };
+};
+
+const gridCellLabel = (id, properties = {}) => properties.name || properties.grid_id || properties.code || `Grid ${id}`;
+
+// Habitat keys stored in checklist_locations.
+const CHECKLIST_LOCATION_TYPES = ['forest', 'swamp', 'anthropogenous'];
+
+// The frontend labels the anthropogenous habitat "urban"; accept either key.
+const normalizeChecklistLocations = (locations = {}) => {
+  const normalized = { ...locations };
+  if (!normalized.anthropogenous && normalized.urban) {
+    normalized.anthropogenous = normalized.urban;
+  }
+  return normalized;
+};
+
+// The RPC stores both `urban` and `anthropogenous` for the same point; report them as one habitat.
+const normalizeHabitatKey = (locationType) => {
+  const key = String(locationType || '').toLowerCase();
+  return key === 'urban' ? 'anthropogenous' : key;
+};
+
+module.exports = {
+  CHECKLIST_LOCATION_TYPES,
+  NEWS_COLUMNS,
+  NEWS_FIELDS,
+  PROFILE_COLUMNS,
+  gridCellLabel,
+  mergeProfileRow,
+  normalizeChecklistLocations,
+  normalizeGridCellRow,
+  normalizeHabitatKey,
+  newsTranslationsByLang,
+  normalizeNewsRow,
+  normalizeProfileRow,
+  normalizeSpeciesRow,
+  parseGeometry,
+  pickNewsFields,
+  sortNewsByDate,
+  sortSpeciesByObservations
+};
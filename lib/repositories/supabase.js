@@ -0,0 +1,809 @@
+// Repository implementation on the Supabase service client. Writes go through the RPCs in supabase/migrations
+// so they are transactional; reads that need PostGIS work are done in JavaScript (see ./common), except for the
+// bounding box lookups, which use the grid_cells_in_bbox RPC when it exists.
+
+const { lambert72PointEwkt } = require('../crs');
+const { approximateCentroid } = require('../dwca');
+const { buildGridTileIndex, encodeGridTile } = require('../tiles');
+const {
+  countByGridCell,
+  distributionByGridCell,
+  gridCellCoverageRows,
+  gridCellTileFeatures,
+  resolveTaxonKey,
+  selectGridCellRows,
+  selectValidationRows,
+  summarizeGridCellChecklists,
+  summarizeObserverStats,
+  summarizeStatsRows
+} = require('./common');
+const {
+  CHECKLIST_LOCATION_TYPES,
+  NEWS_COLUMNS,
+  PROFILE_COLUMNS,
+  mergeProfileRow,
+  normalizeNewsRow,
+  normalizeProfileRow,
+  pickNewsFields,
+  normalizeSpeciesRow,
+  parseGeometry,
+  sortNewsByDate,
+  sortSpeciesByObservations
+} = require('./rows');
+
+// Supabase caps select responses (1000 rows by default), so page through larger tables.
+const SUPABASE_PAGE_SIZE = 1000;
+
+// The in-memory tile index is rebuilt when gridCells.version() changes,
+// or after GRID_TILE_INDEX_TTL_MS when no version is known.
+const GRID_TILE_INDEX_TTL_MS = 5 * 60 * 1000;
+
+// Grid cells are fetched by id in chunks so the `in` filter stays within URL length limits.
+const GRID_CELL_ID_CHUNK_SIZE = 200;
+
+// species.catalog() pages through taxa, synonyms and observations, so search keystrokes reuse it for a while.
+const SPECIES_CATALOG_TTL_MS = 60 * 1000;
+
+// update_checklist / delete_checklist raise P0002 when the checklist is missing or owned by someone else.
+const isRpcNotFound = (rpcErr) => rpcErr && (rpcErr.code === 'P0002' || /not found/i.test(rpcErr.message || ''));
+
+// PostgREST answers PGRST202 when an RPC has not been created in the project.
+const isRpcMissing = (rpcErr) => rpcErr && rpcErr.code === 'PGRST202';
+
+const OBSERVATION_VALIDATION_COLUMNS = 'id, checklist_id, species_id, species_name, count, validation_status, '
+  + 'validation_comment, validated_by, validated_at, checklists!inner(user_id, grid_cell_id, submitted_at)';
+
+const PHOTO_COLUMNS = 'id, observation_id, user_id, storage_key, thumbnail_key, content_type, width, height, size_bytes, original_filename, taken_at, lat, lng, created_at';
+
+// Flattens the embedded checklist of an OBSERVATION_VALIDATION_COLUMNS row.
+const flattenObservationRow = ({ checklists: checklist, ...row }) => ({ ...row, ...checklist });
+
+// Row count from an embedded `relation(count)` select, e.g. checklist_locations(count).
+const embeddedCount = (value) => (Array.isArray(value) && value.length ? Number(value[0].count) || 0 : 0);
+
+const createSupabaseRepositories = (supabase) => {
+  // `filter` optionally narrows the query, e.g. (query) => query.eq('species_id', 3).
+  const fetchAllRows = async (table, columns, filter = (query) => query) => {
+    const rows = [];
+    for (let from = 0; ; from += SUPABASE_PAGE_SIZE) {
+      const { data, error } = await filter(supabase.from(table).select(columns))
+        .range(from, from + SUPABASE_PAGE_SIZE - 1);
+      if (error) throw error;
+      if (!Array.isArray(data) || !data.length) break;
+      rows.push(...data);
+      if (data.length < SUPABASE_PAGE_SIZE) break;
+    }
+    return rows;
+  };
+
+  const fetchGridCellsById = async (ids, columns) => {
+    const cells = [];
+    for (let i = 0; i < ids.length; i += GRID_CELL_ID_CHUNK_SIZE) {
+      const { data, error } = await supabase
+        .from('grid_cells')
+        .select(columns)
+        .in('id', ids.slice(i, i + GRID_CELL_ID_CHUNK_SIZE));
+      if (error) throw error;
+      cells.push(...(data || []));
+    }
+    return cells;
+  };
+
+  // Cells in bbox through the grid_cells_in_bbox RPC (0020_grid_cells_in_bbox.sql); null when the project does
+  // not have it yet, in which case callers filter all cells themselves.
+  const fetchGridCellsInBbox = async (bbox, columns, { byCentroid = false } = {}) => {
+    const [minLng, minLat, maxLng, maxLat] = bbox;
+    const args = { min_lng: minLng, min_lat: minLat, max_lng: maxLng, max_lat: maxLat, by_centroid: byCentroid };
+    const rows = [];
+    for (let from = 0; ; from += SUPABASE_PAGE_SIZE) {
+      const { data, error } = await supabase
+        .rpc('grid_cells_in_bbox', args)
+        .select(columns)
+        .order('id')
+        .range(from, from + SUPABASE_PAGE_SIZE - 1);
+      if (isRpcMissing(error)) {
+        console.warn('Supabase RPC grid_cells_in_bbox missing; filtering all grid cells');
+        return null;
+      }
+      if (error) throw error;
+      if (!Array.isArray(data) || !data.length) break;
+      rows.push(...data);
+      if (data.length < SUPABASE_PAGE_SIZE) break;
+    }
+    return rows;
+  };
+
+  const fetchChecklistCounts = async () => countByGridCell(await fetchAllRows('checklists', 'grid_cell_id'));
+
+  let tileIndexCache = null;
+  let catalogCache = null;
+
+  const gridCells = {
+    async list({ id = null, bbox = null, withGeometry = true, tolerance = 0, precision = 7 } = {}) {
+      let rows = null;
+      let filterBbox = bbox;
+      if (id === null && bbox) {
+        rows = await fetchGridCellsInBbox(bbox, withGeometry ? 'id, geom, properties' : 'id, properties');
+        if (rows) filterBbox = null;
+      }
+      if (!rows) {
+        const columns = withGeometry || filterBbox ? 'id, geom, properties' : 'id, properties';
+        if (id !== null) {
+          const { data, error } = await supabase.from('grid_cells').select(columns).eq('id', id);
+          if (error) throw error;
+          rows = data || [];
+        } else {
+          rows = await fetchAllRows('grid_cells', columns);
+        }
+      }
+      const counts = await fetchChecklistCounts();
+      return selectGridCellRows(rows, counts, { bbox: filterBbox, withGeometry, tolerance, precision });
+    },
+
+    async getGeometry(id) {
+      const { data, error } = await supabase
+        .from('grid_cells')
+        .select('id, geom')
+        .eq('id', id)
+        .limit(1)
+        .maybeSingle();
+      if (error) throw error;
+      return data ? parseGeometry(data.geom) : null;
+    },
+
+    // With a bbox, checklists are fetched for the matching cells only when they fit in one `in` filter.
+    async coverage({ bbox = null } = {}) {
+      const inBbox = bbox ? await fetchGridCellsInBbox(bbox, 'id, geom, properties', { byCentroid: true }) : null;
+      const cells = inBbox || await fetchAllRows('grid_cells', 'id, geom, properties');
+      if (!cells.length) return [];
+      const ids = cells.map((cell) => String(cell.id));
+      const rows = await fetchAllRows(
+        'checklists',
+        'grid_cell_id, time_spent_minutes, checklist_locations(location_type), species_observations(species_id)',
+        (query) => (inBbox && ids.length <= GRID_CELL_ID_CHUNK_SIZE ? query.in('grid_cell_id', ids) : query)
+      );
+      const cellChecklists = rows.map(({ checklist_locations: locations, species_observations: species, ...c }) => ({
+        ...c,
+        locations,
+        species
+      }));
+      return gridCellCoverageRows(cells, cellChecklists, { bbox: inBbox ? null : bbox });
+    },
+
+    async detail(id) {
+      const { data: cell, error } = await supabase
+        .from('grid_cells')
+        .select('id, properties')
+        .eq('id', id)
+        .limit(1)
+        .maybeSingle();
+      if (error) throw error;
+      if (!cell) return null;
+      const rows = await fetchAllRows(
+        'checklists',
+        'id, user_id, submitted_at, time_spent_minutes, checklist_locations(location_type), species_observations(species_id, species_name, count)',
+        (query) => query.eq('grid_cell_id', cell.id)
+      );
+      const cellChecklists = rows.map(({ checklist_locations: locations, species_observations: species, ...c }) => ({
+        ...c,
+        locations,
+        species
+      }));
+      return { id: cell.id, properties: cell.properties || {}, ...summarizeGridCellChecklists(cellChecklists) };
+    },
+
+    async version() {
+      const [cells, checklists, latest] = await Promise.all([
+        supabase.from('grid_cells').select('id', { count: 'exact', head: true }),
+        supabase.from('checklists').select('id', { count: 'exact', head: true }),
+        supabase.from('checklists').select('id').order('id', { ascending: false }).limit(1)
+      ]);
+      const error = cells.error || checklists.error || latest.error;
+      if (error) throw error;
+      const latestId = Array.isArray(latest.data) && latest.data.length ? latest.data[0].id : 0;
+      return `${cells.count}:${checklists.count}:${latestId}`;
+    },
+
+    async tile(coords, { version = null } = {}) {
+      const cached = tileIndexCache;
+      const fresh = cached && (version ? cached.version === version : Date.now() - cached.builtAt < GRID_TILE_INDEX_TTL_MS);
+      let index = fresh ? cached.index : null;
+      if (!fresh) {
+        const rows = await fetchAllRows('grid_cells', 'id, geom, properties');
+        const features = gridCellTileFeatures(rows, await fetchChecklistCounts());
+        index = features.length ? buildGridTileIndex(features) : null;
+        tileIndexCache = { version, index, builtAt: Date.now() };
+      }
+      return index ? encodeGridTile(index, coords) : null;
+    }
+  };
+
+  const findSubmission = async (userId, submissionId) => {
+    const { data, error } = await supabase
+      .from('checklists')
+      .select('id')
+      .eq('user_id', userId)
+      .eq('submission_id', submissionId)
+      .limit(1)
+      .maybeSingle();
+    if (error) throw error;
+    return data ? data.id : null;
+  };
+
+  // Table inserts for projects without the insert_checklist RPC. Not transactional, so the
+  // checklist row is deleted again when one of its child inserts fails.
+  const createWithoutRpc = async ({ userId, gridCellId, timeSpentMinutes, locations, species, submissionId }) => {
+    if (submissionId) {
+      const existingId = await findSubmission(userId, submissionId);
+      if (existingId) return { id: existingId, duplicate: true };
+    }
+
+    const payload = {
+      user_id: userId,
+      grid_cell_id: gridCellId,
+      time_spent_minutes: timeSpentMinutes,
+      submitted_at: new Date().toISOString()
+    };
+    if (submissionId) payload.submission_id = submissionId;
+
+    const { data, error } = await supabase.from('checklists').insert(payload).select('id').single();
+    if (error && error.code === '23505' && submissionId) {
+      // Lost a race against a concurrent retry of the same submission
+      return { id: await findSubmission(userId, submissionId), duplicate: true };
+    }
+    if (error) throw error;
+    const checklistId = data.id;
+
+    const locationRows = CHECKLIST_LOCATION_TYPES
+      .filter((locType) => locations[locType])
+      .map((locType) => ({
+        checklist_id: checklistId,
+        location_type: locType,
+        geom: lambert72PointEwkt(locations[locType])
+      }));
+    // species_name is replaced by the taxon's scientific name in the species_observations insert trigger
+    const speciesRows = Object.entries(species || {})
+      .filter(([, count]) => Number(count) > 0)
+      .map(([taxonId, count]) => ({
+        checklist_id: checklistId,
+        species_id: Number(taxonId),
+        species_name: String(taxonId),
+        count: Number(count)
+      }));
+
+    try {
+      if (locationRows.length) {
+        const { error: locationsErr } = await supabase.from('checklist_locations').insert(locationRows);
+        if (locationsErr) throw locationsErr;
+      }
+      if (speciesRows.length) {
+        const { error: speciesErr } = await supabase.from('species_observations').insert(speciesRows);
+        if (speciesErr) throw speciesErr;
+      }
+    } catch (err) {
+      const { error: cleanupErr } = await supabase.from('checklists').delete().eq('id', checklistId);
+      if (cleanupErr) console.error('Supabase checklist cleanup failed:', cleanupErr.message || cleanupErr);
+      throw err;
+    }
+    return { id: checklistId, duplicate: false };
+  };
+
+  const checklists = {
+    async create(input) {
+      const { userId, gridCellId, timeSpentMinutes, locations = {}, species = {}, submissionId = null } = input;
+      const payload = {
+        user_id: userId,
+        grid_cell_id: gridCellId,
+        time_spent_minutes: timeSpentMinutes,
+        locations,
+        species,
+        submission_id: submissionId
+      };
+      const { data, error } = await supabase.rpc('insert_checklist', { payload });
+      if (isRpcMissing(error)) {
+        console.warn('Supabase RPC insert_checklist missing; inserting rows directly');
+        return createWithoutRpc({ userId, gridCellId, timeSpentMinutes, locations, species, submissionId });
+      }
+      if (error) throw error;
+      const id = data && data.id ? data.id : (Array.isArray(data) && data.length ? data[0].id : null);
+      return { id, duplicate: Boolean(data && data.duplicate) };
+    },
+
+    async listForUser(userId) {
+      const { data, error } = await supabase
+        .from('checklists')
+        .select('id, grid_cell_id, time_spent_minutes, submitted_at, checklist_locations(count), species_observations(count)')
+        .eq('user_id', userId)
+        .order('submitted_at', { ascending: false });
+      if (error) throw error;
+      return (data || []).map((row) => ({
+        id: row.id,
+        grid_cell_id: row.grid_cell_id,
+        time_spent_minutes: row.time_spent_minutes,
+        submitted_at: row.submitted_at,
+        location_count: embeddedCount(row.checklist_locations),
+        species_count: embeddedCount(row.species_observations)
+      }));
+    },
+
+    async getForUser(checklistId, userId) {
+      const gridCellId = await checklists.getGridCellId(checklistId, userId);
+      if (gridCellId === null) return null;
+      // checklist_snapshot reports locations as WGS84 lat/lng, like the Postgres query
+      const { data, error } = await supabase.rpc('checklist_snapshot', { target_id: Number(checklistId) });
+      if (error) throw error;
+      if (!data) return null;
+      return {
+        ...data.checklist,
+        locations: data.locations || [],
+        species: data.species || []
+      };
+    },
+
+    async getGridCellId(checklistId, userId) {
+      const { data, error } = await supabase
+        .from('checklists')
+        .select('grid_cell_id')
+        .eq('id', checklistId)
+        .eq('user_id', userId)
+        .limit(1)
+        .maybeSingle();
+      if (error) throw error;
+      return data ? data.grid_cell_id : null;
+    },
+
+    async update({ checklistId, userId, timeSpentMinutes, species, locations }) {
+      const payload = { checklist_id: Number(checklistId), user_id: userId };
+      if (timeSpentMinutes !== undefined && timeSpentMinutes !== null) payload.time_spent_minutes = timeSpentMinutes;
+      if (species !== undefined) payload.species = species;
+      if (locations !== undefined) payload.locations = locations;
+      const { data, error } = await supabase.rpc('update_checklist', { payload });
+      if (isRpcNotFound(error)) return null;
+      if (error) throw error;
+      return { revisionId: data?.revision_id ?? null };
+    },
+
+    async remove({ checklistId, userId }) {
+      const payload = { checklist_id: Number(checklistId), user_id: userId };
+      const { data, error } = await supabase.rpc('delete_checklist', { payload });
+      if (isRpcNotFound(error)) return null;
+      if (error) throw error;
+      return { revisionId: data?.revision_id ?? null };
+    },
+
+    async revisions(checklistId, userId) {
+      const { data, error } = await supabase
+        .from('checklist_revisions')
+        .select('id, checklist_id, action, snapshot, created_at')
+        .eq('checklist_id', checklistId)
+        .eq('user_id', userId)
+        .order('created_at', { ascending: false });
+      if (error) throw error;
+      return Array.isArray(data) ? data : [];
+    },
+
+    async statsForUser(userId) {
+      const own = await fetchAllRows(
+        'checklists',
+        'id, grid_cell_id, submitted_at, time_spent_minutes, species_observations(species_id)',
+        (query) => query.eq('user_id', userId)
+      );
+      const speciesIds = [...new Set(own.flatMap((c) => (c.species_observations || []).map((o) => o.species_id)))];
+      const rows = speciesIds.length
+        ? await fetchAllRows(
+          'species_observations',
+          'species_id, species_name, count, checklist_id, checklists(user_id, grid_cell_id, submitted_at)',
+          (query) => query.in('species_id', speciesIds)
+        )
+        : [];
+      const observations = rows
+        .filter((row) => row.checklists)
+        .map(({ checklists: checklist, ...row }) => ({ ...row, ...checklist }));
+      return summarizeObserverStats(userId, own.map(({ species_observations: _species, ...c }) => c), observations);
+    }
+  };
+
+  // species.resolve() for projects without 0019_resolve_taxa.sql: fetches only the taxa and synonyms the keys can
+  // match. Scientific names are compared as given and with the usual "Genus species" capitalisation.
+  const resolveWithoutRpc = async (keys) => {
+    const texts = keys.map((key) => String(key ?? '').trim());
+    const ids = texts.filter((text) => /^\d{1,9}$/.test(text)).map(Number);
+    const lower = [...new Set(texts.map((text) => text.toLowerCase()))];
+    const names = [...new Set(texts.concat(lower.map((text) => text.charAt(0).toUpperCase() + text.slice(1))))];
+
+    const [byId, byName, synonyms] = await Promise.all([
+      ids.length ? fetchAllRows('taxa', 'id, scientific_name', (query) => query.in('id', ids)) : [],
+      fetchAllRows('taxa', 'id, scientific_name', (query) => query.in('scientific_name', names)),
+      fetchAllRows('taxon_synonyms', 'name, taxon_id', (query) => query.in('name', lower))
+    ]);
+    const known = new Set(byId.concat(byName).map((taxon) => String(taxon.id)));
+    const synonymIds = [...new Set(synonyms.map((row) => String(row.taxon_id)))].filter((id) => !known.has(id));
+    const synonymTaxa = synonymIds.length
+      ? await fetchAllRows('taxa', 'id, scientific_name', (query) => query.in('id', synonymIds))
+      : [];
+
+    const taxa = byId.concat(byName, synonymTaxa);
+    const resolved = {};
+    for (const key of keys) {
+      const taxon = resolveTaxonKey(key, taxa, synonyms);
+      resolved[key] = taxon ? { id: taxon.id, scientific_name: taxon.scientific_name } : null;
+    }
+    return resolved;
+  };
+
+  const species = {
+    async list() {
+      const { data, error } = await supabase
+        .from('taxa')
+        .select('id, scientific_name, dutch_name, french_name, english_name, species_observations(count)');
+      if (error) throw error;
+      return sortSpeciesByObservations((data || []).map((row, idx) => normalizeSpeciesRow({
+        ...row,
+        observation_count: embeddedCount(row.species_observations)
+      }, idx)));
+    },
+
+    async resolve(keys) {
+      const resolved = {};
+      for (const key of keys) resolved[key] = null;
+      if (!keys.length) return resolved;
+
+      const { data, error } = await supabase.rpc('resolve_taxa', { taxon_keys: keys.map(String) });
+      if (isRpcMissing(error)) {
+        console.warn('Supabase RPC resolve_taxa missing; looking the keys up directly');
+        return resolveWithoutRpc(keys);
+      }
+      if (error) throw error;
+      for (const row of data || []) {
+        resolved[row.taxon_key] = { id: row.id, scientific_name: row.scientific_name };
+      }
+      return resolved;
+    },
+
+    async catalog() {
+      const cached = catalogCache;
+      if (cached && Date.now() - cached.builtAt < SPECIES_CATALOG_TTL_MS) return cached.rows;
+      const [taxa, synonyms, observations] = await Promise.all([
+        fetchAllRows('taxa', 'id, scientific_name, dutch_name, french_name, english_name'),
+        fetchAllRows('taxon_synonyms', 'name, taxon_id'),
+        fetchAllRows('species_observations', 'species_id')
+      ]);
+      const synonymsByTaxon = {};
+      for (const row of synonyms) {
+        const key = String(row.taxon_id);
+        (synonymsByTaxon[key] = synonymsByTaxon[key] || []).push(row.name);
+      }
+      const counts = {};
+      for (const row of observations) {
+        const key = String(row.species_id);
+        counts[key] = (counts[key] || 0) + 1;
+      }
+      const rows = taxa.map((taxon) => ({
+        ...taxon,
+        synonyms: synonymsByTaxon[String(taxon.id)] || [],
+        observation_count: counts[String(taxon.id)] || 0
+      }));
+      catalogCache = { rows, builtAt: Date.now() };
+      return rows;
+    },
+
+    async distribution(taxonId, { withGeometry = true, tolerance = 0, precision = 7 } = {}) {
+      const observations = await fetchAllRows(
+        'species_observations',
+        'count, checklists(grid_cell_id, submitted_at)',
+        (query) => query.eq('species_id', taxonId).eq('validation_status', 'accepted')
+      );
+      const stats = distributionByGridCell(observations
+        .filter((row) => row.checklists)
+        .map((row) => ({ ...row.checklists, count: row.count })));
+      const cells = await fetchGridCellsById(Object.keys(stats), 'id, geom, properties');
+      const counts = await fetchChecklistCounts();
+      return selectGridCellRows(cells, counts, { withGeometry, tolerance, precision })
+        .map((cell) => ({ ...cell, ...stats[String(cell.id)] }));
+    }
+  };
+
+  const observations = {
+    // Filtered, ordered and paged in the query. More grid cells than fit in one `in` filter are queried a chunk
+    // at a time; each chunk only needs its first offset + limit rows, which are then merged and paged here.
+    async listForValidation(options = {}) {
+      const { status = null, taxonId = null, gridCellIds = null, limit = 50, offset = 0 } = options;
+      const fetchPage = async (cellIds, from, count) => {
+        const rows = [];
+        while (rows.length < count) {
+          const size = Math.min(count - rows.length, SUPABASE_PAGE_SIZE);
+          let query = supabase.from('species_observations').select(OBSERVATION_VALIDATION_COLUMNS);
+          if (status) query = query.eq('validation_status', status);
+          if (taxonId !== null) query = query.eq('species_id', taxonId);
+          if (cellIds) query = query.in('checklists.grid_cell_id', cellIds);
+          const { data, error } = await query
+            .order('id')
+            .range(from + rows.length, from + rows.length + size - 1);
+          if (error) throw error;
+          if (!Array.isArray(data) || !data.length) break;
+          rows.push(...data);
+          if (data.length < size) break;
+        }
+        return rows.map(flattenObservationRow);
+      };
+
+      if (!gridCellIds || gridCellIds.length <= GRID_CELL_ID_CHUNK_SIZE) {
+        return fetchPage(gridCellIds && gridCellIds.map(String), offset, limit);
+      }
+      const rows = [];
+      for (let i = 0; i < gridCellIds.length; i += GRID_CELL_ID_CHUNK_SIZE) {
+        rows.push(...await fetchPage(gridCellIds.slice(i, i + GRID_CELL_ID_CHUNK_SIZE).map(String), 0, offset + limit));
+      }
+      return selectValidationRows(rows, options);
+    },
+
+    async setValidation({ observationId, status, comment = null, validatorId }) {
+      const { data, error } = await supabase
+        .from('species_observations')
+        .update({
+          validation_status: status,
+          validation_comment: comment,
+          validated_by: String(validatorId),
+          validated_at: new Date().toISOString()
+        })
+        .eq('id', observationId)
+        .select(OBSERVATION_VALIDATION_COLUMNS)
+        .maybeSingle();
+      if (error) throw error;
+      return data ? flattenObservationRow(data) : null;
+    }
+  };
+
+  const photos = {
+    async create(photo) {
+      const { data, error } = await supabase
+        .from('observation_photos')
+        .insert({
+          observation_id: Number(photo.observationId),
+          user_id: String(photo.userId),
+          storage_key: photo.storageKey,
+          thumbnail_key: photo.thumbnailKey,
+          content_type: photo.contentType || 'image/jpeg',
+          width: photo.width ?? null,
+          height: photo.height ?? null,
+          size_bytes: photo.sizeBytes ?? null,
+          original_filename: photo.originalFilename ?? null,
+          taken_at: photo.takenAt ?? null,
+          lat: photo.lat ?? null,
+          lng: photo.lng ?? null
+        })
+        .select(PHOTO_COLUMNS)
+        .single();
+      if (error) throw error;
+      return data;
+    },
+
+    async listForObservations(observationIds) {
+      const rows = [];
+      for (let i = 0; i < observationIds.length; i += GRID_CELL_ID_CHUNK_SIZE) {
+        const { data, error } = await supabase
+          .from('observation_photos')
+          .select(PHOTO_COLUMNS)
+          .in('observation_id', observationIds.slice(i, i + GRID_CELL_ID_CHUNK_SIZE).map(Number))
+          .order('id', { ascending: true });
+        if (error) throw error;
+        rows.push(...(data || []));
+      }
+      return rows;
+    }
+  };
+
+  const profileRow = async (column, userId) => {
+    const { data, error } = await supabase
+      .from('user_profiles')
+      .select(PROFILE_COLUMNS)
+      .eq(column, String(userId))
+      .limit(1)
+      .maybeSingle();
+    if (error) throw error;
+    return data;
+  };
+
+  const users = {
+    // The profile of userId or of the legacy account linked to it (see POST /api/auth/sync). Accounts without
+    // one come from Supabase Auth, with the display name kept in user_metadata (set at sign-up).
+    async get(userId) {
+      const profile = (await profileRow('user_id', userId)) || (await profileRow('legacy_user_id', userId));
+      if (profile) return normalizeProfileRow(profile);
+      const { data, error } = await supabase.auth.admin.getUserById(userId);
+      if (error && error.status === 404) return null;
+      if (error) throw error;
+      const user = data && data.user;
+      if (!user) return null;
+      const metadata = user.user_metadata || {};
+      return { id: user.id, email: user.email || null, name: metadata.name || metadata.full_name || null, locale: null, created_at: user.created_at || null };
+    },
+
+    async findLegacyAccount(email) {
+      const { data, error } = await supabase
+        .from('users')
+        .select('id, email, name, created_at')
+        .ilike('email', String(email).replace(/[\\%_]/g, '\\$&'))
+        .order('id', { ascending: true })
+        .limit(1)
+        .maybeSingle();
+      if (error) throw error;
+      return data ? { ...data, id: String(data.id) } : null;
+    },
+
+    async saveProfile(profile) {
+      const row = mergeProfileRow(await profileRow('user_id', profile.userId), profile);
+      const { data, error } = await supabase
+        .from('user_profiles')
+        .upsert(row, { onConflict: 'user_id' })
+        .select(PROFILE_COLUMNS)
+        .single();
+      if (error) throw error;
+      return normalizeProfileRow(data);
+    },
+
+    // Display names from the profiles only; looking every id up in Supabase Auth would take a request each.
+    async names(userIds) {
+      const ids = [...new Set(userIds.map(String))];
+      if (!ids.length) return {};
+      const names = {};
+      for (const column of ['legacy_user_id', 'user_id']) {
+        const { data, error } = await supabase
+          .from('user_profiles')
+          .select('user_id, legacy_user_id, display_name')
+          .in(column, ids);
+        if (error) throw error;
+        for (const row of data || []) {
+          if (row.display_name) names[String(row[column])] = row.display_name;
+        }
+      }
+      return names;
+    },
+
+    async getRole(userId) {
+      const { data, error } = await supabase
+        .from('user_roles')
+        .select('role')
+        .eq('user_id', String(userId))
+        .limit(1)
+        .maybeSingle();
+      if (error) throw error;
+      return data ? data.role : null;
+    },
+
+    async setRole({ userId, role, grantedBy = null }) {
+      const { data, error } = await supabase
+        .from('user_roles')
+        .upsert({ user_id: String(userId), role, granted_by: grantedBy, updated_at: new Date().toISOString() }, { onConflict: 'user_id' })
+        .select('user_id, role, granted_by, updated_at')
+        .single();
+      if (error) throw error;
+      return data;
+    },
+
+    async listRoles() {
+      const { data, error } = await supabase
+        .from('user_roles')
+        .select('user_id, role, granted_by, updated_at')
+        .neq('role', 'observer')
+        .order('role', { ascending: true })
+        .order('user_id', { ascending: true });
+      if (error) throw error;
+      return data || [];
+    }
+  };
+
+  // News columns with the item's translations embedded (news_translations rows).
+  const NEWS_SELECT = `${NEWS_COLUMNS}, translations:news_translations(lang, title, content)`;
+
+  // Replaces all translations of an item when `translations` ({ [lang]: { title, content } }) is given.
+  const replaceNewsTranslations = async (newsId, translations) => {
+    if (translations === undefined) return;
+    const { error: deleteError } = await supabase.from('news_translations').delete().eq('news_id', newsId);
+    if (deleteError) throw deleteError;
+    const rows = Object.entries(translations || {})
+      .map(([lang, { title, content }]) => ({ news_id: newsId, lang, title, content: content || '' }));
+    if (!rows.length) return;
+    const { error } = await supabase.from('news_translations').insert(rows);
+    if (error) throw error;
+  };
+
+  const news = {
+    async list({ limit = 50, includeDrafts = false } = {}) {
+      let query = supabase
+        .from('news')
+        .select(NEWS_SELECT)
+        .order('published_date', { ascending: false, nullsFirst: includeDrafts })
+        .limit(limit);
+      if (!includeDrafts) query = query.eq('draft', false);
+      const { data, error } = await query;
+      if (error) throw error;
+      return sortNewsByDate((data || []).map(normalizeNewsRow));
+    },
+
+    async get(id) {
+      const { data, error } = await supabase.from('news').select(NEWS_SELECT).eq('id', Number(id)).maybeSingle();
+      if (error) throw error;
+      return data ? normalizeNewsRow(data) : null;
+    },
+
+    async create(item, { createdBy = null } = {}) {
+      const { data, error } = await supabase
+        .from('news')
+        .insert({ ...pickNewsFields(item), created_by: createdBy })
+        .select('id')
+        .single();
+      if (error) throw error;
+      await replaceNewsTranslations(data.id, item.translations);
+      return news.get(data.id);
+    },
+
+    async update(id, item) {
+      const { data, error } = await supabase
+        .from('news')
+        .update({ ...pickNewsFields(item), updated_at: new Date().toISOString() })
+        .eq('id', Number(id))
+        .select('id')
+        .maybeSingle();
+      if (error) throw error;
+      if (!data) return null;
+      await replaceNewsTranslations(data.id, item.translations);
+      return news.get(data.id);
+    },
+
+    // Two steps: PostgREST cannot express COALESCE(published_date, NOW()) in an update.
+    async publish(id) {
+      const current = await news.get(id);
+      if (!current) return null;
+      const now = new Date().toISOString();
+      return news.update(id, { draft: false, published_date: current.published_date || now });
+    },
+
+    async remove(id) {
+      const { data, error } = await supabase.from('news').delete().eq('id', Number(id)).select('id');
+      if (error) throw error;
+      return (data || []).length > 0;
+    }
+  };
+
+  const stats = {
+    async summary() {
+      const [checklistRows, observationRows, locationRows, gridCellCount] = await Promise.all([
+        fetchAllRows('checklists', 'id, user_id, grid_cell_id, submitted_at'),
+        fetchAllRows('species_observations', 'checklist_id, species_name, count'),
+        fetchAllRows('checklist_locations', 'checklist_id, location_type'),
+        supabase.from('grid_cells').select('id', { count: 'exact', head: true })
+      ]);
+      if (gridCellCount.error) throw gridCellCount.error;
+      return summarizeStatsRows({
+        checklists: checklistRows,
+        observations: observationRows,
+        locations: locationRows,
+        totalGridCells: gridCellCount.count || 0
+      });
+    },
+
+    // Centroids are worked out in JavaScript from the geometry of the visited cells only.
+    async dwcaRows() {
+      const [checklistRows, observationRows, locationRows, taxa] = await Promise.all([
+        fetchAllRows('checklists', 'id, grid_cell_id, time_spent_minutes, submitted_at', (query) => query.order('id')),
+        fetchAllRows('species_observations', 'id, checklist_id, species_name, count, validation_status',
+          (query) => query.order('checklist_id').order('species_name')),
+        fetchAllRows('checklist_locations', 'checklist_id, location_type'),
+        fetchAllRows('taxa', 'id, scientific_name')
+      ]);
+      const cells = await fetchGridCellsById([...new Set(checklistRows.map((c) => String(c.grid_cell_id)))], 'id, geom');
+      return {
+        checklists: checklistRows,
+        observations: observationRows,
+        locations: locationRows,
+        gridCells: cells.map((cell) => ({ id: cell.id, ...approximateCentroid(parseGeometry(cell.geom)) })),
+        species: taxa
+      };
+    }
+  };
+
+  return { gridCells, checklists, species, observations, photos, users, news, stats };
+};
+
+module.exports = { createSupabaseRepositories };
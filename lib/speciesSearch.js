@@ -0,0 +1,129 @@
+// Ranked species search over scientific names, vernacular names (Dutch, French, English) and synonyms.
+// Matching ignores case and diacritics; typos are tolerated through an edit-distance similarity.
+
+const SEARCH_LANGUAGES = ['nl', 'fr', 'en'];
+
+const VERNACULAR_FIELDS = { nl: 'dutch_name', fr: 'french_name', en: 'english_name' };
+
+// Relative weight of a match per name kind. The vernacular name in the requested language counts as much as
+// the scientific name; the other vernacular names and synonyms still match, ranked a little lower.
+const FIELD_WEIGHTS = {
+  scientific: 1,
+  vernacular: 1,
+  otherVernacular: 0.8,
+  synonym: 0.9
+};
+
+// Below this edit-distance similarity (0..1) a fuzzy candidate is dropped. Shorter queries only match literally,
+// since one typo in three letters matches nearly everything.
+const MIN_FUZZY_SIMILARITY = 0.6;
+const MIN_FUZZY_QUERY_LENGTH = 4;
+
+const normalizeSearchText = (value) => String(value ?? '')
+  .normalize('NFD')
+  .replace(/[\u0300-\u036f]/g, '')
+  .toLowerCase()
+  .replace(/[^a-z0-9]+/g, ' ')
+  .trim();
+
+// Damerau-Levenshtein distance (optimal string alignment), so swapped letters count as one edit.
+const editDistance = (a, b) => {
+  const rows = a.length + 1;
+  const cols = b.length + 1;
+  const d = Array.from({ length: rows }, (_, i) => [i, ...new Array(cols - 1).fill(0)]);
+  for (let j = 1; j < cols; j += 1) d[0][j] = j;
+  for (let i = 1; i < rows; i += 1) {
+    for (let j = 1; j < cols; j += 1) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      d[i][j] = Math.min(d[i - 1][j] + 1, d[i][j - 1] + 1, d[i - 1][j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        d[i][j] = Math.min(d[i][j], d[i - 2][j - 2] + 1);
+      }
+    }
+  }
+  return d[rows - 1][cols - 1];
+};
+
+const similarity = (a, b) => {
+  const longest = Math.max(a.length, b.length);
+  return longest ? 1 - editDistance(a, b) / longest : 1;
+};
+
+// Score (0..1) of one normalized name against the normalized query, or 0 when it does not match.
+//   exact 1, prefix 0.9, word prefix 0.8, substring 0.7, otherwise up to 0.6 for a fuzzy match
+//   of the whole name, of one of its words or of the leading part of the name.
+const scoreName = (name, query) => {
+  if (!name || !query) return 0;
+  if (name === query) return 1;
+  if (name.startsWith(query)) return 0.9;
+  const words = name.split(' ');
+  if (words.some((word) => word.startsWith(query))) return 0.8;
+  if (name.includes(query)) return 0.7;
+  if (query.length < MIN_FUZZY_QUERY_LENGTH) return 0;
+
+  const candidates = [name, ...words, name.slice(0, query.length)];
+  // Multi-word queries ("pisidum casertanm") are compared word by word as well.
+  const queryWords = query.split(' ');
+  let best = Math.max(...candidates.map((candidate) => similarity(candidate, query)));
+  if (queryWords.length > 1 && queryWords.length <= words.length) {
+    const perWord = queryWords.map((queryWord, i) => similarity(words[i], queryWord));
+    best = Math.max(best, perWord.reduce((sum, value) => sum + value, 0) / perWord.length);
+  }
+  return best >= MIN_FUZZY_SIMILARITY ? 0.6 * best : 0;
+};
+
+// Ranks catalog entries ({ id, scientific_name, dutch_name, french_name, english_name, synonyms: [name],
+// observation_count }) against `query`. Ties go to the more frequently observed species.
+// Each result carries `vernacular_name` in `lang` plus the name that matched and its kind.
+const searchSpecies = (catalog, query, { lang = 'nl', limit = 20 } = {}) => {
+  const needle = normalizeSearchText(query);
+  if (!needle) return [];
+  const language = SEARCH_LANGUAGES.includes(lang) ? lang : 'nl';
+  const vernacularField = VERNACULAR_FIELDS[language];
+
+  const results = [];
+  for (const taxon of catalog) {
+    const names = [
+      { kind: 'scientific', name: taxon.scientific_name },
+      { kind: 'vernacular', name: taxon[vernacularField] },
+      ...SEARCH_LANGUAGES
+        .filter((other) => other !== language)
+        .map((other) => ({ kind: 'otherVernacular', name: taxon[VERNACULAR_FIELDS[other]] })),
+      ...(taxon.synonyms || []).map((name) => ({ kind: 'synonym', name }))
+    ].filter((entry) => entry.name);
+
+    let best = null;
+    for (const entry of names) {
+      const score = scoreName(normalizeSearchText(entry.name), needle) * FIELD_WEIGHTS[entry.kind];
+      if (score > 0 && (!best || score > best.score)) best = { ...entry, score };
+    }
+    if (!best) continue;
+
+    results.push({
+      id: taxon.id,
+      scientific_name: taxon.scientific_name,
+      vernacular_name: taxon[vernacularField] || null,
+      dutch_name: taxon.dutch_name || null,
+      french_name: taxon.french_name || null,
+      english_name: taxon.english_name || null,
+      observation_count: Number(taxon.observation_count) || 0,
+      score: Math.round(best.score * 1000) / 1000,
+      matched_name: best.name,
+      matched_field: best.kind === 'otherVernacular' ? 'vernacular' : best.kind
+    });
+  }
+
+  return results
+    .sort((a, b) => (
+      (b.score - a.score)
+      || (b.observation_count - a.observation_count)
+      || String(a.scientific_name).localeCompare(String(b.scientific_name))
+    ))
+    .slice(0, limit);
+};
+
+module.exports = {
+  SEARCH_LANGUAGES,
+  normalizeSearchText,
+  searchSpecies
+};
@@ -0,0 +1,91 @@
+// "Where to survey next": ranks grid cells near a point by how much they still need surveying.
+// Works on gridCells.coverage() rows ({ id, properties, centroid, checklist_count, total_minutes, habitats, species_count }).
+
+const EARTH_RADIUS_KM = 6371;
+
+// Habitats a complete survey of a cell samples (checklist_locations.location_type).
+const SURVEY_HABITATS = ['anthropogenous', 'forest', 'swamp'];
+
+// A cell counts as adequately surveyed from this much accumulated search effort and this many species.
+const TARGET_MINUTES = 60;
+const TARGET_SPECIES = 5;
+
+// Contribution of each gap to the score; they add up to 1.
+const GAP_WEIGHTS = {
+  unvisited: 0.4,
+  effort: 0.25,
+  habitats: 0.2,
+  species: 0.15
+};
+
+// At the edge of the search radius a cell keeps this share of its gap score, so nearby cells win ties.
+const EDGE_DISTANCE_FACTOR = 0.5;
+
+const toRadians = (degrees) => (degrees * Math.PI) / 180;
+
+const haversineKm = (a, b) => {
+  const dLat = toRadians(b.lat - a.lat);
+  const dLng = toRadians(b.lng - a.lng);
+  const h = Math.sin(dLat / 2) ** 2 + Math.cos(toRadians(a.lat)) * Math.cos(toRadians(b.lat)) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.sqrt(h));
+};
+
+// [minLng, minLat, maxLng, maxLat] enclosing the circle, for narrowing the coverage query.
+const bboxAround = ({ lat, lng }, radiusKm) => {
+  const dLat = radiusKm / 111.32;
+  const dLng = radiusKm / (111.32 * Math.max(Math.cos(toRadians(lat)), 0.01));
+  return [lng - dLng, lat - dLat, lng + dLng, lat + dLat];
+};
+
+// Gap components (0 = no gap, 1 = nothing known) and the reasons shown to volunteers.
+const assessCell = (cell) => {
+  const visited = cell.checklist_count > 0;
+  const missingHabitats = SURVEY_HABITATS.filter((habitat) => !(cell.habitats || []).includes(habitat));
+  const gaps = {
+    unvisited: visited ? 1 / (1 + cell.checklist_count) : 1,
+    effort: 1 - Math.min(1, (Number(cell.total_minutes) || 0) / TARGET_MINUTES),
+    habitats: missingHabitats.length / SURVEY_HABITATS.length,
+    species: 1 - Math.min(1, (Number(cell.species_count) || 0) / TARGET_SPECIES)
+  };
+  const reasons = [];
+  if (!visited) {
+    reasons.push('unvisited');
+  } else {
+    if (gaps.effort > 0) reasons.push('low_effort');
+    if (missingHabitats.length) reasons.push('missing_habitats');
+    if (gaps.species > 0) reasons.push('few_species');
+  }
+  const score = Object.keys(GAP_WEIGHTS).reduce((sum, key) => sum + GAP_WEIGHTS[key] * gaps[key], 0);
+  return { score, reasons, missingHabitats };
+};
+
+// Cells within radiusKm of `origin` that still have a gap, best candidates first
+// (higher gap score, weighted down with distance; then nearer; then id).
+const rankSurveyGaps = (cells, origin, { radiusKm = 10, limit = 10 } = {}) => cells
+  .map((cell) => {
+    const distanceKm = haversineKm(origin, cell.centroid);
+    if (distanceKm > radiusKm) return null;
+    const { score, reasons, missingHabitats } = assessCell(cell);
+    if (!reasons.length) return null;
+    const proximity = 1 - EDGE_DISTANCE_FACTOR * (radiusKm > 0 ? distanceKm / radiusKm : 0);
+    return {
+      id: cell.id,
+      properties: cell.properties || {},
+      centroid: cell.centroid,
+      distance_km: Math.round(distanceKm * 100) / 100,
+      score: Math.round(score * proximity * 1000) / 1000,
+      checklist_count: cell.checklist_count,
+      total_minutes: cell.total_minutes,
+      species_count: cell.species_count,
+      missing_habitats: missingHabitats,
+      reasons
+    };
+  })
+  .filter(Boolean)
+  .sort((a, b) => (b.score - a.score) || (a.distance_km - b.distance_km) || String(a.id).localeCompare(String(b.id)))
+  .slice(0, limit);
+
+module.exports = {
+  bboxAround,
+  rankSurveyGaps
+};
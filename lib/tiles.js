@@ -0,0 +1,80 @@
+// Mapbox Vector Tile (MVT) generation for the grid cell coverage layer.
+// The Postgres path renders tiles in the database with ST_AsMVT; the Supabase path has no SQL access,
+// so it keeps a geojson-vt index of all grid cells in memory and encodes tiles with vt-pbf.
+
+const geojsonvt = require('geojson-vt');
+const vtpbf = require('vt-pbf');
+
+const GRID_TILE_LAYER = 'grid';
+const TILE_EXTENT = 4096;
+const TILE_BUFFER = 64;
+const MAX_TILE_ZOOM = 22;
+
+// Validates z/x/y path parameters. Returns { z, x, y } or null when out of range.
+const parseTileCoords = (z, x, y) => {
+  const coords = { z: Number(z), x: Number(x), y: Number(y) };
+  if (![coords.z, coords.x, coords.y].every(Number.isInteger)) return null;
+  if (coords.z < 0 || coords.z > MAX_TILE_ZOOM) return null;
+  const size = Math.pow(2, coords.z);
+  if (coords.x < 0 || coords.x >= size || coords.y < 0 || coords.y >= size) return null;
+  return coords;
+};
+
+// Builds an in-memory tile index from WGS84 GeoJSON features carrying
+// { id, label, checklist_count, has_checklist } properties.
+const buildGridTileIndex = (features) => geojsonvt(
+  { type: 'FeatureCollection', features },
+  {
+    maxZoom: 16,
+    indexMaxZoom: 6,
+    indexMaxPoints: 10000,
+    tolerance: 3,
+    extent: TILE_EXTENT,
+    buffer: TILE_BUFFER
+  }
+);
+
+// Encodes one tile from a geojson-vt index. Returns null for empty tiles.
+const encodeGridTile = (index, { z, x, y }) => {
+  const tile = index.getTile(z, x, y);
+  if (!tile || !tile.features || !tile.features.length) return null;
+  return Buffer.from(vtpbf.fromGeojsonVt({ [GRID_TILE_LAYER]: tile }, { version: 2, extent: TILE_EXTENT }));
+};
+
+// Renders one tile with PostGIS (3.0+ for ST_TileEnvelope). Returns null for empty tiles.
+const fetchGridTileFromPool = async (pool, { z, x, y }) => {
+  const result = await pool.query(`
+    WITH bounds AS (
+      SELECT ST_TileEnvelope($1, $2, $3) AS geom
+    ),
+    counts AS (
+      SELECT grid_cell_id, COUNT(*)::int AS checklist_count
+      FROM checklists
+      GROUP BY grid_cell_id
+    ),
+    mvtgeom AS (
+      SELECT
+        ST_AsMVTGeom(ST_Transform(gc.geom, 3857), bounds.geom, $4, $5, true) AS geom,
+        gc.id::text AS id,
+        COALESCE(gc.properties->>'name', gc.properties->>'grid_id', gc.properties->>'code', 'Grid ' || gc.id::text) AS label,
+        COALESCE(c.checklist_count, 0) AS checklist_count,
+        COALESCE(c.checklist_count, 0) > 0 AS has_checklist
+      FROM grid_cells gc
+      JOIN bounds ON ST_Intersects(gc.geom, ST_Transform(bounds.geom, ST_SRID(gc.geom)))
+      LEFT JOIN counts c ON c.grid_cell_id = gc.id::text
+    )
+    SELECT ST_AsMVT(mvtgeom.*, '${GRID_TILE_LAYER}', $4, 'geom') AS tile
+    FROM mvtgeom
+    WHERE geom IS NOT NULL
+  `, [z, x, y, TILE_EXTENT, TILE_BUFFER]);
+  const tile = result.rows[0] && result.rows[0].tile;
+  return tile && tile.length ? tile : null;
+};
+
+module.exports = {
+  GRID_TILE_LAYER,
+  buildGridTileIndex,
+  encodeGridTile,
+  fetchGridTileFromPool,
+  parseTileCoords
+};
@@ -0,0 +1,64 @@
+// Request body validation against shared/request-schemas.json.
+// The frontend compiles the same schemas, so both sides report identical field paths.
+
+const Ajv = require('ajv');
+const requestSchemas = require('../shared/request-schemas.json');
+
+// coerceTypes lets form-style values through ("15" -> 15, 12 -> "12") and writes them back into the body.
+const ajv = new Ajv({
+  allErrors: true,
+  allowUnionTypes: true,
+  coerceTypes: true,
+  schemas: Object.values(requestSchemas)
+});
+
+// Ajv errors -> [{ path, message }] with dotted paths such as "locations.swamp.lat".
+const toFieldErrors = (errors = []) => {
+  const seen = new Set();
+  return errors
+    .map((err) => {
+      const segments = err.instancePath
+        .split('/')
+        .filter(Boolean)
+        .map((segment) => segment.replace(/~1/g, '/').replace(/~0/g, '~'));
+      let { message } = err;
+      if (err.keyword === 'required') {
+        segments.push(err.params.missingProperty);
+        message = 'is required';
+      } else if (err.keyword === 'additionalProperties') {
+        segments.push(err.params.additionalProperty);
+        message = 'is not allowed';
+      }
+      return { path: segments.join('.'), message };
+    })
+    .filter((field) => {
+      const key = `${field.path}|${field.message}`;
+      if (seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+};
+
+// Express middleware: answers 400 { error, hint, fields } when req.body does not match the named schema.
+const validateBody = (schemaName) => {
+  const validate = ajv.getSchema(schemaName);
+  if (!validate) throw new Error(`Unknown request schema: ${schemaName}`);
+  return (req, res, next) => {
+    const body = req.body === undefined || req.body === null ? {} : req.body;
+    if (validate(body)) {
+      req.body = body;
+      return next();
+    }
+    const fields = toFieldErrors(validate.errors);
+    return res.status(400).json({
+      error: 'Validation failed',
+      hint: fields.map((field) => `${field.path || 'body'} ${field.message}`).join('; '),
+      fields
+    });
+  };
+};
+
+module.exports = {
+  toFieldErrors,
+  validateBody
+};
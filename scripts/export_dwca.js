@@ -0,0 +1,47 @@
+#!/usr/bin/env node
+// Writes a Darwin Core Archive of all checklists and species observations, ready for upload to a GBIF IPT.
+// Reads from Postgres using DATABASE_URL (or PG_CONN, as used by the import workflow).
+const fs = require('fs');
+const path = require('path');
+const { Pool } = require('pg');
+const { buildDwcaFiles, fetchDwcaRowsFromPool, writeDwcaArchive } = require('../lib/dwca');
+
+try {
+  require('dotenv').config();
+} catch (e) {
+  // dotenv is optional
+}
+
+function usage() {
+  console.error('Usage: DATABASE_URL=postgres://... node scripts/export_dwca.js [output.zip]');
+  process.exit(2);
+}
+
+const connectionString = process.env.DATABASE_URL || process.env.PG_CONN;
+const outPath = process.argv[2] || `tandonia-dwca-${new Date().toISOString().slice(0, 10)}.zip`;
+
+if (!connectionString) usage();
+
+(async () => {
+  const pool = new Pool({
+    connectionString,
+    ssl: /sslmode=require/.test(connectionString) || process.env.NODE_ENV === 'production'
+      ? { rejectUnauthorized: false }
+      : false
+  });
+
+  try {
+    const rows = await fetchDwcaRowsFromPool(pool);
+    const files = buildDwcaFiles(rows);
+    const outDir = path.dirname(path.resolve(outPath));
+    if (!fs.existsSync(outDir)) fs.mkdirSync(outDir, { recursive: true });
+    await writeDwcaArchive(files, fs.createWriteStream(outPath));
+    const stats = fs.statSync(outPath);
+    console.log('Wrote', outPath, `(${stats.size} bytes, ${rows.checklists.length} events, ${rows.observations.length} observation rows)`);
+  } catch (err) {
+    console.error('DwC-A export failed:', err.message || err);
+    process.exitCode = 1;
+  } finally {
+    await pool.end().catch(() => {});
+  }
+})();
@@ -0,0 +1,59 @@
+#!/usr/bin/env node
+// Applies pending SQL migrations from supabase/migrations to the database at DATABASE_URL (or PG_CONN).
+//   --dry-run             list what would be applied without touching the database
+//   --baseline <version>  mark migrations up to <version> as applied without running them
+//                         (for databases that were set up by hand from the same scripts)
+// The migrations need a Supabase database (auth schema and roles); the runner refuses to apply them elsewhere.
+const { Pool } = require('pg');
+const { runMigrations } = require('../lib/migrations');
+
+try {
+  require('dotenv').config();
+} catch (e) {
+  // dotenv is optional
+}
+
+function usage() {
+  console.error('Usage: DATABASE_URL=postgres://... node scripts/migrate.js [--dry-run] [--baseline <version>]');
+  process.exit(2);
+}
+
+let dryRun = false;
+let baseline = null;
+const args = process.argv.slice(2);
+for (let i = 0; i < args.length; i += 1) {
+  if (args[i] === '--dry-run') {
+    dryRun = true;
+  } else if (args[i] === '--baseline' && /^\d+$/.test(args[i + 1] || '')) {
+    baseline = args[i + 1];
+    i += 1;
+  } else {
+    usage();
+  }
+}
+
+const connectionString = process.env.DATABASE_URL || process.env.PG_CONN;
+if (!connectionString) usage();
+
+(async () => {
+  const pool = new Pool({
+    connectionString,
+    ssl: /sslmode=require/.test(connectionString) || process.env.NODE_ENV === 'production'
+      ? { rejectUnauthorized: false }
+      : false
+  });
+
+  try {
+    const { applied, baselined, pending } = await runMigrations(pool, { dryRun, baseline });
+    if (dryRun) {
+      console.log(`Dry run: ${pending.length} migration(s) pending, ${baselined.length} to baseline.`);
+    } else if (applied.length || baselined.length) {
+      console.log(`Applied ${applied.length} migration(s), baselined ${baselined.length}.`);
+    }
+  } catch (err) {
+    console.error('Migration failed:', err.message || err);
+    process.exitCode = 1;
+  } finally {
+    await pool.end().catch(() => {});
+  }
+})();
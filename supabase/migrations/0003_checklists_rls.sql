@@ -7,7 +7,7 @@ ALTER TABLE IF EXISTS public.species_observations ENABLE ROW LEVEL SECURITY;
 ALTER TABLE IF EXISTS public.checklist_locations ENABLE ROW LEVEL SECURITY;
 
 -- CHECKLISTS: Allow authenticated users to insert, select, update and delete their own checklists
-CREATE POLICY IF NOT EXISTS checklists_insert_policy ON public.checklists
+CREATE POLICY checklists_insert_policy ON public.checklists
   FOR INSERT
   TO authenticated
   WITH CHECK (
@@ -16,35 +16,35 @@ CREATE POLICY IF NOT EXISTS checklists_insert_policy ON public.checklists
     (time_spent_minutes IS NULL OR time_spent_minutes >= 0)
   );
 
-CREATE POLICY IF NOT EXISTS checklists_select_policy ON public.checklists
+CREATE POLICY checklists_select_policy ON public.checklists
   FOR SELECT
   TO authenticated
   USING (user_id = auth.uid()::uuid);
 
-CREATE POLICY IF NOT EXISTS checklists_update_policy ON public.checklists
+CREATE POLICY checklists_update_policy ON public.checklists
   FOR UPDATE
   TO authenticated
   USING (user_id = auth.uid()::uuid)
   WITH CHECK (user_id = auth.uid()::uuid);
 
-CREATE POLICY IF NOT EXISTS checklists_delete_policy ON public.checklists
+CREATE POLICY checklists_delete_policy ON public.checklists
   FOR DELETE
   TO authenticated
   USING (user_id = auth.uid()::uuid);
 
 -- SPECIES_OBSERVATIONS: Allow insert/select/update only if the parent checklist belongs to the current user
-CREATE POLICY IF NOT EXISTS species_observations_insert_policy ON public.species_observations
+CREATE POLICY species_observations_insert_policy ON public.species_observations
   FOR INSERT
   TO authenticated
   WITH CHECK (
     EXISTS (
       SELECT 1 FROM public.checklists c
-      WHERE c.id = new.checklist_id
+      WHERE c.id = checklist_id
         AND c.user_id = auth.uid()::uuid
     )
   );
 
-CREATE POLICY IF NOT EXISTS species_observations_select_policy ON public.species_observations
+CREATE POLICY species_observations_select_policy ON public.species_observations
   FOR SELECT
   TO authenticated
   USING (
@@ -55,7 +55,7 @@ CREATE POLICY IF NOT EXISTS species_observations_select_policy ON public.species
     )
   );
 
-CREATE POLICY IF NOT EXISTS species_observations_update_policy ON public.species_observations
+CREATE POLICY species_observations_update_policy ON public.species_observations
   FOR UPDATE
   TO authenticated
   USING (
@@ -74,18 +74,18 @@ CREATE POLICY IF NOT EXISTS species_observations_update_policy ON public.species
   );
 
 -- CHECKLIST_LOCATIONS: Allow insert/select/update only if the parent checklist belongs to the current user
-CREATE POLICY IF NOT EXISTS checklist_locations_insert_policy ON public.checklist_locations
+CREATE POLICY checklist_locations_insert_policy ON public.checklist_locations
   FOR INSERT
   TO authenticated
   WITH CHECK (
     EXISTS (
       SELECT 1 FROM public.checklists c
-      WHERE c.id = new.checklist_id
+      WHERE c.id = checklist_id
         AND c.user_id = auth.uid()::uuid
     )
   );
 
-CREATE POLICY IF NOT EXISTS checklist_locations_select_policy ON public.checklist_locations
+CREATE POLICY checklist_locations_select_policy ON public.checklist_locations
   FOR SELECT
   TO authenticated
   USING (
@@ -96,7 +96,7 @@ CREATE POLICY IF NOT EXISTS checklist_locations_select_policy ON public.checklis
     )
   );
 
-CREATE POLICY IF NOT EXISTS checklist_locations_update_policy ON public.checklist_locations
+CREATE POLICY checklist_locations_update_policy ON public.checklist_locations
   FOR UPDATE
   TO authenticated
   USING (
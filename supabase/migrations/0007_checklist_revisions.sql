@@ -0,0 +1,202 @@
+-- Checklist corrections: revision history plus update/delete RPC functions
+-- Every update or delete first stores the previous state of the checklist in checklist_revisions.
+
+-- ============= 1. Tables =============
+
+ALTER TABLE public.checklists ADD COLUMN IF NOT EXISTS updated_at TIMESTAMP WITH TIME ZONE;
+
+-- No foreign key on checklist_id: revisions must survive deletion of the checklist itself.
+CREATE TABLE IF NOT EXISTS public.checklist_revisions (
+  id SERIAL PRIMARY KEY,
+  checklist_id INTEGER NOT NULL,
+  user_id UUID NOT NULL,
+  action TEXT NOT NULL CHECK (action IN ('update', 'delete')),
+  snapshot JSONB NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_checklist_revisions_checklist_id ON public.checklist_revisions(checklist_id);
+CREATE INDEX IF NOT EXISTS idx_checklist_revisions_user_id ON public.checklist_revisions(user_id);
+
+-- ============= 2. Snapshot helper =============
+-- Returns { checklist, locations, species } for a checklist; locations are reported as WGS84 lat/lng.
+
+CREATE OR REPLACE FUNCTION public.checklist_snapshot(target_id integer)
+RETURNS jsonb
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT jsonb_build_object(
+    'checklist', to_jsonb(c.*),
+    'locations', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object(
+        'location_type', cl.location_type,
+        'lat', ST_Y(ST_Transform(cl.geom, 4326)),
+        'lng', ST_X(ST_Transform(cl.geom, 4326))
+      ))
+      FROM public.checklist_locations cl
+      WHERE cl.checklist_id = c.id
+    ), '[]'::jsonb),
+    'species', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object('species_name', so.species_name, 'count', so.count) ORDER BY so.species_name)
+      FROM public.species_observations so
+      WHERE so.checklist_id = c.id
+    ), '[]'::jsonb)
+  )
+  FROM public.checklists c
+  WHERE c.id = target_id;
+$$;
+
+-- ============= 3. update_checklist RPC =============
+-- Expects a JSONB payload with: checklist_id (int), user_id (uuid) and any of
+-- time_spent_minutes (int), species (jsonb object of name -> count), locations (jsonb object of habitat -> {lat, lng}).
+-- Keys that are present replace the stored values entirely; absent keys are left untouched.
+-- Raises P0002 when the checklist does not exist or belongs to another user.
+-- Returns: { success: true, id: <checklist_id>, revision_id: <revision_id> }
+
+CREATE OR REPLACE FUNCTION public.update_checklist(payload jsonb)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  target_id integer;
+  owner_id uuid;
+  new_revision_id integer;
+  loc jsonb;
+  lockey text;
+  lat double precision;
+  lng double precision;
+  spname text;
+  spvalue jsonb;
+BEGIN
+  IF payload ->> 'checklist_id' IS NULL OR payload ->> 'user_id' IS NULL THEN
+    RAISE EXCEPTION 'Missing checklist_id or user_id';
+  END IF;
+  target_id := (payload ->> 'checklist_id')::int;
+  owner_id := (payload ->> 'user_id')::uuid;
+
+  PERFORM 1 FROM public.checklists WHERE id = target_id AND user_id = owner_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Checklist not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  INSERT INTO public.checklist_revisions (checklist_id, user_id, action, snapshot)
+  VALUES (target_id, owner_id, 'update', public.checklist_snapshot(target_id))
+  RETURNING id INTO new_revision_id;
+
+  UPDATE public.checklists
+  SET time_spent_minutes = CASE
+        WHEN payload ? 'time_spent_minutes' THEN (payload ->> 'time_spent_minutes')::int
+        ELSE time_spent_minutes
+      END,
+      updated_at = NOW()
+  WHERE id = target_id;
+
+  IF payload ? 'species' THEN
+    DELETE FROM public.species_observations WHERE checklist_id = target_id;
+    FOR spname, spvalue IN SELECT key, value FROM jsonb_each(payload -> 'species') LOOP
+      IF (spvalue #>> '{}')::int > 0 THEN
+        INSERT INTO public.species_observations (checklist_id, species_name, count)
+        VALUES (target_id, spname, (spvalue #>> '{}')::int);
+      END IF;
+    END LOOP;
+  END IF;
+
+  IF payload ? 'locations' THEN
+    DELETE FROM public.checklist_locations WHERE checklist_id = target_id;
+    FOR lockey, loc IN SELECT key, value FROM jsonb_each(payload -> 'locations') LOOP
+      IF (loc ->> 'lat') IS NOT NULL AND (loc ->> 'lng') IS NOT NULL THEN
+        lat := (loc ->> 'lat')::double precision;
+        lng := (loc ->> 'lng')::double precision;
+        INSERT INTO public.checklist_locations (checklist_id, location_type, geom)
+        VALUES (target_id, lockey, ST_Transform(ST_SetSRID(ST_MakePoint(lng, lat), 4326), 31370));
+      END IF;
+    END LOOP;
+  END IF;
+
+  RETURN jsonb_build_object('success', true, 'id', target_id, 'revision_id', new_revision_id);
+END;
+$$;
+
+-- The owner comes from the payload, so only the backend (service role) may call this.
+REVOKE EXECUTE ON FUNCTION public.update_checklist(jsonb) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.update_checklist(jsonb) TO service_role;
+
+-- ============= 4. delete_checklist RPC =============
+-- Expects a JSONB payload with: checklist_id (int), user_id (uuid)
+-- Stores a final 'delete' revision, then deletes the checklist (children cascade).
+-- Returns: { success: true, id: <checklist_id>, revision_id: <revision_id> }
+
+CREATE OR REPLACE FUNCTION public.delete_checklist(payload jsonb)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  target_id integer;
+  owner_id uuid;
+  new_revision_id integer;
+BEGIN
+  IF payload ->> 'checklist_id' IS NULL OR payload ->> 'user_id' IS NULL THEN
+    RAISE EXCEPTION 'Missing checklist_id or user_id';
+  END IF;
+  target_id := (payload ->> 'checklist_id')::int;
+  owner_id := (payload ->> 'user_id')::uuid;
+
+  PERFORM 1 FROM public.checklists WHERE id = target_id AND user_id = owner_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Checklist not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  INSERT INTO public.checklist_revisions (checklist_id, user_id, action, snapshot)
+  VALUES (target_id, owner_id, 'delete', public.checklist_snapshot(target_id))
+  RETURNING id INTO new_revision_id;
+
+  DELETE FROM public.checklists WHERE id = target_id;
+
+  RETURN jsonb_build_object('success', true, 'id', target_id, 'revision_id', new_revision_id);
+END;
+$$;
+
+-- The owner comes from the payload, so only the backend (service role) may call this.
+REVOKE EXECUTE ON FUNCTION public.delete_checklist(jsonb) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.delete_checklist(jsonb) TO service_role;
+
+-- ============= 5. Row Level Security =============
+
+ALTER TABLE IF EXISTS public.checklist_revisions ENABLE ROW LEVEL SECURITY;
+
+-- Revisions are written only by the SECURITY DEFINER functions / service role; owners may read their own.
+DROP POLICY IF EXISTS checklist_revisions_select_policy ON public.checklist_revisions;
+CREATE POLICY checklist_revisions_select_policy ON public.checklist_revisions
+  FOR SELECT
+  TO authenticated
+  USING (user_id = auth.uid()::uuid);
+
+-- 0003_checklists_rls.sql only covers insert/select/update on the child tables; allow owners to delete them too.
+DROP POLICY IF EXISTS species_observations_delete_policy ON public.species_observations;
+CREATE POLICY species_observations_delete_policy ON public.species_observations
+  FOR DELETE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.checklists c
+      WHERE c.id = species_observations.checklist_id
+        AND c.user_id = auth.uid()::uuid
+    )
+  );
+
+DROP POLICY IF EXISTS checklist_locations_delete_policy ON public.checklist_locations;
+CREATE POLICY checklist_locations_delete_policy ON public.checklist_locations
+  FOR DELETE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.checklists c
+      WHERE c.id = checklist_locations.checklist_id
+        AND c.user_id = auth.uid()::uuid
+    )
+  );
+
+-- End of checklist revisions script
@@ -0,0 +1,11 @@
+-- One-off repair for checklist_locations written by the Postgres fallback before locations were reprojected.
+-- Those rows hold raw WGS84 lng/lat tagged as SRID 31370. Real Lambert 72 coordinates for Belgium are tens
+-- of kilometres from the projection origin, so any point within lng/lat range can only be a mis-tagged one.
+-- Safe to run more than once.
+
+UPDATE public.checklist_locations
+SET geom = ST_Transform(ST_SetSRID(ST_MakePoint(ST_X(geom), ST_Y(geom)), 4326), 31370)
+WHERE ST_X(geom) BETWEEN -180 AND 180
+  AND ST_Y(geom) BETWEEN -90 AND 90;
+
+-- End of checklist location SRID repair script
@@ -0,0 +1,188 @@
+-- Canonical species references for species_observations.
+-- Observations used to store whatever key the frontend sent as species_name: a numeric id from the species
+-- or pill_clams table (depending on SUPABASE_SPECIES_TABLES) or a free-text name. From now on every
+-- observation points at public.taxa through species_id, and species_name holds the taxon's scientific name.
+
+-- ============= 1. Tables =============
+
+CREATE TABLE IF NOT EXISTS public.taxa (
+  id SERIAL PRIMARY KEY,
+  scientific_name TEXT NOT NULL,
+  dutch_name TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_taxa_scientific_name ON public.taxa (lower(scientific_name));
+
+-- Alternative names (old combinations, misspellings) that resolve to a taxon. `name` is stored lower-cased.
+CREATE TABLE IF NOT EXISTS public.taxon_synonyms (
+  name TEXT PRIMARY KEY,
+  taxon_id INTEGER NOT NULL REFERENCES public.taxa(id) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_taxon_synonyms_taxon_id ON public.taxon_synonyms(taxon_id);
+
+ALTER TABLE public.species_observations ADD COLUMN IF NOT EXISTS species_id INTEGER REFERENCES public.taxa(id);
+CREATE INDEX IF NOT EXISTS idx_species_observations_species_id ON public.species_observations(species_id);
+
+-- ============= 2. Seed taxa from the existing species tables =============
+
+INSERT INTO public.taxa (scientific_name)
+SELECT DISTINCT upper(left(trim(species), 1)) || substr(trim(species), 2)
+FROM public.pill_clams
+WHERE species IS NOT NULL AND trim(species) <> ''
+ON CONFLICT ((lower(scientific_name))) DO NOTHING;
+
+-- The species table is not created by these migrations; only some databases have it.
+DO $$
+BEGIN
+  IF to_regclass('public.species') IS NOT NULL THEN
+    EXECUTE $sql$
+      INSERT INTO public.taxa (scientific_name, dutch_name)
+      SELECT DISTINCT ON (lower(trim(scientific_name))) trim(scientific_name), dutch_name
+      FROM public.species
+      WHERE scientific_name IS NOT NULL AND trim(scientific_name) <> ''
+      ON CONFLICT ((lower(scientific_name))) DO UPDATE
+        SET dutch_name = COALESCE(public.taxa.dutch_name, EXCLUDED.dutch_name)
+    $sql$;
+  END IF;
+END;
+$$;
+
+-- Euglesa and Odhneripisidium were split off Pisidium; older records still use the Pisidium combination.
+INSERT INTO public.taxon_synonyms (name, taxon_id)
+SELECT 'pisidium ' || split_part(lower(scientific_name), ' ', 2), id
+FROM public.taxa
+WHERE lower(scientific_name) LIKE 'euglesa %' OR lower(scientific_name) LIKE 'odhneripisidium %'
+ON CONFLICT (name) DO NOTHING;
+
+-- ============= 3. Resolution =============
+-- Accepts a taxon id, a scientific name or a synonym (case and surrounding whitespace are ignored).
+-- Returns NULL when the key matches nothing.
+
+CREATE OR REPLACE FUNCTION public.resolve_taxon_id(taxon_key text)
+RETURNS integer
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT COALESCE(
+    (SELECT t.id FROM public.taxa t
+      WHERE t.id = CASE WHEN trim(taxon_key) ~ '^\d{1,9}$' THEN trim(taxon_key)::int END),
+    (SELECT t.id FROM public.taxa t WHERE lower(t.scientific_name) = lower(trim(taxon_key))),
+    (SELECT s.taxon_id FROM public.taxon_synonyms s WHERE s.name = lower(trim(taxon_key)))
+  );
+$$;
+
+-- ============= 4. Repair existing observations =============
+
+-- Numeric keys are ids of the table /api/species read at the time: `species` when it exists and has rows
+-- (first in SUPABASE_SPECIES_TABLES), otherwise pill_clams. Map them through that table's names.
+DO $$
+DECLARE
+  use_species_table boolean := false;
+BEGIN
+  IF to_regclass('public.species') IS NOT NULL THEN
+    EXECUTE 'SELECT EXISTS (SELECT 1 FROM public.species)' INTO use_species_table;
+  END IF;
+
+  IF use_species_table THEN
+    EXECUTE $sql$
+      UPDATE public.species_observations so
+      SET species_id = t.id
+      FROM public.species s
+      JOIN public.taxa t ON lower(t.scientific_name) = lower(trim(s.scientific_name))
+      WHERE so.species_id IS NULL
+        AND so.species_name ~ '^\d{1,9}$'
+        AND s.id = so.species_name::int
+    $sql$;
+  ELSE
+    UPDATE public.species_observations so
+    SET species_id = t.id
+    FROM public.pill_clams p
+    JOIN public.taxa t ON lower(t.scientific_name) = lower(trim(p.species))
+    WHERE so.species_id IS NULL
+      AND so.species_name ~ '^\d{1,9}$'
+      AND p.id = so.species_name::int;
+  END IF;
+END;
+$$;
+
+UPDATE public.species_observations
+SET species_id = public.resolve_taxon_id(species_name)
+WHERE species_id IS NULL
+  AND species_name !~ '^\d{1,9}$';
+
+UPDATE public.species_observations so
+SET species_name = t.scientific_name
+FROM public.taxa t
+WHERE so.species_id = t.id
+  AND so.species_name IS DISTINCT FROM t.scientific_name;
+
+-- ============= 5. Keep new observations canonical =============
+-- Every insert path (insert_checklist/update_checklist RPCs, the backend's Postgres queries, direct table
+-- inserts) goes through this trigger, so unknown species are rejected at the database as well.
+
+CREATE OR REPLACE FUNCTION public.species_observations_resolve_taxon()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NEW.species_id IS NULL THEN
+    NEW.species_id := public.resolve_taxon_id(NEW.species_name);
+    IF NEW.species_id IS NULL THEN
+      RAISE EXCEPTION 'Unknown species: %', NEW.species_name USING ERRCODE = 'foreign_key_violation';
+    END IF;
+  END IF;
+  SELECT scientific_name INTO NEW.species_name FROM public.taxa WHERE id = NEW.species_id;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS species_observations_resolve_taxon ON public.species_observations;
+CREATE TRIGGER species_observations_resolve_taxon
+  BEFORE INSERT ON public.species_observations
+  FOR EACH ROW EXECUTE FUNCTION public.species_observations_resolve_taxon();
+
+-- Snapshots (checklist_revisions) now carry the taxon id as well.
+CREATE OR REPLACE FUNCTION public.checklist_snapshot(target_id integer)
+RETURNS jsonb
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT jsonb_build_object(
+    'checklist', to_jsonb(c.*),
+    'locations', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object(
+        'location_type', cl.location_type,
+        'lat', ST_Y(ST_Transform(cl.geom, 4326)),
+        'lng', ST_X(ST_Transform(cl.geom, 4326))
+      ))
+      FROM public.checklist_locations cl
+      WHERE cl.checklist_id = c.id
+    ), '[]'::jsonb),
+    'species', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object(
+        'species_id', so.species_id,
+        'species_name', so.species_name,
+        'count', so.count
+      ) ORDER BY so.species_name)
+      FROM public.species_observations so
+      WHERE so.checklist_id = c.id
+    ), '[]'::jsonb)
+  )
+  FROM public.checklists c
+  WHERE c.id = target_id;
+$$;
+
+-- ============= 6. Row Level Security =============
+
+ALTER TABLE public.taxa ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.taxon_synonyms ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Allow read access to taxa" ON public.taxa;
+CREATE POLICY "Allow read access to taxa" ON public.taxa
+  FOR SELECT USING (true);
+
+DROP POLICY IF EXISTS "Allow read access to taxon_synonyms" ON public.taxon_synonyms;
+CREATE POLICY "Allow read access to taxon_synonyms" ON public.taxon_synonyms
+  FOR SELECT USING (true);
@@ -0,0 +1,5 @@
+-- French and English vernacular names for taxa, searched by /api/species/search next to the scientific name,
+-- dutch_name and taxon_synonyms. Names are curated by hand; taxa without one are found by their other names.
+
+ALTER TABLE public.taxa ADD COLUMN IF NOT EXISTS french_name TEXT;
+ALTER TABLE public.taxa ADD COLUMN IF NOT EXISTS english_name TEXT;
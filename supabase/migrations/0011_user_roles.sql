@@ -0,0 +1,23 @@
+-- Roles per user: observer (everyone, the default when a user has no row), validator and admin.
+-- user_id is TEXT because it holds Supabase Auth UUIDs as well as ids from the local users table.
+-- The backend reads and writes this table with the service role; the first admin is granted by hand:
+--   INSERT INTO public.user_roles (user_id, role) VALUES ('<user id>', 'admin')
+--   ON CONFLICT (user_id) DO UPDATE SET role = EXCLUDED.role, updated_at = NOW();
+
+CREATE TABLE IF NOT EXISTS public.user_roles (
+  user_id TEXT PRIMARY KEY,
+  role TEXT NOT NULL DEFAULT 'observer' CHECK (role IN ('observer', 'validator', 'admin')),
+  granted_by TEXT,
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_user_roles_role ON public.user_roles(role);
+
+ALTER TABLE public.user_roles ENABLE ROW LEVEL SECURITY;
+
+-- Users may read their own role; changes only go through the backend.
+DROP POLICY IF EXISTS user_roles_select_own ON public.user_roles;
+CREATE POLICY user_roles_select_own ON public.user_roles
+  FOR SELECT
+  TO authenticated
+  USING (user_id = auth.uid()::text);
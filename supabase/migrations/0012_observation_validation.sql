@@ -0,0 +1,174 @@
+-- Validation of species observations by validators (see 0011_user_roles.sql).
+-- Every observation starts as pending; a validator accepts it, rejects it or asks the observer for more
+-- information (needs_info), optionally with a comment the observer gets to see. Only accepted observations
+-- count for the atlas (species distribution maps).
+
+-- ============= 1. Columns =============
+
+ALTER TABLE public.species_observations
+  ADD COLUMN IF NOT EXISTS validation_status TEXT NOT NULL DEFAULT 'pending'
+    CHECK (validation_status IN ('pending', 'accepted', 'rejected', 'needs_info'));
+ALTER TABLE public.species_observations ADD COLUMN IF NOT EXISTS validation_comment TEXT;
+ALTER TABLE public.species_observations ADD COLUMN IF NOT EXISTS validated_by TEXT;
+ALTER TABLE public.species_observations ADD COLUMN IF NOT EXISTS validated_at TIMESTAMP WITH TIME ZONE;
+
+CREATE INDEX IF NOT EXISTS idx_species_observations_validation_status
+  ON public.species_observations(validation_status, species_id);
+
+-- ============= 2. Snapshots =============
+-- Observers see the status of their observations through checklist_snapshot (GET /api/checklists/:id).
+
+CREATE OR REPLACE FUNCTION public.checklist_snapshot(target_id integer)
+RETURNS jsonb
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT jsonb_build_object(
+    'checklist', to_jsonb(c.*),
+    'locations', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object(
+        'location_type', cl.location_type,
+        'lat', ST_Y(ST_Transform(cl.geom, 4326)),
+        'lng', ST_X(ST_Transform(cl.geom, 4326))
+      ))
+      FROM public.checklist_locations cl
+      WHERE cl.checklist_id = c.id
+    ), '[]'::jsonb),
+    'species', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object(
+        'id', so.id,
+        'species_id', so.species_id,
+        'species_name', so.species_name,
+        'count', so.count,
+        'validation_status', so.validation_status,
+        'validation_comment', so.validation_comment,
+        'validated_at', so.validated_at
+      ) ORDER BY so.species_name)
+      FROM public.species_observations so
+      WHERE so.checklist_id = c.id
+    ), '[]'::jsonb)
+  )
+  FROM public.checklists c
+  WHERE c.id = target_id;
+$$;
+
+-- ============= 3. update_checklist RPC =============
+-- Same contract as in 0007_checklist_revisions.sql. Observations of taxa that stay on the checklist keep
+-- their row (only the count changes), so an edit does not throw away their validation.
+
+CREATE OR REPLACE FUNCTION public.update_checklist(payload jsonb)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  target_id integer;
+  owner_id uuid;
+  new_revision_id integer;
+  loc jsonb;
+  lockey text;
+  lat double precision;
+  lng double precision;
+  spname text;
+  spvalue jsonb;
+BEGIN
+  IF payload ->> 'checklist_id' IS NULL OR payload ->> 'user_id' IS NULL THEN
+    RAISE EXCEPTION 'Missing checklist_id or user_id';
+  END IF;
+  target_id := (payload ->> 'checklist_id')::int;
+  owner_id := (payload ->> 'user_id')::uuid;
+
+  PERFORM 1 FROM public.checklists WHERE id = target_id AND user_id = owner_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Checklist not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  INSERT INTO public.checklist_revisions (checklist_id, user_id, action, snapshot)
+  VALUES (target_id, owner_id, 'update', public.checklist_snapshot(target_id))
+  RETURNING id INTO new_revision_id;
+
+  UPDATE public.checklists
+  SET time_spent_minutes = CASE
+        WHEN payload ? 'time_spent_minutes' THEN (payload ->> 'time_spent_minutes')::int
+        ELSE time_spent_minutes
+      END,
+      updated_at = NOW()
+  WHERE id = target_id;
+
+  IF payload ? 'species' THEN
+    DELETE FROM public.species_observations so
+    WHERE so.checklist_id = target_id
+      AND NOT EXISTS (
+        SELECT 1 FROM jsonb_each(payload -> 'species') e
+        WHERE (e.value #>> '{}')::int > 0
+          AND public.resolve_taxon_id(e.key) = so.species_id
+      );
+    FOR spname, spvalue IN SELECT key, value FROM jsonb_each(payload -> 'species') LOOP
+      IF (spvalue #>> '{}')::int > 0 THEN
+        UPDATE public.species_observations
+        SET count = (spvalue #>> '{}')::int
+        WHERE checklist_id = target_id AND species_id = public.resolve_taxon_id(spname);
+        IF NOT FOUND THEN
+          INSERT INTO public.species_observations (checklist_id, species_name, count)
+          VALUES (target_id, spname, (spvalue #>> '{}')::int);
+        END IF;
+      END IF;
+    END LOOP;
+  END IF;
+
+  IF payload ? 'locations' THEN
+    DELETE FROM public.checklist_locations WHERE checklist_id = target_id;
+    FOR lockey, loc IN SELECT key, value FROM jsonb_each(payload -> 'locations') LOOP
+      IF (loc ->> 'lat') IS NOT NULL AND (loc ->> 'lng') IS NOT NULL THEN
+        lat := (loc ->> 'lat')::double precision;
+        lng := (loc ->> 'lng')::double precision;
+        INSERT INTO public.checklist_locations (checklist_id, location_type, geom)
+        VALUES (target_id, lockey, ST_Transform(ST_SetSRID(ST_MakePoint(lng, lat), 4326), 31370));
+      END IF;
+    END LOOP;
+  END IF;
+
+  RETURN jsonb_build_object('success', true, 'id', target_id, 'revision_id', new_revision_id);
+END;
+$$;
+
+-- As in 0007_checklist_revisions.sql: the owner comes from the payload, so only the service role may call this.
+REVOKE EXECUTE ON FUNCTION public.update_checklist(jsonb) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.update_checklist(jsonb) TO service_role;
+
+-- ============= 4. Row Level Security =============
+-- Owners may insert and update their own observations directly (0003_checklists_rls.sql), so keep them from
+-- validating themselves: for signed-in clients new rows start pending and the validation columns stay as they
+-- are. The backend writes validations with the service role.
+
+CREATE OR REPLACE FUNCTION public.species_observations_protect_validation()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  -- auth.role() only exists on Supabase; elsewhere every write comes from the backend.
+  IF to_regprocedure('auth.role()') IS NULL THEN
+    RETURN NEW;
+  END IF;
+  IF COALESCE(auth.role(), '') <> 'authenticated' THEN
+    RETURN NEW;
+  END IF;
+  IF TG_OP = 'INSERT' THEN
+    NEW.validation_status := 'pending';
+    NEW.validation_comment := NULL;
+    NEW.validated_by := NULL;
+    NEW.validated_at := NULL;
+  ELSE
+    NEW.validation_status := OLD.validation_status;
+    NEW.validation_comment := OLD.validation_comment;
+    NEW.validated_by := OLD.validated_by;
+    NEW.validated_at := OLD.validated_at;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS species_observations_protect_validation ON public.species_observations;
+CREATE TRIGGER species_observations_protect_validation
+  BEFORE INSERT OR UPDATE ON public.species_observations
+  FOR EACH ROW EXECUTE FUNCTION public.species_observations_protect_validation();
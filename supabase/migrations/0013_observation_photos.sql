@@ -0,0 +1,44 @@
+-- Photos attached to species observations, mainly so validators can check identifications of small bivalves.
+-- The files live in Supabase Storage (private bucket observation-photos, or a local directory in development);
+-- this table holds their storage keys plus the EXIF capture date and position. Rows go with their observation,
+-- but the stored files are removed by the backend, not by the cascade.
+
+CREATE TABLE IF NOT EXISTS public.observation_photos (
+  id SERIAL PRIMARY KEY,
+  observation_id INTEGER NOT NULL REFERENCES public.species_observations(id) ON DELETE CASCADE,
+  user_id TEXT NOT NULL,
+  storage_key TEXT NOT NULL,
+  thumbnail_key TEXT NOT NULL,
+  content_type TEXT NOT NULL DEFAULT 'image/jpeg',
+  width INTEGER,
+  height INTEGER,
+  size_bytes INTEGER,
+  original_filename TEXT,
+  taken_at TIMESTAMP WITH TIME ZONE,
+  lat DOUBLE PRECISION,
+  lng DOUBLE PRECISION,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_observation_photos_observation_id ON public.observation_photos(observation_id);
+
+-- Private bucket: the backend hands out short-lived signed URLs to the observer and to validators.
+-- storage.buckets only exists on Supabase; other databases keep the files elsewhere (see lib/photoStorage).
+DO $$
+BEGIN
+  IF to_regclass('storage.buckets') IS NOT NULL THEN
+    INSERT INTO storage.buckets (id, name, public)
+    VALUES ('observation-photos', 'observation-photos', false)
+    ON CONFLICT (id) DO NOTHING;
+  END IF;
+END;
+$$;
+
+ALTER TABLE public.observation_photos ENABLE ROW LEVEL SECURITY;
+
+-- Owners may read their own photo rows; writes only go through the backend.
+DROP POLICY IF EXISTS observation_photos_select_own ON public.observation_photos;
+CREATE POLICY observation_photos_select_own ON public.observation_photos
+  FOR SELECT
+  TO authenticated
+  USING (user_id = auth.uid()::text);
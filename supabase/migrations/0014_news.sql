@@ -0,0 +1,83 @@
+-- Fixed schema for news items, written by admins through /api/admin/news.
+-- The news table used to be filled by hand in several shapes (Title or headline, Date or date, image or
+-- ImageUrl, ...). Existing rows are copied into the columns below, so the API reads one shape only.
+
+CREATE TABLE IF NOT EXISTS public.news (
+  id SERIAL PRIMARY KEY,
+  title TEXT NOT NULL,
+  content TEXT NOT NULL DEFAULT '',
+  image_url TEXT,
+  author TEXT,
+  license TEXT,
+  published_date TIMESTAMP WITH TIME ZONE,
+  draft BOOLEAN NOT NULL DEFAULT true,
+  created_by TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE
+);
+
+-- ============= 1. Columns of existing tables =============
+
+ALTER TABLE public.news ADD COLUMN IF NOT EXISTS id SERIAL;
+ALTER TABLE public.news ADD COLUMN IF NOT EXISTS title TEXT;
+ALTER TABLE public.news ADD COLUMN IF NOT EXISTS content TEXT;
+ALTER TABLE public.news ADD COLUMN IF NOT EXISTS image_url TEXT;
+ALTER TABLE public.news ADD COLUMN IF NOT EXISTS author TEXT;
+ALTER TABLE public.news ADD COLUMN IF NOT EXISTS license TEXT;
+ALTER TABLE public.news ADD COLUMN IF NOT EXISTS published_date TIMESTAMP WITH TIME ZONE;
+-- Rows already in the table were public, so they are not drafts; new items start as drafts.
+ALTER TABLE public.news ADD COLUMN IF NOT EXISTS draft BOOLEAN NOT NULL DEFAULT false;
+ALTER TABLE public.news ALTER COLUMN draft SET DEFAULT true;
+ALTER TABLE public.news ADD COLUMN IF NOT EXISTS created_by TEXT;
+ALTER TABLE public.news ADD COLUMN IF NOT EXISTS created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW();
+ALTER TABLE public.news ADD COLUMN IF NOT EXISTS updated_at TIMESTAMP WITH TIME ZONE;
+
+-- ============= 2. Backfill from the legacy columns =============
+-- Same precedence as the old normalizeNewsRow: the first legacy column with a value wins.
+
+DO $$
+DECLARE
+  mapping text[];
+BEGIN
+  FOREACH mapping SLICE 1 IN ARRAY ARRAY[
+    ['title', 'Title'], ['title', 'headline'],
+    ['content', 'Content'], ['content', 'body'], ['content', 'excerpt'],
+    ['published_date', 'published_at'], ['published_date', 'date'], ['published_date', 'Date'],
+    ['image_url', 'image'], ['image_url', 'ImageUrl'], ['image_url', 'Image_URL'],
+    ['author', 'Author'], ['author', 'byline'],
+    ['license', 'License']
+  ] LOOP
+    IF EXISTS (
+      SELECT 1 FROM information_schema.columns
+      WHERE table_schema = 'public' AND table_name = 'news' AND column_name = mapping[2]
+    ) THEN
+      IF mapping[1] = 'published_date' THEN
+        EXECUTE format('UPDATE public.news SET published_date = %I::timestamptz WHERE published_date IS NULL', mapping[2]);
+      ELSE
+        EXECUTE format('UPDATE public.news SET %I = %I::text WHERE %I IS NULL', mapping[1], mapping[2], mapping[1]);
+      END IF;
+    END IF;
+  END LOOP;
+END;
+$$;
+
+UPDATE public.news SET title = 'Untitled' WHERE title IS NULL;
+UPDATE public.news SET content = '' WHERE content IS NULL;
+UPDATE public.news SET published_date = created_at WHERE published_date IS NULL AND draft = false;
+ALTER TABLE public.news ALTER COLUMN title SET NOT NULL;
+ALTER TABLE public.news ALTER COLUMN content SET NOT NULL;
+ALTER TABLE public.news ALTER COLUMN content SET DEFAULT '';
+
+CREATE INDEX IF NOT EXISTS idx_news_published ON public.news(draft, published_date DESC);
+
+-- ============= 3. Row Level Security =============
+-- Anyone may read published items (the frontend falls back to reading them directly); drafts and all writes
+-- only go through the backend.
+
+ALTER TABLE public.news ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS news_select_published ON public.news;
+CREATE POLICY news_select_published ON public.news
+  FOR SELECT
+  TO anon, authenticated
+  USING (draft = false);
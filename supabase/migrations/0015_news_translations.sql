@@ -0,0 +1,24 @@
+-- News in several languages. news.title/content are written in news.language (Dutch unless set otherwise);
+-- news_translations holds the same item in the other site languages. /api/news?lang= serves the translation
+-- when there is one and the original otherwise.
+
+ALTER TABLE public.news ADD COLUMN IF NOT EXISTS language TEXT NOT NULL DEFAULT 'nl'
+  CHECK (language IN ('nl', 'fr', 'en'));
+
+CREATE TABLE IF NOT EXISTS public.news_translations (
+  news_id INTEGER NOT NULL REFERENCES public.news(id) ON DELETE CASCADE,
+  lang TEXT NOT NULL CHECK (lang IN ('nl', 'fr', 'en')),
+  title TEXT NOT NULL,
+  content TEXT NOT NULL DEFAULT '',
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (news_id, lang)
+);
+
+ALTER TABLE public.news_translations ENABLE ROW LEVEL SECURITY;
+
+-- Readable along with their (published) news item; writes only go through the backend.
+DROP POLICY IF EXISTS news_translations_select_published ON public.news_translations;
+CREATE POLICY news_translations_select_published ON public.news_translations
+  FOR SELECT
+  TO anon, authenticated
+  USING (EXISTS (SELECT 1 FROM public.news n WHERE n.id = news_id AND n.draft = false));
@@ -0,0 +1,14 @@
+-- Counters of the request throttling in lib/rateLimit.js when RATE_LIMIT_STORE=postgres, shared by all backend
+-- instances. Keys look like "login-ip:<address>" or "login-account:lock:<email>"; a row whose reset_at has
+-- passed is treated as absent and swept by the backend now and then.
+
+CREATE TABLE IF NOT EXISTS public.rate_limits (
+  key TEXT PRIMARY KEY,
+  count INTEGER NOT NULL,
+  reset_at TIMESTAMP WITH TIME ZONE NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_rate_limits_reset_at ON public.rate_limits(reset_at);
+
+-- Only the backend reads or writes these; no policies, so the anon and authenticated roles see nothing.
+ALTER TABLE public.rate_limits ENABLE ROW LEVEL SECURITY;
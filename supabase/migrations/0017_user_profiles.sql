@@ -0,0 +1,26 @@
+-- One profile per person, whichever way they sign in. Supabase Auth users get theirs from POST /api/auth/sync,
+-- keyed by their Supabase user id. A legacy account (public.users, used by /api/auth/register and
+-- /api/auth/login) with the same email address is linked to it through legacy_user_id once the address is
+-- confirmed in Supabase, so both sign-ins resolve to the same display name. Legacy accounts without a
+-- Supabase user are described by their users row alone.
+
+CREATE TABLE IF NOT EXISTS public.user_profiles (
+  user_id TEXT PRIMARY KEY,
+  legacy_user_id TEXT UNIQUE,
+  email TEXT,
+  display_name TEXT,
+  locale TEXT CHECK (locale IN ('nl', 'fr', 'en')),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_user_profiles_email ON public.user_profiles(lower(email));
+
+ALTER TABLE public.user_profiles ENABLE ROW LEVEL SECURITY;
+
+-- Users may read their own profile; changes only go through the backend.
+DROP POLICY IF EXISTS user_profiles_select_own ON public.user_profiles;
+CREATE POLICY user_profiles_select_own ON public.user_profiles
+  FOR SELECT
+  TO authenticated
+  USING (user_id = auth.uid()::text);
@@ -0,0 +1,30 @@
+-- Email verification and password resets for the accounts in public.users, the sign-in the backend falls back to
+-- when Supabase Auth is not configured (/api/auth/register and /api/auth/login). Tokens are mailed as links and
+-- stored as their SHA-256 hash; each works once, until expires_at.
+
+-- No earlier migration creates the legacy table; self-hosted databases may not have it yet.
+CREATE TABLE IF NOT EXISTS public.users (
+  id SERIAL PRIMARY KEY,
+  email TEXT NOT NULL UNIQUE,
+  password TEXT NOT NULL,
+  name TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+ALTER TABLE public.users ADD COLUMN IF NOT EXISTS email_verified_at TIMESTAMP WITH TIME ZONE;
+-- Tokens issued before this are no longer accepted, so a reset ends every earlier session.
+ALTER TABLE public.users ADD COLUMN IF NOT EXISTS password_changed_at TIMESTAMP WITH TIME ZONE;
+
+CREATE TABLE IF NOT EXISTS public.account_tokens (
+  token_hash TEXT PRIMARY KEY,
+  user_id TEXT NOT NULL,
+  purpose TEXT NOT NULL CHECK (purpose IN ('verify_email', 'reset_password')),
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  used_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_account_tokens_user ON public.account_tokens(user_id, purpose);
+
+-- Only the backend reads or writes these; no policies, so the anon and authenticated roles see nothing.
+ALTER TABLE public.account_tokens ENABLE ROW LEVEL SECURITY;
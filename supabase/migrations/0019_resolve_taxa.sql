@@ -0,0 +1,13 @@
+-- Batch form of public.resolve_taxon_id (0009_canonical_taxa.sql), so the backend resolves the species of a
+-- checklist or photo upload in one call instead of reading all of taxa and taxon_synonyms. Keys that match no
+-- taxon are left out of the result.
+
+CREATE OR REPLACE FUNCTION public.resolve_taxa(taxon_keys text[])
+RETURNS TABLE (taxon_key text, id integer, scientific_name text)
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT k.taxon_key, t.id, t.scientific_name
+  FROM unnest(taxon_keys) AS k(taxon_key)
+  JOIN public.taxa t ON t.id = public.resolve_taxon_id(k.taxon_key);
+$$;
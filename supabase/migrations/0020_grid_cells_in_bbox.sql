@@ -0,0 +1,40 @@
+-- Grid cells within a WGS84 bounding box, for the backend's Supabase path (gridCells.list and gridCells.coverage
+-- with a bbox), so the map no longer downloads every cell to filter them in JavaScript. Without by_centroid a cell
+-- matches when its bounding box intersects the box (as `&&` in the Postgres backend); with it, only when its
+-- centroid lies inside.
+
+-- No earlier migration creates the table (grid cells were imported by hand or through import_grid_cells from
+-- 0004_create_import_function.sql); a fresh database needs it for the index and the function's return type.
+-- Like pill_clams, everyone may read the cells; only the service role writes them.
+DO $$
+BEGIN
+  IF to_regclass('public.grid_cells') IS NULL THEN
+    CREATE TABLE public.grid_cells (
+      id SERIAL PRIMARY KEY,
+      properties JSONB,
+      geom geometry(MultiPolygon, 4326)
+    );
+    ALTER TABLE public.grid_cells ENABLE ROW LEVEL SECURITY;
+    CREATE POLICY grid_cells_select_policy ON public.grid_cells FOR SELECT USING (true);
+  END IF;
+END;
+$$;
+
+CREATE INDEX IF NOT EXISTS idx_grid_cells_geom ON public.grid_cells USING GIST (geom);
+
+CREATE OR REPLACE FUNCTION public.grid_cells_in_bbox(
+  min_lng double precision,
+  min_lat double precision,
+  max_lng double precision,
+  max_lat double precision,
+  by_centroid boolean DEFAULT false
+)
+RETURNS SETOF public.grid_cells
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT gc.*
+  FROM public.grid_cells gc
+  WHERE gc.geom && ST_MakeEnvelope(min_lng, min_lat, max_lng, max_lat, 4326)
+    AND (NOT by_centroid OR ST_Intersects(ST_Centroid(gc.geom), ST_MakeEnvelope(min_lng, min_lat, max_lng, max_lat, 4326)));
+$$;
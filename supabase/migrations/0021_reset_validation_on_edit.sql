@@ -0,0 +1,38 @@
+-- A validation applies to the count and taxon that were checked. When an edit changes either (through the
+-- update_checklist RPC, the backend's Postgres queries or a direct update), the observation goes back to pending
+-- for the validators. Edits that leave them as they are keep the validation, as before. Otherwise the same as in
+-- 0012_observation_validation.sql: signed-in clients cannot set the validation columns themselves.
+
+CREATE OR REPLACE FUNCTION public.species_observations_protect_validation()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF TG_OP = 'UPDATE' AND (NEW.count IS DISTINCT FROM OLD.count OR NEW.species_id IS DISTINCT FROM OLD.species_id) THEN
+    NEW.validation_status := 'pending';
+    NEW.validation_comment := NULL;
+    NEW.validated_by := NULL;
+    NEW.validated_at := NULL;
+    RETURN NEW;
+  END IF;
+  -- auth.role() only exists on Supabase; elsewhere every write comes from the backend.
+  IF to_regprocedure('auth.role()') IS NULL THEN
+    RETURN NEW;
+  END IF;
+  IF COALESCE(auth.role(), '') <> 'authenticated' THEN
+    RETURN NEW;
+  END IF;
+  IF TG_OP = 'INSERT' THEN
+    NEW.validation_status := 'pending';
+    NEW.validation_comment := NULL;
+    NEW.validated_by := NULL;
+    NEW.validated_at := NULL;
+  ELSE
+    NEW.validation_status := OLD.validation_status;
+    NEW.validation_comment := OLD.validation_comment;
+    NEW.validated_by := OLD.validated_by;
+    NEW.validated_at := OLD.validated_at;
+  END IF;
+  RETURN NEW;
+END;
+$$;
@@ -0,0 +1,17 @@
+-- The checklist RPCs are SECURITY DEFINER and take the owner from payload ->> 'user_id', and import_grid_cells
+-- writes grid_cells for anyone. Postgres grants EXECUTE to PUBLIC by default, so PostgREST let any holder of the
+-- anon key create, edit or delete other users' checklists. Only the backend and the import-geojson function call
+-- them, both with the service role key. 0007_checklist_revisions.sql now does the same for new databases; this
+-- covers the ones that already applied it and the functions from 0002 and 0004.
+
+REVOKE EXECUTE ON FUNCTION public.insert_checklist(jsonb) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.insert_checklist(jsonb) TO service_role;
+
+REVOKE EXECUTE ON FUNCTION public.update_checklist(jsonb) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.update_checklist(jsonb) TO service_role;
+
+REVOKE EXECUTE ON FUNCTION public.delete_checklist(jsonb) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.delete_checklist(jsonb) TO service_role;
+
+REVOKE EXECUTE ON FUNCTION public.import_grid_cells(jsonb) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.import_grid_cells(jsonb) TO service_role;
@@ -0,0 +1,99 @@
+-- Client-generated submission ids, so a retried checklist submission returns the checklist stored by the first
+-- attempt instead of creating a second one (NULLs stay allowed for older rows), and insert_checklist reprojecting
+-- the WGS84 lat/lng it receives to Belgian Lambert 72 (31370) instead of labelling them as 31370. Rows stored before
+-- that can be repaired with 0008_fix_checklist_locations_srid.sql.
+-- insert_checklist otherwise has the contract of 0002_insert_checklist.sql, plus an optional submission_id (uuid)
+-- in the payload; it returns duplicate: true when that submission_id was already stored.
+
+ALTER TABLE public.checklists ADD COLUMN IF NOT EXISTS submission_id UUID;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_checklists_user_submission ON public.checklists(user_id, submission_id);
+
+CREATE OR REPLACE FUNCTION public.insert_checklist(payload jsonb)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  inserted_id integer;
+  loc jsonb;
+  lockey text;
+  lat double precision;
+  lng double precision;
+  spname text;
+  spcount int;
+  species_elem jsonb;
+  submission uuid;
+BEGIN
+  -- Basic validation
+  IF payload ->> 'user_id' IS NULL THEN
+    RAISE EXCEPTION 'Missing user_id';
+  END IF;
+  IF payload ->> 'grid_cell_id' IS NULL THEN
+    RAISE EXCEPTION 'Missing grid_cell_id';
+  END IF;
+
+  -- Replayed submissions return the checklist created by the first attempt
+  submission := NULLIF(payload ->> 'submission_id', '')::uuid;
+  IF submission IS NOT NULL THEN
+    SELECT id INTO inserted_id FROM public.checklists
+    WHERE user_id = (payload ->> 'user_id')::uuid AND submission_id = submission;
+    IF inserted_id IS NOT NULL THEN
+      RETURN jsonb_build_object('success', true, 'id', inserted_id, 'duplicate', true);
+    END IF;
+  END IF;
+
+  INSERT INTO public.checklists (user_id, grid_cell_id, time_spent_minutes, submitted_at, submission_id)
+  VALUES (
+    (payload ->> 'user_id')::uuid,
+    payload ->> 'grid_cell_id',
+    (payload ->> 'time_spent_minutes')::int,
+    NOW(),
+    submission
+  )
+  ON CONFLICT (user_id, submission_id) DO NOTHING
+  RETURNING id INTO inserted_id;
+
+  -- A concurrent request with the same submission_id inserted first
+  IF inserted_id IS NULL THEN
+    SELECT id INTO inserted_id FROM public.checklists
+    WHERE user_id = (payload ->> 'user_id')::uuid AND submission_id = submission;
+    RETURN jsonb_build_object('success', true, 'id', inserted_id, 'duplicate', true);
+  END IF;
+
+  -- Insert species observations if present
+  IF payload ? 'species' THEN
+    FOR species_elem IN SELECT * FROM jsonb_each(payload -> 'species') LOOP
+      spname := species_elem.key;
+      spcount := (species_elem.value)::int;
+      IF spcount > 0 THEN
+        INSERT INTO public.species_observations (checklist_id, species_name, count)
+        VALUES (inserted_id, spname, spcount);
+      END IF;
+    END LOOP;
+  END IF;
+
+  -- Insert location geometries if present (only if lat & lng are provided)
+  IF payload ? 'locations' THEN
+    FOR lockey, loc IN SELECT key, value FROM jsonb_each(payload -> 'locations') LOOP
+      BEGIN
+        IF (loc ->> 'lat') IS NOT NULL AND (loc ->> 'lng') IS NOT NULL THEN
+          lat := (loc ->> 'lat')::double precision;
+          lng := (loc ->> 'lng')::double precision;
+          -- The frontend sends WGS84 (4326) lat/lng; store them in Belgian Lambert 72 (31370).
+          INSERT INTO public.checklist_locations (checklist_id, location_type, geom)
+          VALUES (inserted_id, lockey, ST_Transform(ST_SetSRID(ST_MakePoint(lng, lat), 4326), 31370));
+        END IF;
+      EXCEPTION WHEN OTHERS THEN
+        -- ignore location insert failures, continue
+        RAISE NOTICE 'Location insert failed for %: %', lockey, SQLERRM;
+      END;
+    END LOOP;
+  END IF;
+
+  RETURN jsonb_build_object('success', true, 'id', inserted_id);
+END;
+$$;
+
+-- As in 0022_lock_down_checklist_rpcs.sql: the owner comes from the payload, so only the service role may call this.
+REVOKE EXECUTE ON FUNCTION public.insert_checklist(jsonb) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.insert_checklist(jsonb) TO service_role;
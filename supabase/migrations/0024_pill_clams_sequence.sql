@@ -0,0 +1,4 @@
+-- 0006_insert_pill_clams.sql inserts its rows with explicit ids, which leaves the serial at its start value, so
+-- the next row added without an id collided with them. Move the sequence past the highest id.
+
+SELECT setval(pg_get_serial_sequence('public.pill_clams', 'id'), (SELECT MAX(id) FROM public.pill_clams));
@@ -0,0 +1,19 @@
+-- Counts one hit for a rate limit key in public.rate_limits (0016_rate_limits.sql), starting a new window when
+-- there is none or it has expired. Same statement as the Postgres store in lib/rateLimit.js, as an RPC so the
+-- backend can share its counters between instances (e.g. serverless functions) through Supabase as well.
+
+CREATE OR REPLACE FUNCTION public.rate_limit_hit(limit_key text, window_ms double precision)
+RETURNS TABLE (count integer, reset_at timestamp with time zone)
+LANGUAGE sql
+AS $$
+  INSERT INTO public.rate_limits AS rl (key, count, reset_at)
+  VALUES (limit_key, 1, NOW() + make_interval(secs => window_ms / 1000))
+  ON CONFLICT (key) DO UPDATE SET
+    count = CASE WHEN rl.reset_at <= NOW() THEN 1 ELSE rl.count + 1 END,
+    reset_at = CASE WHEN rl.reset_at <= NOW() THEN EXCLUDED.reset_at ELSE rl.reset_at END
+  RETURNING rl.count, rl.reset_at;
+$$;
+
+-- Only the backend keeps the counters.
+REVOKE EXECUTE ON FUNCTION public.rate_limit_hit(text, double precision) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.rate_limit_hit(text, double precision) TO service_role;
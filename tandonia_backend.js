@@ -6,12 +6,35 @@ try {
   // dotenv is optional in production environments
 }
 
+const crypto = require('crypto');
 const express = require('express');
 const cors = require('cors');
 const { Pool } = require('pg');
 const bcrypt = require('bcryptjs');
 const jwt = require('jsonwebtoken');
+const multer = require('multer');
 const { createClient } = require('@supabase/supabase-js');
+const { passwordResetMail, verificationMail } = require('./lib/accountMail');
+const { ACCOUNT_TOKEN_TTL_MS, consumeAccountToken, issueAccountToken } = require('./lib/accountTokens');
+const { buildDwcaFiles, writeDwcaArchive } = require('./lib/dwca');
+const { parseBbox, pointInGeometry, precisionForZoom, toleranceForZoom } = require('./lib/geometry');
+const { createMailTransport } = require('./lib/mail');
+const { DEFAULT_NEWS_LANGUAGE, NEWS_LANGUAGES, localizeNewsItem, newsLanguage } = require('./lib/news');
+const { buildAtomFeed, buildRssFeed } = require('./lib/newsFeed');
+const { LOCAL_PHOTO_ROUTE, createPhotoStorage } = require('./lib/photoStorage');
+const { PHOTO_CONTENT_TYPES, PHOTO_MAX_BYTES, processPhoto } = require('./lib/photos');
+const { createLockout, createRateLimitStore, rateLimit, sendTooManyRequests } = require('./lib/rateLimit');
+const { DataUnavailableError, createRepositories } = require('./lib/repositories');
+const {
+  CHECKLIST_LOCATION_TYPES,
+  gridCellLabel,
+  normalizeChecklistLocations,
+  normalizeGridCellRow
+} = require('./lib/repositories/rows');
+const { SEARCH_LANGUAGES, searchSpecies } = require('./lib/speciesSearch');
+const { bboxAround, rankSurveyGaps } = require('./lib/surveyGaps');
+const { parseTileCoords } = require('./lib/tiles');
+const { validateBody } = require('./lib/validation');
 
 // Configure Supabase admin client when service credentials are available.
 // Keeps reference defined even when env vars are missing to avoid ReferenceErrors.
@@ -32,103 +55,16 @@ try {
   supabaseAdmin = null;
 }
 
-const SUPABASE_SPECIES_TABLES = (process.env.SUPABASE_SPECIES_TABLES || 'species,pill_clams')
-  .split(',')
-  .map((table) => table.trim())
-  .filter(Boolean);
-
-const normalizeNewsRow = (row, idx = 0) => ({
-  id: row.id ?? row.news_id ?? idx + 1,
-  title: row.title || row.Title || row.headline || 'Untitled',
-  content: row.content || row.Content || row.body || row.excerpt || '',
-  published_date: row.published_date || row.published_at || row.date || row.Date || null,
-  image_url: row.image_url || row.image || row.ImageUrl || row.Image_URL || null,
-  author: row.author || row.Author || row.byline || null,
-  license: row.license || row.License || null
-});
-
-const normalizeSpeciesRow = (row, idx = 0) => {
-  const id = row.id ?? row.species_id ?? row.slug_id ?? idx + 1;
-  const scientificName = row.scientific_name || row.scientificName || row.species || row.name || row.title || '';
-  const dutchName = row.dutch_name || row.dutchName || row.common_name || row.dutch || null;
-  const observationCount = parseInt(
-    row.observation_count ?? row.count ?? row.observationCount ?? row.observations ?? 0,
-    10
-  ) || 0;
-  return {
-    id,
-    scientific_name: scientificName,
-    dutch_name: dutchName,
-    observation_count: observationCount
-  };
-};
-
-const parseGeometry = (value) => {
-  if (!value) return null;
-  if (typeof value === 'object') return value;
-  if (typeof value === 'string') {
-    try {
-      return JSON.parse(value);
-    } catch (_err) {
-      return null;
-    }
-  }
-  return null;
-};
-
-const normalizeGridCellRow = (row, idx = 0) => {
-  const id = row.id ?? row.grid_id ?? row.name ?? `cell-${idx}`;
-  const properties = row.properties || {};
-  const geometry = row.geometry || row.geom || row.geojson || row.geo_json || null;
-  const parsedGeometry = parseGeometry(geometry);
-  if (!parsedGeometry) return null;
-  return {
-    type: 'Feature',
-    id,
-    geometry: parsedGeometry,
-    properties
-  };
-};
-
-const fetchSupabaseSpeciesTables = async () => {
-  if (!supabaseAdmin) return null;
-  for (const table of SUPABASE_SPECIES_TABLES) {
-    try {
-      const { data, error } = await supabaseAdmin.from(table).select('*');
-      if (error) {
-        if (error.code !== '42P01') {
-          console.warn(`Supabase table ${table} query failed:`, error.message);
-        }
-        continue;
-      }
-      if (data && data.length) {
-        const normalized = data.map((row, idx) => normalizeSpeciesRow(row, idx));
-        normalized.sort((a, b) => (b.observation_count || 0) - (a.observation_count || 0));
-        return normalized;
-      }
-    } catch (err) {
-      console.warn(`Supabase table ${table} exception:`, err.message);
-    }
-  }
-  return null;
-};
+const app = express();
 
-const fetchPostgresSpeciesJoin = async () => {
-  if (!pool) return null;
-  try {
-    const result = await pool.query(`
-      SELECT id, scientific_name, dutch_name, COALESCE(observation_count, 0) AS observation_count
-      FROM species
-      ORDER BY observation_count DESC
-    `);
-    return result.rows;
-  } catch (err) {
-    console.warn('Postgres species table query failed:', err.message);
-    return null;
-  }
-};
+// Behind a proxy (Render, Vercel) req.ip is only the client's address when Express may read X-Forwarded-For.
+// TRUST_PROXY is the number of proxy hops, "true", or a list of proxy addresses; unset means no proxy, so
+// clients cannot spoof their address for the rate limits.
+if (process.env.TRUST_PROXY) {
+  const hops = Number(process.env.TRUST_PROXY);
+  app.set('trust proxy', Number.isInteger(hops) ? hops : process.env.TRUST_PROXY === 'true' || process.env.TRUST_PROXY);
+}
 
-const app = express();
 app.use(express.json());
 
 // Enable CORS for the frontend site(s). Adjust origins as needed for other environments.
@@ -152,8 +88,9 @@ app.use(cors({
     // generating a server exception.
     return allowed.indexOf(origin) !== -1 ? callback(null, true) : callback(null, false);
   },
-  methods: ['GET', 'POST', 'PUT', 'DELETE', 'OPTIONS'],
+  methods: ['GET', 'POST', 'PUT', 'PATCH', 'DELETE', 'OPTIONS'],
   allowedHeaders: ['Content-Type', 'Authorization', 'Accept'],
+  exposedHeaders: ['Retry-After'],
   credentials: true
 }));
 
@@ -213,6 +150,81 @@ const initializePostgresPool = () => {
 
 pool = initializePostgresPool();
 
+// Grid cells, checklists, species and news are read and written through lib/repositories:
+// Supabase first (when configured), then Postgres. DATA_BACKEND=memory runs without any database.
+app.locals.repositories = createRepositories({
+  backend: process.env.DATA_BACKEND || null,
+  supabase: supabaseAdmin,
+  getPool: () => pool
+});
+
+// Observation photo files: Supabase Storage when configured, otherwise a local directory (PHOTO_STORAGE,
+// see lib/photoStorage). Local files are served by this backend.
+app.locals.photoStorage = createPhotoStorage({ supabase: supabaseAdmin });
+if (app.locals.photoStorage.name === 'local') {
+  app.use(LOCAL_PHOTO_ROUTE, express.static(app.locals.photoStorage.dir));
+}
+
+// The frontend, for links in news feeds and account mails; FRONTEND_URL for staging/preview domains.
+const SITE_URL = (process.env.FRONTEND_URL || 'https://www.tandonia.be').replace(/\/+$/, '');
+
+// Verification and password reset mails of the legacy accounts (MAIL_TRANSPORT, see lib/mail).
+app.locals.mail = createMailTransport();
+
+// Counters for the throttling of login, registration and checklist submission (RATE_LIMIT_STORE, see
+// lib/rateLimit). Credential stuffing shows up as many accounts from one address, guessing as many attempts
+// on one account, so logins are limited and locked out per address and per account.
+app.locals.rateLimitStore = createRateLimitStore({ supabase: supabaseAdmin, getPool: () => pool });
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+
+const loginAccount = (req) => (typeof req.body?.email === 'string' ? req.body.email.trim().toLowerCase() : null);
+
+const limitLoginsPerIp = rateLimit(app.locals.rateLimitStore, { name: 'login-ip', windowMs: 15 * MINUTE, max: 30, key: (req) => req.ip });
+const limitLoginsPerAccount = rateLimit(app.locals.rateLimitStore, { name: 'login-account', windowMs: 15 * MINUTE, max: 10, key: loginAccount });
+const limitRegistrationsPerIp = rateLimit(app.locals.rateLimitStore, { name: 'register-ip', windowMs: HOUR, max: 5, key: (req) => req.ip });
+const limitChecklistsPerIp = rateLimit(app.locals.rateLimitStore, { name: 'checklist-ip', windowMs: HOUR, max: 120, key: (req) => req.ip });
+const limitChecklistsPerAccount = rateLimit(app.locals.rateLimitStore, {
+  name: 'checklist-account',
+  windowMs: HOUR,
+  max: 30,
+  key: (req) => (req.user && req.user.id != null ? String(req.user.id) : null)
+});
+
+const limitResetMailsPerIp = rateLimit(app.locals.rateLimitStore, { name: 'reset-mail-ip', windowMs: HOUR, max: 10, key: (req) => req.ip });
+const limitResetMailsPerAccount = rateLimit(app.locals.rateLimitStore, { name: 'reset-mail-account', windowMs: HOUR, max: 3, key: loginAccount });
+const limitPasswordResetsPerIp = rateLimit(app.locals.rateLimitStore, { name: 'password-reset-ip', windowMs: HOUR, max: 20, key: (req) => req.ip });
+const limitVerificationMailsPerAccount = rateLimit(app.locals.rateLimitStore, {
+  name: 'verification-mail-account',
+  windowMs: HOUR,
+  max: 3,
+  key: (req) => (req.user && req.user.id != null ? String(req.user.id) : null)
+});
+
+// Failed logins lock the account after 5 failures and the address after 20, for 30 seconds at first and
+// twice as long with every further failure, up to 15 minutes. A successful login clears the account's lockout.
+const accountLockout = createLockout(app.locals.rateLimitStore, {
+  name: 'login-account', threshold: 5, baseMs: 30 * 1000, maxMs: 15 * MINUTE, windowMs: 24 * HOUR
+});
+const ipLockout = createLockout(app.locals.rateLimitStore, {
+  name: 'login-ip', threshold: 20, baseMs: 30 * 1000, maxMs: 15 * MINUTE, windowMs: 24 * HOUR
+});
+
+// 503 when no backend could answer a repository call, 500 for anything else.
+const sendDataError = (res, error, label, unavailableMessage = 'Database unavailable') => {
+  if (error instanceof DataUnavailableError) {
+    const cause = error.cause;
+    const hint = process.env.DEBUG_API_ERRORS === 'true' && cause ? (cause.message || JSON.stringify(cause)) : undefined;
+    return res.status(503).json({ error: unavailableMessage, hint });
+  }
+  console.error(`${label} error:`, error && error.stack ? error.stack : error);
+  if (process.env.DEBUG_API_ERRORS === 'true') {
+    return res.status(500).json({ error: 'Server error', detail: error.message, stack: error.stack });
+  }
+  return res.status(500).json({ error: 'Server error' });
+};
+
 // JWT secret - set this in your environment variables
 const JWT_SECRET = process.env.JWT_SECRET || 'your-secret-key-change-in-production';
 
@@ -235,6 +247,8 @@ const authenticateToken = async (req, res, next) => {
         return res.status(403).json({ error: 'Invalid token' });
       }
       req.user = { id: data.user.id, email: data.user.email };
+      // The full Supabase user (metadata, confirmation) for routes that need more than the id
+      req.supabaseUser = data.user;
       return next();
     } catch (err) {
       console.error('Supabase token verification error:', err);
@@ -243,29 +257,124 @@ const authenticateToken = async (req, res, next) => {
   }
 
   // Fallback to local JWT verification
+  let user;
   try {
-    const user = jwt.verify(token, JWT_SECRET);
-    req.user = user;
-    return next();
+    user = jwt.verify(token, JWT_SECRET);
   } catch (err) {
     console.debug('authenticateToken: local jwt verify failed', err.message);
     return res.status(403).json({ error: 'Invalid token' });
   }
+
+  // A password reset ends the sessions from before it
+  if (pool) {
+    try {
+      const result = await pool.query('SELECT password_changed_at FROM users WHERE id::text = $1', [String(user.id)]);
+      const changedAt = result.rows.length ? result.rows[0].password_changed_at : null;
+      if (changedAt && Math.floor(new Date(changedAt).getTime() / 1000) > user.iat) {
+        return res.status(403).json({ error: 'Invalid token', hint: 'The password has been changed; sign in again' });
+      }
+    } catch (err) {
+      console.warn('Password change lookup failed:', err.message || err);
+    }
+  }
+  req.user = user;
+  return next();
+};
+
+// Roles in increasing order of privilege; a role includes everything the roles before it may do.
+// Users without a user_roles row are observers.
+const USER_ROLES = ['observer', 'validator', 'admin'];
+
+// Looks up req.user's role once per request and stores it on req.user.role.
+const loadUserRole = async (req) => {
+  if (!req.user.role) {
+    req.user.role = (await req.app.locals.repositories.users.getRole(req.user.id)) || 'observer';
+  }
+  return req.user.role;
+};
+
+const hasRole = (role, required) => USER_ROLES.indexOf(role) >= USER_ROLES.indexOf(required);
+
+// Middleware (after authenticateToken): 403 unless the user has at least `required`.
+const requireRole = (required) => async (req, res, next) => {
+  let role;
+  try {
+    role = await loadUserRole(req);
+  } catch (error) {
+    return sendDataError(res, error, 'Role lookup');
+  }
+  if (!hasRole(role, required)) {
+    return res.status(403).json({ error: 'Forbidden', hint: `Requires the ${required} role` });
+  }
+  return next();
 };
 
 // ============= AUTH ENDPOINTS =============
 
+// Whether a legacy account has confirmed its address; null when that cannot be looked up.
+const legacyEmailVerified = async (userId) => {
+  if (!pool) return null;
+  try {
+    const result = await pool.query('SELECT email_verified_at FROM users WHERE id::text = $1', [String(userId)]);
+    return result.rows.length ? Boolean(result.rows[0].email_verified_at) : null;
+  } catch (err) {
+    console.warn('Email verification lookup failed:', err.message || err);
+    return null;
+  }
+};
+
+// The profile a user id resolves to (their own, or the Supabase user's their legacy account is linked to),
+// or null when it cannot be loaded; callers fall back to what the token or users row says.
+const loadProfile = async (req, userId) => {
+  try {
+    return await req.app.locals.repositories.users.get(userId);
+  } catch (err) {
+    console.warn('Profile lookup failed:', err.message || err);
+    return null;
+  }
+};
+
+// The user object in legacy /api/auth responses: the account, with name and locale from its profile.
+const legacyAuthUser = (user, profile) => ({
+  id: user.id,
+  email: user.email,
+  name: (profile && profile.name) || user.name || null,
+  locale: (profile && profile.locale) || null,
+  email_verified: Boolean(user.email_verified_at),
+  profile_id: profile ? profile.id : String(user.id)
+});
+
+// Language of account mails: the locale in the body, else the browser's, else Dutch.
+const mailLanguage = (req) => newsLanguage(req.body && req.body.locale)
+  || req.acceptsLanguages(...NEWS_LANGUAGES)
+  || DEFAULT_NEWS_LANGUAGE;
+
+// Mails a legacy account (a users row) a link with a new verify_email or reset_password token, which the
+// frontend opens as ?page=verify-email or ?page=reset-password.
+const sendAccountTokenMail = async (req, user, purpose) => {
+  const token = await issueAccountToken(pool, user.id, purpose);
+  const page = purpose === 'verify_email' ? 'verify-email' : 'reset-password';
+  const compose = purpose === 'verify_email' ? verificationMail : passwordResetMail;
+  const mail = compose({
+    lang: mailLanguage(req),
+    name: user.name,
+    link: `${SITE_URL}/?page=${page}&token=${encodeURIComponent(token)}`,
+    hours: ACCOUNT_TOKEN_TTL_MS[purpose] / (60 * 60 * 1000)
+  });
+  await req.app.locals.mail.send({ to: user.email, ...mail });
+};
+
 // Register new user
-app.post('/api/auth/register', async (req, res) => {
+app.post('/api/auth/register', limitRegistrationsPerIp, validateBody('register'), async (req, res) => {
   if (!pool) {
     return res.status(503).json({ error: 'Database unavailable' });
   }
   try {
     const { email, password, name } = req.body;
 
-    // Check if user exists
+    // Check if user exists; addresses are compared case-insensitively, as in login and password reset
     const existingUser = await pool.query(
-      'SELECT * FROM users WHERE email = $1',
+      'SELECT id FROM users WHERE lower(email) = lower($1) LIMIT 1',
       [email]
     );
 
@@ -278,18 +387,25 @@ app.post('/api/auth/register', async (req, res) => {
 
     // Insert user
     const result = await pool.query(
-      'INSERT INTO users (email, password, name, created_at) VALUES ($1, $2, $3, NOW()) RETURNING id, email, name',
+      'INSERT INTO users (email, password, name, created_at) VALUES ($1, $2, $3, NOW()) RETURNING id, email, name, email_verified_at',
       [email, hashedPassword, name]
     );
 
     const user = result.rows[0];
 
+    // The account works right away; the address is confirmed through the link in this mail
+    try {
+      await sendAccountTokenMail(req, user, 'verify_email');
+    } catch (err) {
+      console.error('Verification mail failed:', err.message || err);
+    }
+
     // Generate JWT
     const token = jwt.sign({ id: user.id, email: user.email }, JWT_SECRET, {
       expiresIn: '7d'
     });
 
-    res.json({ user, token });
+    res.json({ user: legacyAuthUser(user, null), token });
   } catch (error) {
     console.error('Register error:', error);
     res.status(500).json({ error: 'Server error' });
@@ -297,21 +413,31 @@ app.post('/api/auth/register', async (req, res) => {
 });
 
 // Login
-app.post('/api/auth/login', async (req, res) => {
+app.post('/api/auth/login', limitLoginsPerIp, limitLoginsPerAccount, validateBody('login'), async (req, res) => {
   if (!pool) {
     return res.status(503).json({ error: 'Database unavailable' });
   }
+  const account = loginAccount(req);
+  const [accountLock, ipLock] = await Promise.all([accountLockout.retryAfter(account), ipLockout.retryAfter(req.ip)]);
+  if (accountLock || ipLock) {
+    const retryAfter = Math.max(accountLock || 0, ipLock || 0);
+    return sendTooManyRequests(res, retryAfter, `Too many failed login attempts; try again in ${retryAfter} seconds`);
+  }
+  const loginFailed = async () => {
+    await Promise.all([accountLockout.recordFailure(account), ipLockout.recordFailure(req.ip)]);
+    return res.status(401).json({ error: 'Invalid credentials' });
+  };
   try {
     const { email, password } = req.body;
 
-    // Find user
+    // Find user (the oldest account when addresses from before case-insensitive registration collide)
     const result = await pool.query(
-      'SELECT * FROM users WHERE email = $1',
-      [email]
+      'SELECT * FROM users WHERE lower(email) = lower($1) ORDER BY id LIMIT 1',
+      [email.trim()]
     );
 
     if (result.rows.length === 0) {
-      return res.status(401).json({ error: 'Invalid credentials' });
+      return loginFailed();
     }
 
     const user = result.rows[0];
@@ -319,8 +445,9 @@ app.post('/api/auth/login', async (req, res) => {
     // Check password
     const validPassword = await bcrypt.compare(password, user.password);
     if (!validPassword) {
-      return res.status(401).json({ error: 'Invalid credentials' });
+      return loginFailed();
     }
+    await accountLockout.clear(account);
 
     // Generate JWT
     const token = jwt.sign({ id: user.id, email: user.email }, JWT_SECRET, {
@@ -328,7 +455,7 @@ app.post('/api/auth/login', async (req, res) => {
     });
 
     res.json({
-      user: { id: user.id, email: user.email, name: user.name },
+      user: legacyAuthUser(user, await loadProfile(req, user.id)),
       token
     });
   } catch (error) {
@@ -337,522 +464,1215 @@ app.post('/api/auth/login', async (req, res) => {
   }
 });
 
+// Mails the signed-in legacy account a new verification link, e.g. when the first one expired.
+app.post('/api/auth/verify-email/request', authenticateToken, limitVerificationMailsPerAccount, async (req, res) => {
+  if (!pool) {
+    return res.status(503).json({ error: 'Database unavailable' });
+  }
+  try {
+    const result = await pool.query('SELECT id, email, name, email_verified_at FROM users WHERE id::text = $1', [String(req.user.id)]);
+    const user = result.rows[0];
+    if (!user) return res.status(404).json({ error: 'Account not found', hint: 'Only accounts registered with /api/auth/register are verified here' });
+    if (user.email_verified_at) return res.json({ email_verified: true });
+    await sendAccountTokenMail(req, user, 'verify_email');
+    return res.status(202).json({ email_verified: false, message: 'Verification mail sent' });
+  } catch (error) {
+    console.error('Verification mail error:', error);
+    return res.status(500).json({ error: 'Server error', hint: 'Could not send the verification mail' });
+  }
+});
+
+// Confirms the address of the account a verification link was sent to.
+app.post('/api/auth/verify-email', validateBody('accountToken'), async (req, res) => {
+  if (!pool) {
+    return res.status(503).json({ error: 'Database unavailable' });
+  }
+  try {
+    const userId = await consumeAccountToken(pool, req.body.token, 'verify_email');
+    if (!userId) return res.status(400).json({ error: 'Bad Request', hint: 'The link is invalid, already used or expired' });
+    await pool.query('UPDATE users SET email_verified_at = COALESCE(email_verified_at, NOW()) WHERE id::text = $1', [userId]);
+    return res.json({ email_verified: true });
+  } catch (error) {
+    console.error('Verify email error:', error);
+    return res.status(500).json({ error: 'Server error' });
+  }
+});
+
+// Mails a password reset link. The answer is the same whether or not the address has an account, so it cannot
+// be used to find out who is registered.
+app.post('/api/auth/password-reset/request', limitResetMailsPerIp, limitResetMailsPerAccount, validateBody('passwordResetRequest'), async (req, res) => {
+  if (!pool) {
+    return res.status(503).json({ error: 'Database unavailable' });
+  }
+  // Answer before looking the address up, so the response time does not tell whether it has an account.
+  res.status(202).json({ message: 'If there is an account for this address, a reset link has been sent to it' });
+  pool.query('SELECT id, email, name FROM users WHERE lower(email) = lower($1) ORDER BY id LIMIT 1', [req.body.email.trim()])
+    .then((result) => (result.rows.length ? sendAccountTokenMail(req, result.rows[0], 'reset_password') : null))
+    .catch((error) => {
+      console.error('Password reset mail error:', error);
+    });
+});
+
+// Sets a new password with the token from a reset link. Sessions from before the reset stop working (see
+// authenticateToken), receiving the link confirms the address, and any login lockout of the account is lifted.
+app.post('/api/auth/password-reset', limitPasswordResetsPerIp, validateBody('passwordReset'), async (req, res) => {
+  if (!pool) {
+    return res.status(503).json({ error: 'Database unavailable' });
+  }
+  try {
+    const userId = await consumeAccountToken(pool, req.body.token, 'reset_password');
+    if (!userId) return res.status(400).json({ error: 'Bad Request', hint: 'The link is invalid, already used or expired' });
+    const hashedPassword = await bcrypt.hash(req.body.password, 10);
+    const result = await pool.query(`
+      UPDATE users
+      SET password = $2, password_changed_at = NOW(), email_verified_at = COALESCE(email_verified_at, NOW())
+      WHERE id::text = $1
+      RETURNING email
+    `, [userId, hashedPassword]);
+    if (!result.rows.length) return res.status(404).json({ error: 'Account not found' });
+    await accountLockout.clear(result.rows[0].email.trim().toLowerCase());
+    return res.json({ message: 'Password changed; sign in with the new password' });
+  } catch (error) {
+    console.error('Password reset error:', error);
+    return res.status(500).json({ error: 'Server error' });
+  }
+});
+
+// Creates or updates the profile of the signed-in Supabase user: display name (from the body or the sign-up
+// metadata), locale and the date they joined. A legacy account with the same address is linked to it, so
+// signing in either way resolves to this profile; only once Supabase has confirmed the address, which is what
+// shows both accounts belong to the same person. The frontend calls this after sign-up and sign-in.
+app.post('/api/auth/sync', authenticateToken, validateBody('authSync'), async (req, res) => {
+  const supabaseUser = req.supabaseUser;
+  if (!supabaseUser) {
+    return res.status(400).json({ error: 'Bad Request', hint: 'Only Supabase sessions have a profile to sync' });
+  }
+  const repositories = req.app.locals.repositories;
+
+  let legacy = null;
+  if (supabaseUser.email && supabaseUser.email_confirmed_at) {
+    try {
+      legacy = await repositories.users.findLegacyAccount(supabaseUser.email);
+      // A legacy account is linked to one profile only
+      const linked = legacy && await repositories.users.get(legacy.id);
+      if (linked && linked.id !== String(legacy.id) && linked.id !== String(supabaseUser.id)) legacy = null;
+    } catch (err) {
+      // The profile is still worth saving; linking is retried on the next sync
+      console.warn('Legacy account lookup for sync failed:', err.message || err);
+      legacy = null;
+    }
+  }
+
+  const metadata = supabaseUser.user_metadata || {};
+  const name = (typeof req.body.name === 'string' && req.body.name.trim())
+    || metadata.name || metadata.full_name || (legacy && legacy.name) || null;
+  const [createdAt = null] = [supabaseUser.created_at, legacy && legacy.created_at]
+    .filter(Boolean)
+    .sort((a, b) => new Date(a) - new Date(b));
+
+  try {
+    const profile = await repositories.users.saveProfile({
+      userId: supabaseUser.id,
+      email: supabaseUser.email || null,
+      name,
+      locale: req.body.locale || null,
+      createdAt,
+      legacyUserId: legacy ? legacy.id : null
+    });
+    return res.json({ ...profile, linked_legacy_account: Boolean(legacy) });
+  } catch (error) {
+    return sendDataError(res, error, 'Profile sync');
+  }
+});
+
+// The signed-in user as the frontend AuthContext sees it, including their role and profile name.
+app.get('/api/auth/me', authenticateToken, async (req, res) => {
+  let role = 'observer';
+  try {
+    role = await loadUserRole(req);
+  } catch (err) {
+    // Every write is checked again by requireRole, so a failed lookup only hides privileged UI
+    console.warn('Role lookup for /api/auth/me failed:', err.message || err);
+  }
+  const profile = await loadProfile(req, req.user.id);
+  return res.json({
+    id: req.user.id,
+    email: req.user.email || null,
+    name: (profile && profile.name) || null,
+    locale: (profile && profile.locale) || null,
+    email_verified: req.supabaseUser ? Boolean(req.supabaseUser.email_confirmed_at) : await legacyEmailVerified(req.user.id),
+    role
+  });
+});
+
+// ============= ADMIN ENDPOINTS =============
+
+// Users with a role above observer.
+app.get('/api/admin/roles', authenticateToken, requireRole('admin'), async (req, res) => {
+  try {
+    const roles = await req.app.locals.repositories.users.listRoles();
+    const names = await observerNames(req, roles.map((row) => row.user_id));
+    return res.json(roles.map((row) => ({ ...row, name: names[String(row.user_id)] || null })));
+  } catch (error) {
+    return sendDataError(res, error, 'List roles');
+  }
+});
+
+// Grants a role (observer removes any privileges). Admins cannot demote themselves, so there is always one left.
+app.put('/api/admin/users/:id/role', authenticateToken, requireRole('admin'), validateBody('userRole'), async (req, res) => {
+  const userId = req.params.id;
+  const { role } = req.body;
+  if (String(userId) === String(req.user.id) && role !== 'admin') {
+    return res.status(400).json({ error: 'Bad Request', hint: 'You cannot remove your own admin role' });
+  }
+  try {
+    const result = await req.app.locals.repositories.users.setRole({ userId, role, grantedBy: String(req.user.id) });
+    return res.json(result);
+  } catch (error) {
+    return sendDataError(res, error, 'Set role');
+  }
+});
+
 // ============= GRID CELLS ENDPOINT =============
 
+// Cheap fingerprint of the data behind /api/grid-cells (cell and checklist counts plus the newest ids).
+// Lets us answer If-None-Match with 304 before loading any geometry. Returns null when unknown.
+const fetchGridCellsVersion = async (repositories) => {
+  try {
+    return await repositories.gridCells.version();
+  } catch (err) {
+    console.warn('Grid cells version check failed:', err.message || err);
+    return null;
+  }
+};
+
+// True when an If-None-Match header (possibly a list, possibly "*") matches the given ETag.
+const etagMatches = (header, etag) => {
+  if (!header) return false;
+  if (header.trim() === '*') return true;
+  const strip = (tag) => tag.trim().replace(/^W\//, '');
+  return header.split(',').some((tag) => strip(tag) === strip(etag));
+};
+
 // Get grid cells GeoJSON
+//   ?bbox=minLng,minLat,maxLng,maxLat  only cells intersecting the viewport
+//   ?zoom=<0-22>                       simplify geometries and trim coordinate precision for that zoom
+//   ?view=list                         [{ id, label, checklist_count, has_checklist }] without geometry
+//   ?id=<grid cell id>                 only that cell (the map draws coverage from /api/tiles/grid instead)
 app.get('/api/grid-cells', async (req, res) => {
+  let bbox;
   try {
-    if (supabaseAdmin) {
-      try {
-        const { data, error } = await supabaseAdmin
-          .from('grid_cells')
-          .select('id, geom, properties');
-        if (error && error.code !== '42P01') {
-          console.warn('Supabase grid_cells query failed:', error.message);
-        } else if (data && data.length) {
-          // If possible, also fetch checklists to annotate which grid cells
-          // have existing checklists so the map can show them differently.
-          let checklistCounts = {};
-          try {
-            const { data: checklists, error: listErr } = await supabaseAdmin
-              .from('checklists')
-              .select('grid_cell_id');
-            if (!listErr && Array.isArray(checklists)) {
-              for (const c of checklists) {
-                const k = String(c.grid_cell_id ?? c.gridCellId ?? c.grid_id ?? c.gridId);
-                checklistCounts[k] = (checklistCounts[k] || 0) + 1;
-              }
-            }
-          } catch (err2) {
-            console.warn('Supabase checklists fetch failed:', err2.message);
-          }
-
-          const features = data
-            .map((row, idx) => {
-              const normalized = normalizeGridCellRow({
-                id: row.id,
-                properties: row.properties || {},
-                geometry: row.geom
-              }, idx);
-              if (!normalized) return null;
-              const key = String(normalized.id);
-              normalized.properties = normalized.properties || {};
-              normalized.properties.checklist_count = checklistCounts[key] || 0;
-              normalized.properties.has_checklist = (normalized.properties.checklist_count || 0) > 0;
-              return normalized;
-            })
-            .filter(Boolean);
-          if (features.length) {
-            return res.json({ type: 'FeatureCollection', features });
-          }
-        }
-      } catch (err) {
-        console.warn('Supabase grid_cells exception:', err.message);
+    bbox = parseBbox(req.query.bbox);
+  } catch (err) {
+    return res.status(400).json({ error: 'Bad Request', hint: err.message });
+  }
+  const zoom = req.query.zoom !== undefined ? Number(req.query.zoom) : null;
+  if (zoom !== null && (!Number.isInteger(zoom) || zoom < 0 || zoom > 22)) {
+    return res.status(400).json({ error: 'Bad Request', hint: 'zoom must be an integer between 0 and 22' });
+  }
+  const listView = req.query.view === 'list';
+  const cellId = req.query.id !== undefined && req.query.id !== '' ? String(req.query.id) : null;
+  const tolerance = toleranceForZoom(zoom);
+  const precision = precisionForZoom(zoom);
+
+  const toListItem = (id, properties, checklistCount) => ({
+    id,
+    label: gridCellLabel(id, properties || {}),
+    checklist_count: checklistCount,
+    has_checklist: checklistCount > 0
+  });
+
+  const repositories = req.app.locals.repositories;
+  try {
+    const version = await fetchGridCellsVersion(repositories);
+    if (version) {
+      const variant = [version, listView ? 'list' : 'features', bbox ? bbox.join(',') : '', zoom ?? '', cellId ?? ''].join('|');
+      const etag = `W/"grid-${crypto.createHash('sha1').update(variant).digest('hex').slice(0, 20)}"`;
+      res.setHeader('ETag', etag);
+      res.setHeader('Cache-Control', 'no-cache');
+      if (etagMatches(req.headers['if-none-match'], etag)) {
+        return res.status(304).end();
       }
     }
 
-    if (pool) {
-      try {
-        const result = await pool.query(`
-          SELECT
-            gc.id,
-            ST_AsGeoJSON(gc.geom)::json AS geometry,
-            gc.properties,
-            COALESCE(c.checklist_count, 0) AS checklist_count
-          FROM grid_cells gc
-          LEFT JOIN (
-            SELECT grid_cell_id, COUNT(*)::int AS checklist_count
-            FROM checklists
-            GROUP BY grid_cell_id
-          ) c ON c.grid_cell_id = gc.id
-        `);
-
-        const geojson = {
-          type: 'FeatureCollection',
-          features: result.rows
-            .map((row, idx) => {
-              const n = normalizeGridCellRow(row, idx);
-              if (!n) return null;
-              n.properties = n.properties || {};
-              n.properties.checklist_count = row.checklist_count || 0;
-              n.properties.has_checklist = (n.properties.checklist_count || 0) > 0;
-              return n;
-            })
-            .filter(Boolean)
+    const cells = await repositories.gridCells.list({ id: cellId, bbox, withGeometry: !listView, tolerance, precision });
+    if (listView) {
+      return res.json(cells.map((cell) => toListItem(cell.id, cell.properties, cell.checklist_count)));
+    }
+
+    const features = cells
+      .map((cell, idx) => {
+        const feature = normalizeGridCellRow(cell, idx);
+        if (!feature) return null;
+        feature.properties = {
+          ...feature.properties,
+          checklist_count: cell.checklist_count,
+          has_checklist: cell.checklist_count > 0
         };
+        return feature;
+      })
+      .filter(Boolean);
+    return res.json({ type: 'FeatureCollection', features });
+  } catch (error) {
+    res.removeHeader('ETag');
+    return sendDataError(res, error, 'Grid cells', 'Grid cells unavailable');
+  }
+});
 
-        if (geojson.features.length) {
-          return res.json(geojson);
-        }
-      } catch (err) {
-        console.warn('Grid cells via Postgres failed:', err.message);
+const SURVEY_GAPS_DEFAULT_RADIUS_KM = 10;
+const SURVEY_GAPS_MAX_RADIUS_KM = 50;
+const SURVEY_GAPS_DEFAULT_LIMIT = 10;
+const SURVEY_GAPS_MAX_LIMIT = 50;
+
+// "Where to survey next": unvisited or under-sampled cells (little search effort, habitats not sampled,
+// few species) near a point, best candidates first.
+//   ?lat=&lng=         WGS84 origin (required)
+//   ?radius_km=<1-50>  search radius, default 10
+//   ?limit=<1-50>      number of cells, default 10
+// Declared before /api/grid-cells/:id so "recommendations" is not taken for a cell id.
+app.get('/api/grid-cells/recommendations', async (req, res) => {
+  const lat = Number(req.query.lat);
+  const lng = Number(req.query.lng);
+  if (req.query.lat === undefined || req.query.lng === undefined
+    || !Number.isFinite(lat) || !Number.isFinite(lng) || Math.abs(lat) > 90 || Math.abs(lng) > 180) {
+    return res.status(400).json({ error: 'Bad Request', hint: 'lat and lng must be WGS84 coordinates' });
+  }
+  const radiusKm = req.query.radius_km === undefined ? SURVEY_GAPS_DEFAULT_RADIUS_KM : Number(req.query.radius_km);
+  if (!Number.isFinite(radiusKm) || radiusKm <= 0 || radiusKm > SURVEY_GAPS_MAX_RADIUS_KM) {
+    return res.status(400).json({ error: 'Bad Request', hint: `radius_km must be between 0 and ${SURVEY_GAPS_MAX_RADIUS_KM}` });
+  }
+  const limit = req.query.limit === undefined ? SURVEY_GAPS_DEFAULT_LIMIT : Number(req.query.limit);
+  if (!Number.isInteger(limit) || limit < 1 || limit > SURVEY_GAPS_MAX_LIMIT) {
+    return res.status(400).json({ error: 'Bad Request', hint: `limit must be an integer between 1 and ${SURVEY_GAPS_MAX_LIMIT}` });
+  }
+
+  try {
+    const origin = { lat, lng };
+    const cells = await req.app.locals.repositories.gridCells.coverage({ bbox: bboxAround(origin, radiusKm) });
+    const ranked = rankSurveyGaps(cells, origin, { radiusKm, limit });
+    return res.json(ranked.map(({ properties, ...cell }) => ({
+      ...cell,
+      label: gridCellLabel(cell.id, properties)
+    })));
+  } catch (error) {
+    return sendDataError(res, error, 'Survey recommendations', 'Grid cells unavailable');
+  }
+});
+
+// Stable pseudonym for an observer in public responses, so checklists by the same person can be told apart
+// without exposing user ids.
+const observerAlias = (userId) => `observer-${crypto.createHmac('sha256', JWT_SECRET).update(String(userId)).digest('hex').slice(0, 6)}`;
+
+// Display names of user ids (see POST /api/auth/sync) for responses to validators and admins; {} when they
+// cannot be loaded, as the alias or id is still there to go by.
+const observerNames = async (req, userIds) => {
+  if (!userIds.length) return {};
+  try {
+    return await req.app.locals.repositories.users.names(userIds.map(String));
+  } catch (err) {
+    console.warn('Observer name lookup failed:', err.message || err);
+    return {};
+  }
+};
+
+// What is known about one grid cell: its checklists (newest first, with observer alias and sampled habitats),
+// the species recorded there with accumulated counts, and how often each habitat was sampled.
+app.get('/api/grid-cells/:id', async (req, res) => {
+  try {
+    const cell = await req.app.locals.repositories.gridCells.detail(req.params.id);
+    if (!cell) return res.status(404).json({ error: 'Grid cell not found' });
+
+    const checklists = cell.checklists.map(({ user_id: userId, ...checklist }) => ({
+      ...checklist,
+      observer: observerAlias(userId)
+    }));
+    const habitats = CHECKLIST_LOCATION_TYPES.map((type) => {
+      const count = checklists.filter((c) => c.habitats.includes(type)).length;
+      return { type, sampled: count > 0, checklist_count: count };
+    });
+
+    return res.json({
+      id: cell.id,
+      label: gridCellLabel(cell.id, cell.properties || {}),
+      properties: cell.properties || {},
+      checklist_count: checklists.length,
+      last_visited: checklists.length ? checklists[0].submitted_at : null,
+      checklists,
+      species: cell.species,
+      habitats
+    });
+  } catch (error) {
+    return sendDataError(res, error, 'Grid cell detail', 'Grid cells unavailable');
+  }
+});
+
+// ============= VECTOR TILE ENDPOINT =============
+
+// Grid cell coverage as Mapbox Vector Tiles (layer "grid", properties id, label, checklist_count, has_checklist).
+// Empty tiles are answered with 204.
+app.get('/api/tiles/grid/:z/:x/:y.pbf', async (req, res) => {
+  const coords = parseTileCoords(req.params.z, req.params.x, req.params.y);
+  if (!coords) {
+    return res.status(400).json({ error: 'Bad Request', hint: 'z must be 0-22 and x/y within 0..2^z-1' });
+  }
+
+  const repositories = req.app.locals.repositories;
+  try {
+    const version = await fetchGridCellsVersion(repositories);
+    if (version) {
+      const variant = [version, coords.z, coords.x, coords.y].join('|');
+      const etag = `W/"tile-${crypto.createHash('sha1').update(variant).digest('hex').slice(0, 20)}"`;
+      res.setHeader('ETag', etag);
+      res.setHeader('Cache-Control', 'no-cache');
+      if (etagMatches(req.headers['if-none-match'], etag)) {
+        return res.status(304).end();
       }
     }
 
-    return res.status(503).json({ error: 'Grid cells unavailable' });
+    const tile = await repositories.gridCells.tile(coords, { version });
+    if (!tile) return res.status(204).end();
+    res.setHeader('Content-Type', 'application/vnd.mapbox-vector-tile');
+    return res.send(tile);
   } catch (error) {
-    console.error('Grid cells error:', error && error.stack ? error.stack : error);
-    if (process.env.DEBUG_API_ERRORS === 'true') {
-      return res.status(500).json({ error: 'Server error', detail: error.message, stack: error.stack });
-    }
-    res.status(500).json({ error: 'Server error' });
+    res.removeHeader('ETag');
+    return sendDataError(res, error, 'Grid tile', 'Grid tiles unavailable');
   }
 });
 
 // ============= CHECKLIST ENDPOINTS =============
 
+// Returned when a submissionId was already stored, so client retries get the original checklist back.
+const duplicateSubmissionResponse = (checklistId) => ({
+  success: true,
+  checklistId: checklistId ?? null,
+  duplicate: true,
+  message: 'Checklist already submitted'
+});
+
+// Checks that every habitat point lies inside the checklist's grid cell.
+// Resolves null when all points are valid, otherwise the 422 body to send.
+const validateLocationsInGridCell = async (repositories, gridCellId, locations = {}) => {
+  const points = Object.entries(locations).filter(([, loc]) => loc && typeof loc === 'object');
+  if (!points.length) return null;
+
+  const geometry = await repositories.gridCells.getGeometry(gridCellId);
+  if (!geometry) {
+    return {
+      error: 'Unprocessable Entity',
+      code: 'GRID_CELL_NOT_FOUND',
+      hint: `Grid cell ${gridCellId} does not exist`,
+      gridCellId
+    };
+  }
+
+  const invalid = points
+    .map(([type, loc]) => {
+      const lat = Number(loc.lat);
+      const lng = Number(loc.lng);
+      if (!Number.isFinite(lat) || !Number.isFinite(lng)) {
+        return { type, lat: loc.lat ?? null, lng: loc.lng ?? null, reason: 'invalid_coordinates' };
+      }
+      return pointInGeometry(geometry, [lng, lat]) ? null : { type, lat, lng, reason: 'outside_grid_cell' };
+    })
+    .filter(Boolean);
+  if (!invalid.length) return null;
+
+  return {
+    error: 'Unprocessable Entity',
+    code: 'LOCATION_OUTSIDE_GRID_CELL',
+    hint: `Every habitat location must lie inside grid cell ${gridCellId}`,
+    gridCellId,
+    locations: invalid
+  };
+};
+
+// Maps the keys of a { key: count } species body (taxon ids, scientific names or synonyms) to taxon ids.
+// Keys with a zero count are dropped; counts for keys naming the same taxon are added up.
+// Resolves { species: { [taxonId]: count }, unknown: [key] }.
+const resolveSpeciesCounts = async (repositories, species = {}) => {
+  const counted = Object.entries(species || {}).filter(([, count]) => Number(count) > 0);
+  if (!counted.length) return { species: {}, unknown: [] };
+
+  const resolved = await repositories.species.resolve(counted.map(([key]) => key));
+  const byTaxon = {};
+  const unknown = [];
+  for (const [key, count] of counted) {
+    const taxon = resolved[key];
+    if (!taxon) {
+      unknown.push(key);
+      continue;
+    }
+    byTaxon[taxon.id] = (byTaxon[taxon.id] || 0) + Number(count);
+  }
+  return { species: byTaxon, unknown };
+};
+
+const unknownSpeciesResponse = (keys) => ({
+  error: 'Unprocessable Entity',
+  code: 'UNKNOWN_SPECIES',
+  hint: `Unknown species: ${keys.join(', ')}`,
+  species: keys
+});
+
+// Photo as returned to observers and validators: storage keys replaced by URLs, no user id.
+const photoResponse = async (storage, { user_id: _userId, storage_key: storageKey, thumbnail_key: thumbnailKey, ...photo }) => ({
+  ...photo,
+  url: await storage.url(storageKey),
+  thumbnail_url: await storage.url(thumbnailKey)
+});
+
+// Adds `photos` to each observation (rows with an `id`). Photos are an extra: when they cannot be loaded
+// the observations are returned without them instead of failing the request.
+const attachPhotos = async (req, observations) => {
+  const ids = observations.map((o) => o.id).filter((id) => id !== undefined && id !== null);
+  const byObservation = {};
+  if (ids.length) {
+    try {
+      const rows = await req.app.locals.repositories.photos.listForObservations(ids);
+      for (const row of rows) {
+        const photo = await photoResponse(req.app.locals.photoStorage, row);
+        (byObservation[row.observation_id] = byObservation[row.observation_id] || []).push(photo);
+      }
+    } catch (err) {
+      console.warn('Loading observation photos failed:', err.message || err);
+    }
+  }
+  return observations.map((o) => ({ ...o, photos: byObservation[o.id] || [] }));
+};
+
+// Storage keys of the photos on a checklist, optionally only for observations matching `filter`.
+// Looked up before the observations are deleted; a failed lookup only leaves files behind.
+const checklistPhotoKeys = async (repositories, checklistId, userId, filter = () => true) => {
+  try {
+    const checklist = await repositories.checklists.getForUser(checklistId, userId);
+    const ids = checklist ? (checklist.species || []).filter(filter).map((sp) => sp.id) : [];
+    if (!ids.length) return [];
+    const rows = await repositories.photos.listForObservations(ids);
+    return rows.flatMap((row) => [row.storage_key, row.thumbnail_key]);
+  } catch (err) {
+    console.warn('Photo lookup before delete failed:', err.message || err);
+    return [];
+  }
+};
+
+const removePhotoFiles = async (storage, keys) => {
+  try {
+    await storage.remove(keys);
+  } catch (err) {
+    console.warn('Removing photo files failed:', err.message || err);
+  }
+};
+
 // Submit checklist
-app.post('/api/checklists', authenticateToken, async (req, res) => {
+// Body shape is checked by the checklistCreate schema in shared/request-schemas.json.
+app.post('/api/checklists', authenticateToken, limitChecklistsPerIp, limitChecklistsPerAccount, validateBody('checklistCreate'), async (req, res) => {
   console.debug('POST /api/checklists invoked, origin:', req.headers.origin || 'no-origin', 'user:', req.user && req.user.id ? req.user.id : 'anonymous');
   try { console.debug('Checklist body keys:', Object.keys(req.body || {}).join(',')); } catch (e) {}
 
-  // Extract and normalize incoming checklist fields early so they are available for the Supabase fallback
-  const { gridCellId, locations = {}, species = {}, timeSpent } = req.body || {};
-  const normalizedLocations = { ...locations };
-  if (!normalizedLocations.anthropogenous && normalizedLocations.urban) {
-    normalizedLocations.anthropogenous = normalizedLocations.urban;
-  }
+  const { gridCellId, locations = {}, species = {}, timeSpent, submissionId = null } = req.body || {};
   const userId = req.user && req.user.id;
+  const repositories = req.app.locals.repositories;
 
   // Basic validation for required fields — give early helpful messages
   if (!userId) {
     console.warn('authenticateToken passed but req.user.id missing for checklist submit');
     return res.status(401).json({ error: 'Unauthorized', hint: 'Missing authenticated user id' });
   }
-  if (!gridCellId) {
-    return res.status(400).json({ error: 'Bad Request', hint: 'gridCellId is required' });
-  }
-  if (!timeSpent || Number.isNaN(Number(timeSpent))) {
-    return res.status(400).json({ error: 'Bad Request', hint: 'timeSpent is required and must be a number' });
-  }
 
-  // Prefer Supabase admin client when available and Supabase is intended to be the primary DB.
-  if (supabaseAdmin) {
-    try {
-      // Use RPC function to insert checklist into canonical schema including geometries and species
-      const payload = {
-        user_id: userId,
-        grid_cell_id: gridCellId,
-        time_spent_minutes: Number(timeSpent),
-        locations: normalizedLocations,
-        species: species
-      };
-
-      try {
-        const { data: rpcRes, error: rpcErr } = await supabaseAdmin.rpc('insert_checklist', { payload });
-        if (rpcErr) {
-          console.warn('Supabase RPC insert_checklist failed:', JSON.stringify(rpcErr));
-          const hint = process.env.DEBUG_API_ERRORS === 'true' ? (rpcErr.message || JSON.stringify(rpcErr)) : 'Supabase insert RPC failed';
-          // If Postgres pool exists, fall back to it
-          if (pool) {
-            console.debug('Falling back to Postgres pool due to RPC error');
-          } else {
-            return res.status(503).json({ error: 'Database unavailable', hint });
-          }
-        } else {
-          const insertedId = rpcRes && rpcRes.id ? rpcRes.id : (Array.isArray(rpcRes) && rpcRes.length ? rpcRes[0].id : null);
-          console.debug('Supabase RPC insert_checklist success id:', insertedId);
-          return res.json({ success: true, checklistId: insertedId ?? null, message: 'Checklist inserted using Supabase RPC' });
-        }
-      } catch (e) {
-        console.error('Supabase RPC call exception:', e.message || e);
-        if (!pool) return res.status(503).json({ error: 'Database unavailable', hint: 'Supabase RPC call exception' });
-        // else fall through to Postgres path
-      }
-    } catch (e) {
-      console.error('Supabase primary path exception:', e.message || e);
-      // fall through to pool path if available
-    }
+  try {
+    const locationError = await validateLocationsInGridCell(repositories, gridCellId, locations);
+    if (locationError) return res.status(422).json(locationError);
+  } catch (err) {
+    console.error('Grid cell lookup for location check failed:', err.message || err);
+    return res.status(503).json({ error: 'Database unavailable', hint: 'Could not load the grid cell to validate locations' });
   }
-  if (!pool) {
-    console.warn('POST /api/checklists: Postgres pool unavailable. Attempting Supabase fallback if available.');
-    // If Supabase admin client is configured, try to insert a simplified checklist fallback
-    if (supabaseAdmin) {
-      try {
-        // Supabase fallback: only insert basic checklist fields that exist in the schema.
-        // Some schemas store geometry columns (forest/urban/swamp) or separate checklist_locations,
-        // which cannot be set via a simple `insert` call — such inserts would need RPC/SQL.
-        const payload = {
-          user_id: userId,
-          grid_cell_id: gridCellId,
-          time_spent_minutes: Number(timeSpent),
-          submitted_at: new Date().toISOString()
-        };
 
-        console.debug('Supabase fallback insert (simple, no locations/species in payload)');
+  let resolvedSpecies;
+  try {
+    const { species: byTaxon, unknown } = await resolveSpeciesCounts(repositories, species);
+    if (unknown.length) return res.status(422).json(unknownSpeciesResponse(unknown));
+    resolvedSpecies = byTaxon;
+  } catch (err) {
+    return sendDataError(res, err, 'Species lookup');
+  }
 
-        const { data, error } = await supabaseAdmin.from('checklists').insert(payload).select();
-        if (error) {
-          console.warn('Supabase fallback insert failed:', JSON.stringify(error));
-          const hint = process.env.DEBUG_API_ERRORS === 'true' ? (error.message || JSON.stringify(error)) : 'Supabase fallback failed to insert';
-          return res.status(503).json({ error: 'Database unavailable', hint });
-        }
-        // If insert returns inserted row id use it; otherwise return a success hint
-        const insertedId = Array.isArray(data) && data.length ? data[0].id : null;
-        if (!insertedId) {
-          console.warn('Supabase fallback insert succeeded but no id returned in response');
-        }
-        console.debug('Supabase fallback insert success, id:', insertedId);
-
-        // Insert species observations (if any) as separate rows in species_observations
-        try {
-          const speciesRows = [];
-          for (const [speciesName, count] of Object.entries(species || {})) {
-            const numericCount = Number(count || 0);
-            if (numericCount > 0) {
-              // Only attempt species insert if we have an insertedId to reference
-              if (insertedId) {
-                speciesRows.push({ checklist_id: insertedId, species_name: String(speciesName), count: numericCount });
-              } else {
-                console.warn('Skipping species insertion due to missing checklist ID');
-              }
-            }
-          }
-          if (speciesRows.length) {
-            const { data: speciesData, error: speciesErr } = await supabaseAdmin.from('species_observations').insert(speciesRows).select();
-            if (speciesErr) {
-                console.warn('Supabase fallback species insert failed:', JSON.stringify(speciesErr));
-            } else {
-              console.debug('Supabase fallback species insert succeeded, rows:', speciesData?.length ?? speciesRows.length);
-            }
-          }
-        } catch (err2) {
-          console.warn('Supabase fallback species insert exception:', err2.message || err2);
-        }
+  try {
+    const result = await repositories.checklists.create({
+      userId,
+      gridCellId,
+      timeSpentMinutes: Number(timeSpent),
+      locations: normalizeChecklistLocations(locations),
+      species: resolvedSpecies,
+      submissionId
+    });
+    if (result.duplicate) return res.json(duplicateSubmissionResponse(result.id));
+    return res.json({
+      success: true,
+      checklistId: result.id,
+      message: 'Checklist submitted successfully'
+    });
+  } catch (error) {
+    return sendDataError(res, error, 'Checklist submission');
+  }
+});
 
-        // Locations may require PostGIS geometry insert (ST_SetSRID). We cannot reliably insert them
-        // without a SQL/RPC endpoint that sets geom using PostGIS functions. Therefore we only log them
-        // so they can optionally be re-imported later, and inform the client that locations weren't stored.
-        if (normalizedLocations && (normalizedLocations.forest || normalizedLocations.urban || normalizedLocations.swamp)) {
-          console.debug('Supabase fallback: locations present but not stored due to PostGIS requirements:', Object.keys(normalizedLocations));
-        }
-        const fallbackMsgParts = ['Checklist stored via Supabase fallback'];
-        if (normalizedLocations && (normalizedLocations.forest || normalizedLocations.urban || normalizedLocations.swamp)) {
-          fallbackMsgParts.push('locations not stored due to PostGIS requirements');
-        }
-        return res.json({ success: true, checklistId: insertedId, message: fallbackMsgParts.join(' — ') });
-      } catch (err) {
-        console.error('Supabase fallback exception:', err.message || err);
-        return res.status(503).json({ error: 'Database unavailable', hint: 'Postgres disabled; supabase fallback failed due to an exception' });
-      }
-    }
+// Checklist ids are Postgres integers in every backend; anything else is refused before it reaches a query.
+const parseChecklistId = (value) => (/^\d{1,9}$/.test(String(value)) && Number(value) > 0 ? Number(value) : null);
 
-    // No supabaseAdmin available — tell the client why the request cannot be completed
-    console.warn('POST /api/checklists aborted: neither Postgres pool nor Supabase admin client are available.');
-    return res.status(503).json({ error: 'Database unavailable', hint: 'Postgres disabled; set DATABASE_URL and ensure the server can reach the database, or set SUPABASE_SERVICE_ROLE_KEY to enable a fallback.' });
-  }
+const checklistIdError = (res) => res.status(400).json({ error: 'Bad Request', hint: 'Checklist id must be a positive integer' });
 
-  // Postgres pool path
-  let client;
+// Get user's checklists
+app.get('/api/checklists', authenticateToken, async (req, res) => {
   try {
-    client = await pool.connect();
-  } catch (err) {
-    console.error('Failed to acquire Postgres client:', err.message);
-    return res.status(503).json({ error: 'Database unavailable' });
+    return res.json(await req.app.locals.repositories.checklists.listForUser(req.user.id));
+  } catch (error) {
+    return sendDataError(res, error, 'Get checklists');
   }
+});
+
+// Get checklist details
+app.get('/api/checklists/:id', authenticateToken, async (req, res) => {
+  const checklistId = parseChecklistId(req.params.id);
+  if (checklistId === null) return checklistIdError(res);
 
   try {
-    await client.query('BEGIN');
+    const checklist = await req.app.locals.repositories.checklists.getForUser(checklistId, req.user.id);
+    if (!checklist) {
+      return res.status(404).json({ error: 'Checklist not found' });
+    }
+    return res.json({ ...checklist, species: await attachPhotos(req, checklist.species || []) });
+  } catch (error) {
+    return sendDataError(res, error, 'Get checklist details');
+  }
+});
 
-    // `gridCellId`, `locations`, `species`, `timeSpent`, `normalizedLocations` and `userId`
-    // were declared earlier before the pool check. Use those instead of redeclaring.
+// Shared handler for PUT (full replacement) and PATCH (only the fields present in the body).
+// Field shapes are checked beforehand by the checklistReplace / checklistPatch schemas.
+const updateChecklistHandler = (partial) => async (req, res) => {
+  const checklistId = parseChecklistId(req.params.id);
+  const userId = req.user && req.user.id;
+  const body = req.body || {};
+  const hasTimeSpent = body.timeSpent !== undefined;
+  const hasSpecies = body.species !== undefined;
+  const hasLocations = body.locations !== undefined;
+  const repositories = req.app.locals.repositories;
 
-    const checklistResult = await client.query(`
-      INSERT INTO checklists (user_id, grid_cell_id, time_spent_minutes, submitted_at)
-      VALUES ($1, $2, $3, NOW())
-      RETURNING id
-    `, [userId, gridCellId, timeSpent]);
+  if (!userId) {
+    return res.status(401).json({ error: 'Unauthorized', hint: 'Missing authenticated user id' });
+  }
+  if (checklistId === null) return checklistIdError(res);
+  if (partial && !hasTimeSpent && !hasSpecies && !hasLocations) {
+    return res.status(400).json({ error: 'Bad Request', hint: 'Nothing to update' });
+  }
 
-    const checklistId = checklistResult.rows[0].id;
+  // A PUT replaces the whole checklist, so absent collections are cleared.
+  let species = hasSpecies ? body.species : (partial ? undefined : {});
+  const locations = hasLocations ? normalizeChecklistLocations(body.locations) : (partial ? undefined : {});
 
-    const locationTypes = ['forest', 'swamp', 'anthropogenous'];
-    for (const locType of locationTypes) {
-      if (normalizedLocations[locType]) {
-        const { lat, lng } = normalizedLocations[locType];
-        await client.query(`
-          INSERT INTO checklist_locations (checklist_id, location_type, geom)
-          VALUES ($1, $2, ST_SetSRID(ST_MakePoint($3, $4), 31370))
-        `, [checklistId, locType, lng, lat]);
-      }
+  if (hasLocations) {
+    try {
+      const gridCellId = await repositories.checklists.getGridCellId(checklistId, userId);
+      if (gridCellId === null) return res.status(404).json({ error: 'Checklist not found' });
+      const locationError = await validateLocationsInGridCell(repositories, gridCellId, body.locations);
+      if (locationError) return res.status(422).json(locationError);
+    } catch (err) {
+      console.error('Grid cell lookup for location check failed:', err.message || err);
+      return res.status(503).json({ error: 'Database unavailable', hint: 'Could not load the grid cell to validate locations' });
     }
+  }
 
-    for (const [speciesName, count] of Object.entries(species)) {
-      if (count > 0) {
-        await client.query(`
-          INSERT INTO species_observations (checklist_id, species_name, count)
-          VALUES ($1, $2, $3)
-        `, [checklistId, speciesName, count]);
-      }
+  if (hasSpecies) {
+    try {
+      const { species: byTaxon, unknown } = await resolveSpeciesCounts(repositories, body.species);
+      if (unknown.length) return res.status(422).json(unknownSpeciesResponse(unknown));
+      species = byTaxon;
+    } catch (err) {
+      return sendDataError(res, err, 'Species lookup');
     }
+  }
 
-    await client.query('COMMIT');
+  // Observations of taxa no longer on the checklist are deleted, and their photo files with them.
+  const droppedPhotoKeys = species === undefined
+    ? []
+    : await checklistPhotoKeys(repositories, checklistId, userId, (sp) => !(species[sp.species_id] > 0));
 
-    res.json({
+  try {
+    const result = await repositories.checklists.update({
+      checklistId,
+      userId,
+      timeSpentMinutes: hasTimeSpent ? Number(body.timeSpent) : undefined,
+      species,
+      locations
+    });
+    if (!result) return res.status(404).json({ error: 'Checklist not found' });
+    await removePhotoFiles(req.app.locals.photoStorage, droppedPhotoKeys);
+    return res.json({
       success: true,
       checklistId,
-      message: 'Checklist submitted successfully'
+      revisionId: result.revisionId,
+      message: 'Checklist updated'
     });
   } catch (error) {
-    try {
-      await client.query('ROLLBACK');
-    } catch (rollbackErr) {
-      console.error('Checklist rollback failed:', rollbackErr.message);
-    }
-    console.error('Checklist submission error:', error.message || error);
-    res.status(500).json({ error: 'Error submitting checklist', detail: error.message });
-  } finally {
-    if (client) client.release();
+    return sendDataError(res, error, 'Checklist update');
+  }
+};
+
+// Update own checklist (full replacement)
+app.put('/api/checklists/:id', authenticateToken, validateBody('checklistReplace'), updateChecklistHandler(false));
+
+// Update own checklist (partial)
+app.patch('/api/checklists/:id', authenticateToken, validateBody('checklistPatch'), updateChecklistHandler(true));
+
+// Delete own checklist; the final state is kept in checklist_revisions
+app.delete('/api/checklists/:id', authenticateToken, async (req, res) => {
+  const checklistId = parseChecklistId(req.params.id);
+  const userId = req.user && req.user.id;
+  if (!userId) {
+    return res.status(401).json({ error: 'Unauthorized', hint: 'Missing authenticated user id' });
+  }
+  if (checklistId === null) return checklistIdError(res);
+
+  const repositories = req.app.locals.repositories;
+  const photoKeys = await checklistPhotoKeys(repositories, checklistId, userId);
+
+  try {
+    const result = await repositories.checklists.remove({ checklistId, userId });
+    if (!result) return res.status(404).json({ error: 'Checklist not found' });
+    await removePhotoFiles(req.app.locals.photoStorage, photoKeys);
+    return res.json({ success: true, checklistId, revisionId: result.revisionId });
+  } catch (error) {
+    return sendDataError(res, error, 'Checklist delete');
   }
 });
 
-// Get user's checklists
-app.get('/api/checklists', authenticateToken, async (req, res) => {
-  if (supabaseAdmin) {
-    // Prefer supabaseAdmin as the primary data source
+// Revision history of own checklist (newest first); also available after deletion
+app.get('/api/checklists/:id/revisions', authenticateToken, async (req, res) => {
+  const checklistId = parseChecklistId(req.params.id);
+  if (checklistId === null) return checklistIdError(res);
+  try {
+    return res.json(await req.app.locals.repositories.checklists.revisions(checklistId, req.user.id));
+  } catch (error) {
+    return sendDataError(res, error, 'Get checklist revisions');
+  }
+});
+
+// ============= PHOTO ENDPOINTS =============
+
+const PHOTOS_PER_REQUEST = 5;
+const PHOTOS_PER_OBSERVATION = 10;
+
+const photoUpload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: PHOTO_MAX_BYTES, files: PHOTOS_PER_REQUEST },
+  fileFilter: (req, file, callback) => {
+    if (PHOTO_CONTENT_TYPES.includes(file.mimetype)) return callback(null, true);
+    return callback(Object.assign(new Error(`Unsupported photo type: ${file.mimetype}`), { code: 'UNSUPPORTED_PHOTO_TYPE' }));
+  }
+}).array('photos', PHOTOS_PER_REQUEST);
+
+// Runs multer and answers its errors as JSON: 413 for oversized files, 415 for other formats,
+// 400 for anything else wrong with the form (too many files, unknown fields).
+const receivePhotos = (req, res, next) => photoUpload(req, res, (err) => {
+  if (!err) return next();
+  if (err.code === 'LIMIT_FILE_SIZE') {
+    return res.status(413).json({ error: 'Payload Too Large', hint: `Photos may be at most ${PHOTO_MAX_BYTES / (1024 * 1024)} MB` });
+  }
+  if (err.code === 'UNSUPPORTED_PHOTO_TYPE') {
+    return res.status(415).json({ error: 'Unsupported Media Type', hint: `Photos must be one of ${PHOTO_CONTENT_TYPES.join(', ')}` });
+  }
+  return res.status(400).json({ error: 'Bad Request', hint: err.message });
+});
+
+// Attaches photos to one species observation on the signed-in observer's checklist.
+// multipart/form-data: species=<taxon id, scientific name or synonym>, photos=<1-5 JPEG, PNG or WebP files>.
+// Each photo is stored re-encoded with a thumbnail; its EXIF date and position are kept on the row.
+app.post('/api/checklists/:id/photos', authenticateToken, receivePhotos, async (req, res) => {
+  const checklistId = parseChecklistId(req.params.id);
+  const userId = req.user && req.user.id;
+  const files = req.files || [];
+  const speciesKey = typeof req.body.species === 'string' ? req.body.species.trim() : '';
+  if (!userId) {
+    return res.status(401).json({ error: 'Unauthorized', hint: 'Missing authenticated user id' });
+  }
+  if (checklistId === null) return checklistIdError(res);
+  if (!speciesKey) return res.status(400).json({ error: 'Bad Request', hint: 'species is required' });
+  if (!files.length) return res.status(400).json({ error: 'Bad Request', hint: 'Attach at least one file as photos' });
+
+  const repositories = req.app.locals.repositories;
+  const storage = req.app.locals.photoStorage;
+
+  let observation;
+  try {
+    const resolved = await repositories.species.resolve([speciesKey]);
+    if (!resolved[speciesKey]) return res.status(404).json({ error: 'Species not found' });
+    const checklist = await repositories.checklists.getForUser(checklistId, userId);
+    if (!checklist) return res.status(404).json({ error: 'Checklist not found' });
+    observation = (checklist.species || []).find((sp) => String(sp.species_id) === String(resolved[speciesKey].id));
+    if (!observation) {
+      return res.status(404).json({ error: 'Observation not found', hint: `${speciesKey} is not on this checklist` });
+    }
+    const existing = await repositories.photos.listForObservations([observation.id]);
+    if (existing.length + files.length > PHOTOS_PER_OBSERVATION) {
+      return res.status(422).json({
+        error: 'Unprocessable Entity',
+        code: 'TOO_MANY_PHOTOS',
+        hint: `An observation can have at most ${PHOTOS_PER_OBSERVATION} photos (${existing.length} attached)`
+      });
+    }
+  } catch (error) {
+    return sendDataError(res, error, 'Photo upload lookup');
+  }
+
+  // One image at a time: decoding large photos is memory hungry.
+  const processed = [];
+  for (const file of files) {
     try {
-      const { data, error } = await supabaseAdmin
-        .from('checklists')
-        .select('id, grid_cell_id, time_spent_minutes, submitted_at')
-        .eq('user_id', req.user.id)
-        .order('submitted_at', { ascending: false });
-
-      if (error) {
-        console.warn('Supabase checklists fetch failed:', error.message || error);
-        if (!pool) return res.status(503).json({ error: 'Database unavailable', hint: 'Supabase fallback failed' });
-      } else {
-        const rows = (Array.isArray(data) ? data : []).map((row) => {
-          return {
-            id: row.id,
-            grid_cell_id: row.grid_cell_id,
-            time_spent_minutes: row.time_spent_minutes,
-            submitted_at: row.submitted_at,
-            location_count: 0,
-            species_count: 0
-          };
-        });
-        return res.json(rows);
-      }
+      processed.push({ file, ...(await processPhoto(file.buffer)) });
     } catch (err) {
-      console.error('Supabase checklists exception:', err.message || err);
-      if (!pool) return res.status(503).json({ error: 'Database unavailable' });
+      if (err.code === 'INVALID_IMAGE') {
+        return res.status(422).json({ error: 'Unprocessable Entity', code: 'INVALID_IMAGE', hint: `${file.originalname}: ${err.message}` });
+      }
+      console.error('Photo processing error:', err && err.stack ? err.stack : err);
+      return res.status(500).json({ error: 'Server error' });
     }
   }
-  if (!pool) {
-    console.warn('GET /api/checklists: Postgres pool unavailable; no supabaseAdmin or supabase failed');
-    return res.status(503).json({ error: 'Database unavailable' });
+
+  const created = [];
+  let unsavedKeys = [];
+  try {
+    for (const { file, exif, full, thumbnail } of processed) {
+      const base = `${observation.id}/${crypto.randomUUID()}`;
+      const storageKey = `${base}.jpg`;
+      const thumbnailKey = `${base}_thumb.jpg`;
+      unsavedKeys = [storageKey, thumbnailKey];
+      await storage.save(storageKey, full.buffer, full.contentType);
+      await storage.save(thumbnailKey, thumbnail.buffer, thumbnail.contentType);
+      created.push(await repositories.photos.create({
+        observationId: observation.id,
+        userId,
+        storageKey,
+        thumbnailKey,
+        contentType: full.contentType,
+        width: full.width,
+        height: full.height,
+        sizeBytes: full.buffer.length,
+        originalFilename: file.originalname || null,
+        takenAt: exif.taken_at,
+        lat: exif.lat,
+        lng: exif.lng
+      }));
+      unsavedKeys = [];
+    }
+    const photos = await Promise.all(created.map((row) => photoResponse(storage, row)));
+    return res.status(201).json({ success: true, observationId: observation.id, photos });
+  } catch (error) {
+    // Photos stored before the failure stay attached; only the files of the failed one are cleaned up.
+    await removePhotoFiles(storage, unsavedKeys);
+    return sendDataError(res, error, 'Photo upload');
   }
+});
+
+// ============= PROFILE ENDPOINT =============
+
+// The signed-in observer's account and contribution: checklist count, total effort, grid cells visited,
+// life list (species with first sighting) and first records (first of a species in a grid cell).
+app.get('/api/profile', authenticateToken, async (req, res) => {
+  const repositories = req.app.locals.repositories;
+  let account = null;
   try {
-    const result = await pool.query(`
-      SELECT 
-        c.id,
-        c.grid_cell_id,
-        c.time_spent_minutes,
-        c.submitted_at,
-        COUNT(DISTINCT cl.id) as location_count,
-        COUNT(DISTINCT so.id) as species_count
-      FROM checklists c
-      LEFT JOIN checklist_locations cl ON c.id = cl.checklist_id
-      LEFT JOIN species_observations so ON c.id = so.checklist_id
-      WHERE c.user_id = $1
-      GROUP BY c.id
-      ORDER BY c.submitted_at DESC
-    `, [req.user.id]);
-
-    res.json(result.rows);
-  } catch (error) {
-    console.error('Get checklists error:', error);
-    res.status(500).json({ error: 'Server error' });
+    account = await repositories.users.get(req.user.id);
+  } catch (err) {
+    // Token claims are enough to show the statistics
+    console.warn('Profile account lookup failed:', err.message || err);
+  }
+
+  try {
+    const stats = await repositories.checklists.statsForUser(req.user.id);
+    return res.json({
+      user: {
+        id: req.user.id,
+        email: account?.email || req.user.email || null,
+        name: account?.name || null,
+        locale: account?.locale || null,
+        created_at: account?.created_at || null,
+        alias: observerAlias(req.user.id)
+      },
+      stats
+    });
+  } catch (error) {
+    return sendDataError(res, error, 'Get profile');
   }
 });
 
-// Get checklist details
-app.get('/api/checklists/:id', authenticateToken, async (req, res) => {
-  const checklistId = req.params.id;
-  if (!checklistId) return res.status(400).json({ error: 'Bad Request', hint: 'Checklist ID is required' });
+// ============= VALIDATION ENDPOINTS =============
 
-  // Prefer supabaseAdmin when available
-  if (supabaseAdmin) {
-    try {
-      const { data, error } = await supabaseAdmin
-        .from('checklists')
-        .select('*')
-        .eq('id', checklistId)
-        .eq('user_id', req.user.id)
-        .limit(1)
-        .maybeSingle();
-      if (error) {
-        console.warn('Supabase checklist fetch failed:', error.message || error);
-        if (!pool) return res.status(503).json({ error: 'Database unavailable', hint: 'Supabase fetch failed' });
-      } else {
-        if (!data) return res.status(404).json({ error: 'Checklist not found' });
-        const locations = data.locations || data.locations_json || data.locations_data || [];
-        const species = data.species || data.species_json || data.species_data || [];
-        return res.json({ ...data, locations, species });
-      }
-    } catch (err) {
-      console.error('Supabase checklist details exception:', err.message || err);
-      if (!pool) return res.status(503).json({ error: 'Database unavailable' });
-    }
+const VALIDATION_STATUSES = ['pending', 'accepted', 'rejected', 'needs_info'];
+
+// The observer has to be told why, so these statuses need a comment.
+const VALIDATION_STATUSES_NEEDING_COMMENT = ['rejected', 'needs_info'];
+
+const VALIDATION_DEFAULT_LIMIT = 50;
+const VALIDATION_MAX_LIMIT = 200;
+
+// Observation as shown to validators, without user ids: the observer by alias and display name, if known.
+const validationObservation = ({ user_id: userId, validated_by: _validatedBy, ...row }, names = {}) => ({
+  ...row,
+  observer: observerAlias(userId),
+  observer_name: names[String(userId)] || null
+});
+
+// Observations awaiting validation, oldest first.
+//   ?status=<pending|accepted|rejected|needs_info>  default pending
+//   ?species=<taxon id, scientific name or synonym>
+//   ?grid_cell=<id> or ?bbox=minLng,minLat,maxLng,maxLat  region (grid cells intersecting the box)
+//   ?limit=<1-200>&offset=<n>
+app.get('/api/validation/observations', authenticateToken, requireRole('validator'), async (req, res) => {
+  const status = req.query.status === undefined ? 'pending' : String(req.query.status);
+  if (!VALIDATION_STATUSES.includes(status)) {
+    return res.status(400).json({ error: 'Bad Request', hint: `status must be one of ${VALIDATION_STATUSES.join(', ')}` });
   }
-  if (!pool) {
-    console.warn('GET /api/checklists/:id: Postgres pool unavailable; no supabaseAdmin or supabase failed');
-    return res.status(503).json({ error: 'Database unavailable' });
+  const limit = req.query.limit === undefined ? VALIDATION_DEFAULT_LIMIT : Number(req.query.limit);
+  if (!Number.isInteger(limit) || limit < 1 || limit > VALIDATION_MAX_LIMIT) {
+    return res.status(400).json({ error: 'Bad Request', hint: `limit must be an integer between 1 and ${VALIDATION_MAX_LIMIT}` });
+  }
+  const offset = req.query.offset === undefined ? 0 : Number(req.query.offset);
+  if (!Number.isInteger(offset) || offset < 0) {
+    return res.status(400).json({ error: 'Bad Request', hint: 'offset must be a non-negative integer' });
+  }
+  let bbox;
+  try {
+    bbox = parseBbox(req.query.bbox);
+  } catch (err) {
+    return res.status(400).json({ error: 'Bad Request', hint: err.message });
   }
 
-    // Get checklist info
-    try {
-    const checklistResult = await pool.query(`
-      SELECT * FROM checklists WHERE id = $1 AND user_id = $2
-    `, [checklistId, req.user.id]);
+  const repositories = req.app.locals.repositories;
+  try {
+    let taxonId = null;
+    if (req.query.species !== undefined) {
+      const key = String(req.query.species);
+      const resolved = await repositories.species.resolve([key]);
+      if (!resolved[key]) return res.status(404).json({ error: 'Species not found' });
+      taxonId = resolved[key].id;
+    }
 
-    if (checklistResult.rows.length === 0) {
-      return res.status(404).json({ error: 'Checklist not found' });
+    let gridCellIds = null;
+    if (req.query.grid_cell !== undefined) gridCellIds = [String(req.query.grid_cell)];
+    if (bbox) {
+      const inBbox = (await repositories.gridCells.list({ bbox, withGeometry: false })).map((cell) => String(cell.id));
+      gridCellIds = gridCellIds ? gridCellIds.filter((id) => inBbox.includes(id)) : inBbox;
     }
 
-    const checklist = checklistResult.rows[0];
-
-    // Get locations
-    const locationsResult = await pool.query(`
-      SELECT 
-        location_type,
-        ST_Y(geom) as lat,
-        ST_X(geom) as lng
-      FROM checklist_locations
-      WHERE checklist_id = $1
-    `, [checklistId]);
-
-    // Get species observations
-    const speciesResult = await pool.query(`
-      SELECT species_name, count
-      FROM species_observations
-      WHERE checklist_id = $1
-      ORDER BY species_name
-    `, [checklistId]);
+    const rows = gridCellIds && !gridCellIds.length
+      ? []
+      : await repositories.observations.listForValidation({ status, taxonId, gridCellIds, limit, offset });
+    const names = await observerNames(req, [...new Set(rows.map((row) => String(row.user_id)))]);
+    const observations = await attachPhotos(req, rows.map((row) => validationObservation(row, names)));
+    return res.json({ status, limit, offset, observations });
+  } catch (error) {
+    return sendDataError(res, error, 'List observations for validation');
+  }
+});
 
-    res.json({
-      ...checklist,
-      locations: locationsResult.rows,
-      species: speciesResult.rows
-    });
+// Sets the validation status of one observation. Rejecting or asking for more information needs a comment.
+app.patch('/api/validation/observations/:id', authenticateToken, requireRole('validator'), validateBody('observationValidation'), async (req, res) => {
+  const observationId = Number(req.params.id);
+  if (!Number.isInteger(observationId) || observationId < 1) {
+    return res.status(400).json({ error: 'Bad Request', hint: 'Observation id must be a positive integer' });
+  }
+  const { status } = req.body;
+  const comment = typeof req.body.comment === 'string' && req.body.comment.trim() ? req.body.comment.trim() : null;
+  if (!comment && VALIDATION_STATUSES_NEEDING_COMMENT.includes(status)) {
+    const fields = [{ path: 'comment', message: 'is required' }];
+    return res.status(400).json({ error: 'Validation failed', hint: `comment is required when the status is ${status}`, fields });
+  }
 
-    } catch (error) {
-    console.error('Get checklist details error:', error);
-    res.status(500).json({ error: 'Server error' });
+  try {
+    const observation = await req.app.locals.repositories.observations.setValidation({
+      observationId,
+      status,
+      comment,
+      validatorId: req.user.id
+    });
+    if (!observation) return res.status(404).json({ error: 'Observation not found' });
+    return res.json(validationObservation(observation, await observerNames(req, [observation.user_id])));
+  } catch (error) {
+    return sendDataError(res, error, 'Validate observation');
   }
 });
 
 // ============= NEWS ENDPOINTS =============
 
-// Get news items (public)
+// Language to serve news in: ?lang= (nl, fr or en, "fr-BE" counts as fr), else Accept-Language, else Dutch.
+// Unlike /api/species/search an unknown lang is not an error: readers still get the news in the default language.
+const requestedNewsLanguage = (req, res) => {
+  const lang = newsLanguage(req.query.lang);
+  if (lang) return lang;
+  res.vary('Accept-Language');
+  return req.acceptsLanguages(...NEWS_LANGUAGES) || DEFAULT_NEWS_LANGUAGE;
+};
+
+// Get published news items (public), each in the requested language when translated (see lib/news)
 app.get('/api/news', async (req, res) => {
+  const lang = requestedNewsLanguage(req, res);
   try {
-    if (supabaseAdmin) {
-      const { data, error } = await supabaseAdmin
-        .from('news')
-        .select('*')
-        .limit(50);
-      if (error && error.code !== '42P01') {
-        console.warn('Supabase news query failed:', error.message);
-      } else if (data && data.length) {
-        const normalized = data.map(normalizeNewsRow);
-        normalized.sort((a, b) => {
-          const aDate = new Date(a.published_date || 0).getTime();
-          const bDate = new Date(b.published_date || 0).getTime();
-          return bDate - aDate;
-        });
-        return res.json(normalized);
-      }
-    }
+    const items = await req.app.locals.repositories.news.list({ limit: 50 });
+    return res.json(items.map((item) => localizeNewsItem(item, lang)));
+  } catch (error) {
+    return sendDataError(res, error, 'Get news', 'News data unavailable');
+  }
+});
 
-    if (pool) {
-      try {
-        const result = await pool.query(`
-          SELECT to_jsonb(news.*) AS row
-          FROM news
-          ORDER BY COALESCE(news.published_date, news.date, news."Date", news.created_at) DESC
-          LIMIT 50
-        `);
-        if (result.rows.length) {
-          return res.json(result.rows.map((row, idx) => normalizeNewsRow(row.row, idx)));
-        }
-      } catch (err) {
-        console.warn('Get news via Postgres failed:', err.message);
-      }
-    }
+const NEWS_FEED_LIMIT = 30;
 
-    return res.status(503).json({ error: 'News data unavailable' });
+// RSS and Atom feeds of the published news for syndication, in ?lang= like /api/news.
+const sendNewsFeed = (build, contentType) => async (req, res) => {
+  const lang = requestedNewsLanguage(req, res);
+  try {
+    const items = await req.app.locals.repositories.news.list({ limit: NEWS_FEED_LIMIT });
+    const feedUrl = `${req.protocol}://${req.get('host')}${req.path}?lang=${lang}`;
+    const feed = build(items.map((item) => localizeNewsItem(item, lang)), { lang, siteUrl: SITE_URL, feedUrl });
+    res.setHeader('Content-Type', `${contentType}; charset=utf-8`);
+    res.setHeader('Cache-Control', 'public, max-age=900');
+    return res.send(feed);
   } catch (error) {
-    console.error('Get news error:', error && error.stack ? error.stack : error);
-    if (process.env.DEBUG_API_ERRORS === 'true') {
-      return res.status(500).json({ error: 'Server error', detail: error.message, stack: error.stack });
-    }
-    res.status(500).json({ error: 'Server error', detail: error.message });
+    return sendDataError(res, error, 'News feed', 'News data unavailable');
+  }
+};
+
+app.get('/api/news/feed.rss', sendNewsFeed(buildRssFeed, 'application/rss+xml'));
+app.get('/api/news/feed.atom', sendNewsFeed(buildAtomFeed, 'application/atom+xml'));
+
+// News management for admins: drafts are only visible here until they are published.
+const NEWS_ADMIN_LIMIT = 200;
+
+// Editor fields from a newsItem body. Empty optional fields become null, and an item that is not a draft
+// needs a publication date, so it gets the current time when none is given. published_date, draft, language
+// and translations are only changed when present.
+const newsItemFromBody = (body) => {
+  const optional = (value) => (typeof value === 'string' && value.trim() ? value.trim() : null);
+  const item = {
+    title: body.title.trim(),
+    content: body.content,
+    image_url: optional(body.image_url),
+    author: optional(body.author),
+    license: optional(body.license)
+  };
+  if (body.published_date !== undefined) {
+    const publishedDate = optional(body.published_date);
+    item.published_date = publishedDate ? new Date(publishedDate).toISOString() : null;
+  }
+  if (body.draft !== undefined) item.draft = body.draft;
+  if (item.draft === false && !item.published_date) item.published_date = new Date().toISOString();
+  if (body.language !== undefined) item.language = body.language;
+  if (body.translations !== undefined) {
+    item.translations = Object.fromEntries(Object.entries(body.translations || {})
+      .map(([lang, translation]) => [lang, { title: translation.title.trim(), content: translation.content }]));
+  }
+  return item;
+};
+
+const invalidPublishedDate = (body) => typeof body.published_date === 'string' && body.published_date.trim()
+  && Number.isNaN(Date.parse(body.published_date));
+
+const publishedDateError = (res) => res.status(400).json({
+  error: 'Validation failed',
+  hint: 'published_date is not a valid date',
+  fields: [{ path: 'published_date', message: 'is not a valid date' }]
+});
+
+const parseNewsId = (value) => {
+  const id = Number(value);
+  return Number.isInteger(id) && id > 0 ? id : null;
+};
+
+const newsIdError = (res) => res.status(400).json({ error: 'Bad Request', hint: 'News id must be a positive integer' });
+
+// All news items, drafts included, newest first.
+app.get('/api/admin/news', authenticateToken, requireRole('admin'), async (req, res) => {
+  try {
+    return res.json(await req.app.locals.repositories.news.list({ limit: NEWS_ADMIN_LIMIT, includeDrafts: true }));
+  } catch (error) {
+    return sendDataError(res, error, 'List news for editing', 'News data unavailable');
+  }
+});
+
+// New item; a draft unless the body says draft: false.
+app.post('/api/admin/news', authenticateToken, requireRole('admin'), validateBody('newsItem'), async (req, res) => {
+  if (invalidPublishedDate(req.body)) return publishedDateError(res);
+  try {
+    const item = await req.app.locals.repositories.news.create(newsItemFromBody(req.body), { createdBy: String(req.user.id) });
+    return res.status(201).json(item);
+  } catch (error) {
+    return sendDataError(res, error, 'Create news', 'News data unavailable');
+  }
+});
+
+// Replaces the editor fields of an item; draft stays as it is when left out.
+app.put('/api/admin/news/:id', authenticateToken, requireRole('admin'), validateBody('newsItem'), async (req, res) => {
+  const id = parseNewsId(req.params.id);
+  if (id === null) return newsIdError(res);
+  if (invalidPublishedDate(req.body)) return publishedDateError(res);
+  try {
+    const item = await req.app.locals.repositories.news.update(id, newsItemFromBody(req.body));
+    if (!item) return res.status(404).json({ error: 'News item not found' });
+    return res.json(item);
+  } catch (error) {
+    return sendDataError(res, error, 'Update news', 'News data unavailable');
+  }
+});
+
+// Makes a draft public; keeps its publication date when one was set (e.g. to backdate an item).
+app.post('/api/admin/news/:id/publish', authenticateToken, requireRole('admin'), async (req, res) => {
+  const id = parseNewsId(req.params.id);
+  if (id === null) return newsIdError(res);
+  try {
+    const item = await req.app.locals.repositories.news.publish(id);
+    if (!item) return res.status(404).json({ error: 'News item not found' });
+    return res.json(item);
+  } catch (error) {
+    return sendDataError(res, error, 'Publish news', 'News data unavailable');
+  }
+});
+
+app.delete('/api/admin/news/:id', authenticateToken, requireRole('admin'), async (req, res) => {
+  const id = parseNewsId(req.params.id);
+  if (id === null) return newsIdError(res);
+  try {
+    const removed = await req.app.locals.repositories.news.remove(id);
+    if (!removed) return res.status(404).json({ error: 'News item not found' });
+    return res.json({ success: true, id });
+  } catch (error) {
+    return sendDataError(res, error, 'Delete news', 'News data unavailable');
   }
 });
 
 // ============= SPECIES ENDPOINT =============
 
-// Returns species list with observation counts. Prefers Supabase tables (species or pill_clams)
-// and falls back to Postgres or local JSON when upstream data is missing.
+// Returns species list with observation counts, from the canonical taxa table.
 app.get('/api/species', async (req, res) => {
   try {
-    const supabaseSpecies = await fetchSupabaseSpeciesTables();
-    if (supabaseSpecies && supabaseSpecies.length) {
-      return res.json(supabaseSpecies);
-    }
+    return res.json(await req.app.locals.repositories.species.list());
+  } catch (error) {
+    return sendDataError(res, error, 'Get species', 'Species data unavailable');
+  }
+});
 
-    const postgresSpecies = await fetchPostgresSpeciesJoin();
-    if (postgresSpecies && postgresSpecies.length) {
-      return res.json(postgresSpecies);
-    }
+const SPECIES_SEARCH_DEFAULT_LIMIT = 20;
+const SPECIES_SEARCH_MAX_LIMIT = 100;
 
-    return res.status(503).json({ error: 'Species data unavailable' });
-  } catch (err) {
-    console.error('Failed to load species:', err && err.stack ? err.stack : err);
-    if (process.env.DEBUG_API_ERRORS === 'true') {
-      return res.status(500).json({ error: 'Server error', detail: err.message, stack: err.stack });
-    }
-    return res.status(500).json({ error: 'Server error' });
+// Ranked, typo-tolerant search over scientific names, Dutch/French/English vernacular names and synonyms.
+// Query: q (required), lang (nl, fr or en; falls back to Accept-Language, then nl), limit (1-100).
+app.get('/api/species/search', async (req, res) => {
+  const q = typeof req.query.q === 'string' ? req.query.q.trim() : '';
+  if (!q) return res.status(400).json({ error: 'Bad Request', hint: 'q is required' });
+
+  const limit = req.query.limit === undefined ? SPECIES_SEARCH_DEFAULT_LIMIT : Number(req.query.limit);
+  if (!Number.isInteger(limit) || limit < 1 || limit > SPECIES_SEARCH_MAX_LIMIT) {
+    return res.status(400).json({ error: 'Bad Request', hint: `limit must be an integer between 1 and ${SPECIES_SEARCH_MAX_LIMIT}` });
+  }
+
+  let lang = typeof req.query.lang === 'string' ? req.query.lang.toLowerCase().split('-')[0] : null;
+  if (lang && !SEARCH_LANGUAGES.includes(lang)) {
+    return res.status(400).json({ error: 'Bad Request', hint: `lang must be one of ${SEARCH_LANGUAGES.join(', ')}` });
+  }
+  if (!lang) {
+    res.vary('Accept-Language');
+    lang = req.acceptsLanguages(...SEARCH_LANGUAGES) || 'nl';
+  }
+
+  try {
+    const catalog = await req.app.locals.repositories.species.catalog();
+    return res.json({ query: q, lang, results: searchSpecies(catalog, q, { lang, limit }) });
+  } catch (error) {
+    return sendDataError(res, error, 'Search species', 'Species data unavailable');
+  }
+});
+
+// Atlas map of one species: the grid cells where it was recorded, as GeoJSON, with per cell
+// first_year/last_year (of the checklists' submission dates), total_count (individuals) and record_count.
+// :id is a taxon id, scientific name or synonym. ?zoom=<0-22> simplifies geometries as /api/grid-cells does.
+app.get('/api/species/:id/distribution', async (req, res) => {
+  const zoom = req.query.zoom !== undefined ? Number(req.query.zoom) : null;
+  if (zoom !== null && (!Number.isInteger(zoom) || zoom < 0 || zoom > 22)) {
+    return res.status(400).json({ error: 'Bad Request', hint: 'zoom must be an integer between 0 and 22' });
+  }
+
+  const repositories = req.app.locals.repositories;
+  try {
+    const resolved = await repositories.species.resolve([req.params.id]);
+    const taxon = resolved[req.params.id];
+    if (!taxon) return res.status(404).json({ error: 'Species not found' });
+
+    const cells = await repositories.species.distribution(taxon.id, {
+      tolerance: toleranceForZoom(zoom),
+      precision: precisionForZoom(zoom)
+    });
+    const summary = { grid_cells: 0, first_year: null, last_year: null, total_count: 0, record_count: 0 };
+    const features = cells
+      .map((cell, idx) => {
+        const feature = normalizeGridCellRow(cell, idx);
+        if (!feature) return null;
+        feature.properties = {
+          id: String(cell.id),
+          label: gridCellLabel(cell.id, cell.properties || {}),
+          first_year: cell.first_year,
+          last_year: cell.last_year,
+          total_count: cell.total_count,
+          record_count: cell.record_count,
+          checklist_count: cell.checklist_count
+        };
+        summary.grid_cells += 1;
+        if (cell.first_year !== null && (summary.first_year === null || cell.first_year < summary.first_year)) {
+          summary.first_year = cell.first_year;
+        }
+        if (cell.last_year !== null && (summary.last_year === null || cell.last_year > summary.last_year)) {
+          summary.last_year = cell.last_year;
+        }
+        summary.total_count += cell.total_count;
+        summary.record_count += cell.record_count;
+        return feature;
+      })
+      .filter(Boolean);
+
+    return res.json({ type: 'FeatureCollection', species: taxon, summary, features });
+  } catch (error) {
+    return sendDataError(res, error, 'Species distribution', 'Species data unavailable');
+  }
+});
+
+// ============= EXPORT ENDPOINTS =============
+
+// Darwin Core Archive of all checklists (events) and species observations (occurrences), for GBIF publishing.
+// Admins only: every request reads all checklists and observations and compresses them anew.
+app.get('/api/export/dwca', authenticateToken, requireRole('admin'), async (req, res) => {
+  let rows;
+  try {
+    rows = await req.app.locals.repositories.stats.dwcaRows();
+  } catch (error) {
+    return sendDataError(res, error, 'DwC-A export', 'Export unavailable');
+  }
+  try {
+    const files = buildDwcaFiles(rows);
+    const filename = `tandonia-dwca-${new Date().toISOString().slice(0, 10)}.zip`;
+    res.setHeader('Content-Type', 'application/zip');
+    res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+    await writeDwcaArchive(files, res);
+  } catch (error) {
+    console.error('DwC-A export error:', error && error.stack ? error.stack : error);
+    if (res.headersSent) return res.end();
+    res.status(500).json({ error: 'Server error' });
+  }
+});
+
+// ============= STATS ENDPOINT =============
+
+// Public coverage summary used by the About page and outreach material.
+app.get('/api/stats/summary', async (req, res) => {
+  try {
+    res.json(await req.app.locals.repositories.stats.summary());
+  } catch (error) {
+    return sendDataError(res, error, 'Stats summary', 'Stats unavailable');
   }
 });
 
@@ -911,6 +1731,15 @@ app.use((err, req, res, next) => {
     // ignore header-setting errors
   }
 
+  // Malformed JSON from express.json(); answer in the same shape as schema validation errors
+  if (err && err.type === 'entity.parse.failed' && !res.headersSent) {
+    return res.status(400).json({
+      error: 'Validation failed',
+      hint: 'body is not valid JSON',
+      fields: [{ path: '', message: 'is not valid JSON' }]
+    });
+  }
+
   console.error('Unhandled error:', err && err.stack ? err.stack : err);
   if (res.headersSent) return next(err);
   res.status((err && err.status) || 500).json({ error: (err && err.message) || 'Server error' });
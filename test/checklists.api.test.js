@@ -0,0 +1,54 @@
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const jwt = require('jsonwebtoken');
+
+process.env.DATA_BACKEND = 'memory';
+process.env.JWT_SECRET = 'test-secret';
+const app = require('../tandonia_backend');
+const { createMemoryRepositories } = require('../lib/repositories');
+
+const cell = {
+  type: 'Polygon',
+  coordinates: [[[4.0, 51.0], [4.1, 51.0], [4.1, 51.1], [4.0, 51.1], [4.0, 51.0]]]
+};
+
+test('POST /api/checklists answers 422 LOCATION_OUTSIDE_GRID_CELL for habitat points outside the cell', async (t) => {
+  t.mock.method(console, 'debug', () => {});
+  app.locals.repositories = createMemoryRepositories({
+    gridCells: [{ id: 7, geom: cell }],
+    taxa: [{ id: 1, scientific_name: 'Arion ater' }]
+  });
+  const server = app.listen(0);
+  t.after(() => server.close());
+  await new Promise((resolve) => server.once('listening', resolve));
+
+  const token = jwt.sign({ id: 'u1', email: 'ann@example.org' }, 'test-secret');
+  const post = async (body) => {
+    const response = await fetch(`http://127.0.0.1:${server.address().port}/api/checklists`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${token}` },
+      body: JSON.stringify(body)
+    });
+    return { status: response.status, body: await response.json() };
+  };
+
+  const outside = await post({
+    gridCellId: '7',
+    timeSpent: 30,
+    locations: { forest: { lat: 51.05, lng: 4.05 }, anthropogenous: { lat: 51.05, lng: 4.25 } },
+    species: { 'Arion ater': 1 }
+  });
+  assert.equal(outside.status, 422);
+  assert.equal(outside.body.code, 'LOCATION_OUTSIDE_GRID_CELL');
+  assert.deepEqual(outside.body.locations, [{ type: 'anthropogenous', lat: 51.05, lng: 4.25, reason: 'outside_grid_cell' }]);
+  assert.deepEqual(await app.locals.repositories.checklists.listForUser('u1'), []);
+
+  const inside = await post({
+    gridCellId: '7',
+    timeSpent: 30,
+    locations: { forest: { lat: 51.05, lng: 4.05 } },
+    species: { 'Arion ater': 1 }
+  });
+  assert.equal(inside.status, 200);
+  assert.equal((await app.locals.repositories.checklists.listForUser('u1')).length, 1);
+});
@@ -0,0 +1,34 @@
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const { buildDwcaFiles } = require('../lib/dwca');
+
+const parseTsv = (text) => {
+  const [header, ...lines] = text.trim().split('\n').map((line) => line.split('\t'));
+  return lines.map((values) => Object.fromEntries(header.map((field, i) => [field, values[i]])));
+};
+
+test('buildDwcaFiles leaves out rejected and zero-count observations and maps the validation status', () => {
+  const files = buildDwcaFiles({
+    checklists: [{ id: 1, grid_cell_id: 7, submitted_at: '2024-05-01T10:00:00Z', time_spent_minutes: 30 }],
+    observations: [
+      { id: 10, checklist_id: 1, species_name: '1', count: 2, validation_status: 'accepted' },
+      { id: 11, checklist_id: 1, species_name: 'Cepaea nemoralis', count: 1, validation_status: 'rejected' },
+      { id: 12, checklist_id: 1, species_name: 'Arion ater', count: 1, validation_status: 'pending' },
+      { id: 13, checklist_id: 1, species_name: 'Arion ater', count: 0, validation_status: 'accepted' },
+      { id: 14, checklist_id: 99, species_name: 'Arion ater', count: 3, validation_status: 'accepted' }
+    ],
+    species: [{ id: 1, scientific_name: 'Arion rufus' }]
+  });
+
+  const occurrences = parseTsv(files['occurrence.txt']);
+  assert.deepEqual(occurrences.map((o) => [o.occurrenceID, o.scientificName, o.identificationVerificationStatus]), [
+    ['tandonia:observation:10', 'Arion rufus', 'verified'],
+    ['tandonia:observation:12', 'Arion ater', 'unverified']
+  ]);
+  assert.ok(occurrences.every((o) => o.eventID === 'tandonia:checklist:1'));
+
+  const [event] = parseTsv(files['event.txt']);
+  assert.equal(event.eventDate, '2024-05-01');
+  assert.equal(event.samplingEffort, '30 minutes');
+  assert.equal(event.locationID, 'tandonia:grid:7');
+});
@@ -0,0 +1,38 @@
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const { pointInGeometry } = require('../lib/geometry');
+const { fromLambert72, lambert72PointEwkt, toLambert72 } = require('../lib/crs');
+
+const square = (x, y, size = 0.1) => [[x, y], [x + size, y], [x + size, y + size], [x, y + size], [x, y]];
+
+test('pointInGeometry checks [lng, lat] positions against polygons, holes and multipolygons', () => {
+  const cell = { type: 'Polygon', coordinates: [square(4.0, 51.0)] };
+  assert.equal(pointInGeometry(cell, [4.05, 51.05]), true);
+  assert.equal(pointInGeometry(cell, [4.15, 51.05]), false);
+  // Swapped lat/lng lands far outside the cell.
+  assert.equal(pointInGeometry(cell, [51.05, 4.05]), false);
+
+  const withHole = { type: 'Polygon', coordinates: [square(4.0, 51.0), square(4.04, 51.04, 0.02)] };
+  assert.equal(pointInGeometry(withHole, [4.05, 51.05]), false);
+  assert.equal(pointInGeometry(withHole, [4.01, 51.01]), true);
+
+  const multi = { type: 'MultiPolygon', coordinates: [[square(4.0, 51.0)], [square(5.0, 50.0)]] };
+  assert.equal(pointInGeometry(multi, [5.05, 50.05]), true);
+  assert.equal(pointInGeometry(multi, [4.5, 50.5]), false);
+
+  assert.equal(pointInGeometry(null, [4.05, 51.05]), false);
+  assert.equal(pointInGeometry({ type: 'Point', coordinates: [4.05, 51.05] }, [4.05, 51.05]), false);
+});
+
+test('toLambert72 projects WGS84 to Belgian Lambert 72 metres and back', () => {
+  // Grand-Place, Brussels
+  const { x, y } = toLambert72({ lat: 50.8467, lng: 4.3525 });
+  assert.ok(Math.abs(x - 148900) < 1000, `x = ${x}`);
+  assert.ok(Math.abs(y - 170600) < 1000, `y = ${y}`);
+
+  const back = fromLambert72({ x, y });
+  assert.ok(Math.abs(back.lat - 50.8467) < 1e-7);
+  assert.ok(Math.abs(back.lng - 4.3525) < 1e-7);
+
+  assert.match(lambert72PointEwkt({ lat: '50.8467', lng: '4.3525' }), /^SRID=31370;POINT\(\d+\.\d{3} \d+\.\d{3}\)$/);
+});
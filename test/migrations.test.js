@@ -0,0 +1,114 @@
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const fs = require('fs');
+const os = require('os');
+const path = require('path');
+const { listMigrations, runMigrations } = require('../lib/migrations');
+
+const migrationsDir = (t, files) => {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'tandonia-migrations-'));
+  t.after(() => fs.rmSync(dir, { recursive: true, force: true }));
+  for (const [file, sql] of Object.entries(files)) fs.writeFileSync(path.join(dir, file), sql);
+  return dir;
+};
+
+// A pool whose single client answers the runner's own queries and records every statement it is sent.
+const fakePool = ({ applied = null, supabase = true } = {}) => {
+  const statements = [];
+  let table = applied !== null;
+  const rows = [...(applied || [])];
+  const client = {
+    async query(sql, params = []) {
+      statements.push(sql.trim());
+      if (/to_regclass\('public.schema_migrations'\)/.test(sql)) return { rows: [{ exists: table }] };
+      if (/pg_roles/.test(sql)) return { rows: [{ supabase }] };
+      if (/FROM public.schema_migrations/.test(sql)) return { rows };
+      if (/CREATE TABLE IF NOT EXISTS public.schema_migrations/.test(sql)) table = true;
+      if (/INSERT INTO public.schema_migrations/.test(sql)) {
+        rows.push({ version: params[0], name: params[1], checksum: params[2], applied_at: new Date() });
+      }
+      return { rows: [] };
+    },
+    release() {}
+  };
+  return { pool: { connect: async () => client }, statements, rows };
+};
+
+const files = {
+  '0001_create_tables.sql': 'CREATE TABLE one ();',
+  '0002_insert_checklist.sql': 'CREATE FUNCTION two ();',
+  '0010_news.sql': 'CREATE TABLE ten ();',
+  'README.md': 'not a migration'
+};
+const silent = () => {};
+
+test('listMigrations sorts by numeric version and ignores other files', (t) => {
+  const dir = migrationsDir(t, files);
+  assert.deepEqual(listMigrations(dir).map((m) => m.file), ['0001_create_tables.sql', '0002_insert_checklist.sql', '0010_news.sql']);
+
+  const duplicate = migrationsDir(t, { '01_a.sql': '', '1_b.sql': '' });
+  assert.throws(() => listMigrations(duplicate), /Duplicate migration version/);
+});
+
+test('baseline records earlier migrations without running them and applies the rest', async (t) => {
+  const dir = migrationsDir(t, files);
+  const { pool, statements, rows } = fakePool();
+  const summary = await runMigrations(pool, { dir, baseline: '2', log: silent });
+
+  assert.deepEqual(summary, {
+    applied: ['0010_news.sql'],
+    baselined: ['0001_create_tables.sql', '0002_insert_checklist.sql'],
+    pending: []
+  });
+  assert.deepEqual(rows.map((row) => row.version), ['0001', '0002', '0010']);
+  assert.ok(statements.includes('CREATE TABLE ten ();'));
+  assert.ok(!statements.includes('CREATE TABLE one ();') && !statements.includes('CREATE FUNCTION two ();'));
+
+  const again = fakePool({ applied: rows });
+  assert.deepEqual(await runMigrations(again.pool, { dir, log: silent }), { applied: [], baselined: [], pending: [] });
+});
+
+test('dry run reports pending and baselined migrations without writing anything', async (t) => {
+  const dir = migrationsDir(t, files);
+  const { pool, statements, rows } = fakePool({ applied: [] });
+  const summary = await runMigrations(pool, { dir, dryRun: true, baseline: '1', log: silent });
+
+  assert.deepEqual(summary, {
+    applied: [],
+    baselined: ['0001_create_tables.sql'],
+    pending: ['0002_insert_checklist.sql', '0010_news.sql']
+  });
+  assert.deepEqual(rows, []);
+  assert.ok(statements.every((sql) => /^SELECT/.test(sql)), statements.join('\n'));
+});
+
+test('refuses to apply migrations to a database that is not a Supabase project', async (t) => {
+  const dir = migrationsDir(t, files);
+  const plain = fakePool({ supabase: false });
+  await assert.rejects(runMigrations(plain.pool, { dir, log: silent }), /Not a Supabase database/);
+  assert.ok(plain.statements.every((sql) => /^SELECT/.test(sql)));
+
+  // Baselining alone runs none of the scripts, so it is allowed anywhere.
+  const baselineOnly = fakePool({ supabase: false });
+  const summary = await runMigrations(baselineOnly.pool, { dir, baseline: '10', log: silent });
+  assert.equal(summary.baselined.length, 3);
+});
+
+test('a failing migration is rolled back and stops the run', async (t) => {
+  const dir = migrationsDir(t, { ...files, '0002_insert_checklist.sql': 'BROKEN' });
+  const { pool, statements, rows } = fakePool();
+  const client = await pool.connect();
+  const query = client.query;
+  client.query = async (sql, params) => {
+    if (sql === 'BROKEN') {
+      statements.push(sql);
+      throw new Error('syntax error');
+    }
+    return query(sql, params);
+  };
+
+  await assert.rejects(runMigrations(pool, { dir, log: silent }), /0002_insert_checklist.sql: syntax error/);
+  assert.deepEqual(rows.map((row) => row.version), ['0001']);
+  assert.equal(statements[statements.indexOf('BROKEN') + 1], 'ROLLBACK');
+  assert.ok(!statements.includes('CREATE TABLE ten ();'));
+});
@@ -0,0 +1,43 @@
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const { buildAtomFeed, buildRssFeed } = require('../lib/newsFeed');
+
+const items = [{
+  id: 3,
+  lang: 'en',
+  title: 'Slugs & <snails> "after rain"',
+  content: 'First <b>paragraph</b>\nsecond line\n\nSee https://example.org/?a=1&b=2',
+  image_url: 'https://example.org/photo.png?size=large&v=2',
+  author: 'Ann <ann@example.org>',
+  license: 'CC BY 4.0',
+  published_date: '2024-05-01T08:00:00Z',
+  updated_at: '2024-05-02T08:00:00Z'
+}];
+const options = { lang: 'en', siteUrl: 'https://tandonia.be', feedUrl: 'https://tandonia.be/api/news/feed.xml?lang=en&x=1' };
+
+// Everything between tags must be escaped text: no stray markup from the item fields.
+const assertNoRawMarkup = (xml) => {
+  assert.doesNotMatch(xml, /<snails>|<b>|<br>|<p>|<img /);
+  assert.doesNotMatch(xml, /&(?!amp;|lt;|gt;|quot;)/);
+};
+
+test('buildRssFeed escapes titles, links and HTML content', () => {
+  const xml = buildRssFeed(items, options);
+  assertNoRawMarkup(xml);
+  assert.match(xml, /<title>Slugs &amp; &lt;snails&gt; &quot;after rain&quot;<\/title>/);
+  assert.match(xml, /<atom:link href="https:\/\/tandonia.be\/api\/news\/feed.xml\?lang=en&amp;x=1"/);
+  // The entry HTML is escaped once as HTML and once more as XML text.
+  assert.match(xml, /&lt;p&gt;First &amp;lt;b&amp;gt;paragraph&amp;lt;\/b&amp;gt;&lt;br&gt;second line&lt;\/p&gt;/);
+  assert.match(xml, /<enclosure url="https:\/\/example.org\/photo.png\?size=large&amp;v=2" length="0" type="image\/png"\/>/);
+  assert.match(xml, /<media:credit>Ann &lt;ann@example.org&gt;<\/media:credit>/);
+  assert.match(xml, /<pubDate>Wed, 01 May 2024 08:00:00 GMT<\/pubDate>/);
+});
+
+test('buildAtomFeed escapes the same fields and credits the photo in rights', () => {
+  const xml = buildAtomFeed(items, options);
+  assertNoRawMarkup(xml);
+  assert.match(xml, /<title>Slugs &amp; &lt;snails&gt; &quot;after rain&quot;<\/title>/);
+  assert.match(xml, /<rights>Photo: Ann &lt;ann@example.org&gt; · License: CC BY 4.0<\/rights>/);
+  assert.match(xml, /<content type="html" xml:lang="en">&lt;p&gt;&lt;img src=&quot;https:\/\/example.org\/photo.png\?size=large&amp;amp;v=2&quot;/);
+  assert.match(xml, /<updated>2024-05-02T08:00:00.000Z<\/updated>/);
+});
@@ -0,0 +1,115 @@
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const {
+  createLockout,
+  createMemoryRateLimitStore,
+  createRateLimitStore,
+  createSupabaseRateLimitStore,
+  rateLimit
+} = require('../lib/rateLimit');
+
+const fakeResponse = () => {
+  const res = { statusCode: 200, headers: {}, body: null };
+  res.set = (name, value) => { res.headers[name] = value; return res; };
+  res.status = (code) => { res.statusCode = code; return res; };
+  res.json = (body) => { res.body = body; return res; };
+  return res;
+};
+
+test('memory store counts hits per window and starts over once it expires', async () => {
+  let time = 1000;
+  const store = createMemoryRateLimitStore({ now: () => time });
+  assert.deepEqual(await store.increment('k', 500), { count: 1, resetAt: 1500 });
+  assert.deepEqual(await store.increment('k', 500), { count: 2, resetAt: 1500 });
+  assert.deepEqual(await store.get('k'), { count: 2, resetAt: 1500 });
+
+  time = 1500;
+  assert.equal(await store.get('k'), null);
+  assert.deepEqual(await store.increment('k', 500), { count: 1, resetAt: 2000 });
+  await store.reset('k');
+  assert.equal(await store.get('k'), null);
+});
+
+test('rateLimit answers 429 with Retry-After once a key is over its limit', async () => {
+  const limit = rateLimit(createMemoryRateLimitStore(), { name: 'test', windowMs: 60_000, max: 2, key: (req) => req.ip });
+  const call = async (ip) => {
+    const res = fakeResponse();
+    let passed = false;
+    await limit({ ip }, res, () => { passed = true; });
+    return { passed, res };
+  };
+
+  assert.equal((await call('1.2.3.4')).passed, true);
+  assert.equal((await call('1.2.3.4')).passed, true);
+  const { passed, res } = await call('1.2.3.4');
+  assert.equal(passed, false);
+  assert.equal(res.statusCode, 429);
+  assert.equal(res.headers['Retry-After'], '60');
+  assert.equal(res.body.retryAfter, 60);
+
+  assert.equal((await call('5.6.7.8')).passed, true);
+  assert.equal((await call(undefined)).passed, true);
+});
+
+test('lockout starts at the threshold and doubles each further failure up to the cap', async () => {
+  const lockout = createLockout(createMemoryRateLimitStore(), {
+    name: 'login',
+    threshold: 3,
+    baseMs: 60_000,
+    maxMs: 300_000,
+    windowMs: 3_600_000
+  });
+  const retryAfterEachFailure = [];
+  for (let i = 0; i < 6; i += 1) {
+    await lockout.recordFailure('ann@example.org');
+    retryAfterEachFailure.push(await lockout.retryAfter('ann@example.org'));
+  }
+  assert.deepEqual(retryAfterEachFailure, [null, null, 60, 120, 240, 300]);
+  assert.equal(await lockout.retryAfter('bob@example.org'), null);
+
+  await lockout.clear('ann@example.org');
+  assert.equal(await lockout.retryAfter('ann@example.org'), null);
+  await lockout.recordFailure('ann@example.org');
+  assert.equal(await lockout.retryAfter('ann@example.org'), null);
+});
+
+test('lockout fails open when its store is unavailable', async (t) => {
+  t.mock.method(console, 'warn', () => {});
+  const broken = {
+    async increment() { throw new Error('down'); },
+    async get() { throw new Error('down'); },
+    async reset() { throw new Error('down'); }
+  };
+  const lockout = createLockout(broken, { name: 'login', threshold: 1, baseMs: 1000, maxMs: 1000, windowMs: 1000 });
+  await lockout.recordFailure('ann@example.org');
+  assert.equal(await lockout.retryAfter('ann@example.org'), null);
+});
+
+test('createRateLimitStore shares counters through a configured database unless told otherwise', (t) => {
+  const warn = t.mock.method(console, 'warn', () => {});
+  const supabase = {};
+  const pool = {};
+  assert.equal(createRateLimitStore({ supabase, getPool: () => pool, env: {} }).name, 'supabase');
+  assert.equal(createRateLimitStore({ getPool: () => pool, env: {} }).name, 'postgres');
+  assert.equal(createRateLimitStore({ supabase, env: { RATE_LIMIT_STORE: 'memory' } }).name, 'memory');
+  assert.equal(createRateLimitStore({ env: {} }).name, 'memory');
+  assert.equal(warn.mock.callCount(), 0);
+
+  assert.equal(createRateLimitStore({ env: { VERCEL: '1' } }).name, 'memory');
+  assert.equal(warn.mock.callCount(), 1);
+  assert.throws(() => createRateLimitStore({ env: { RATE_LIMIT_STORE: 'redis' } }), /Unknown RATE_LIMIT_STORE/);
+});
+
+test('supabase store counts through the rate_limit_hit RPC', async () => {
+  const calls = [];
+  const resetAt = '2030-01-01T00:00:00.000Z';
+  const supabase = {
+    async rpc(name, args) {
+      calls.push([name, args]);
+      return { data: [{ count: 3, reset_at: resetAt }], error: null };
+    }
+  };
+  const store = createSupabaseRateLimitStore(supabase);
+  assert.deepEqual(await store.increment('login-ip:1.2.3.4', 60_000), { count: 3, resetAt: Date.parse(resetAt) });
+  assert.deepEqual(calls, [['rate_limit_hit', { limit_key: 'login-ip:1.2.3.4', window_ms: 60_000 }]]);
+});
@@ -0,0 +1,125 @@
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const { createMemoryRepositories } = require('../lib/repositories');
+
+const square = (x, y) => ({
+  type: 'Polygon',
+  coordinates: [[[x, y], [x + 0.1, y], [x + 0.1, y + 0.1], [x, y + 0.1], [x, y]]]
+});
+
+const seed = () => ({
+  gridCells: [{ id: 7, geom: square(4.0, 51.0) }, { id: 8, geom: square(4.1, 51.0) }],
+  taxa: [{ id: 1, scientific_name: 'Arion ater' }, { id: 2, scientific_name: 'Cepaea nemoralis' }]
+});
+
+test('checklists.create stores the checklist with its locations and observations', async () => {
+  const repos = createMemoryRepositories(seed());
+  const { id, duplicate } = await repos.checklists.create({
+    userId: 'u1',
+    gridCellId: 7,
+    timeSpentMinutes: 30,
+    locations: { forest: { lat: 51.05, lng: 4.05 } },
+    species: { 1: 2, 2: 0 }
+  });
+  assert.equal(duplicate, false);
+
+  const checklist = await repos.checklists.getForUser(id, 'u1');
+  assert.equal(checklist.time_spent_minutes, 30);
+  assert.deepEqual(checklist.locations, [{ location_type: 'forest', lat: 51.05, lng: 4.05 }]);
+  assert.deepEqual(checklist.species.map((s) => [s.species_name, s.count, s.validation_status]), [['Arion ater', 2, 'pending']]);
+  assert.equal(await repos.checklists.getForUser(id, 'u2'), null);
+});
+
+test('checklists.create returns the existing checklist for a repeated submissionId', async () => {
+  const repos = createMemoryRepositories(seed());
+  const input = { userId: 'u1', gridCellId: 7, timeSpentMinutes: 30, species: { 1: 1 }, submissionId: 'sub-1' };
+  const first = await repos.checklists.create(input);
+  const again = await repos.checklists.create(input);
+  assert.deepEqual(again, { id: first.id, duplicate: true });
+
+  // The same submission id from another observer is a different checklist.
+  const other = await repos.checklists.create({ ...input, userId: 'u2' });
+  assert.equal(other.duplicate, false);
+  assert.notEqual(other.id, first.id);
+  assert.equal((await repos.checklists.listForUser('u1')).length, 1);
+});
+
+test('checklists.update replaces species and locations and records a revision', async () => {
+  const repos = createMemoryRepositories(seed());
+  const { id } = await repos.checklists.create({
+    userId: 'u1',
+    gridCellId: 7,
+    timeSpentMinutes: 30,
+    locations: { forest: { lat: 51.05, lng: 4.05 } },
+    species: { 1: 2 }
+  });
+
+  assert.equal(await repos.checklists.update({ checklistId: id, userId: 'u2', timeSpentMinutes: 5 }), null);
+
+  const { revisionId } = await repos.checklists.update({
+    checklistId: id,
+    userId: 'u1',
+    timeSpentMinutes: 45,
+    species: { 2: 3 },
+    locations: { anthropogenous: { lat: 51.06, lng: 4.06 } }
+  });
+  const checklist = await repos.checklists.getForUser(id, 'u1');
+  assert.equal(checklist.time_spent_minutes, 45);
+  assert.deepEqual(checklist.species.map((s) => [s.species_name, s.count]), [['Cepaea nemoralis', 3]]);
+  assert.deepEqual(checklist.locations.map((l) => l.location_type), ['anthropogenous']);
+
+  const [revision] = await repos.checklists.revisions(id, 'u1');
+  assert.equal(revision.id, revisionId);
+  assert.equal(revision.action, 'update');
+  assert.equal(revision.snapshot.checklist.time_spent_minutes, 30);
+  assert.deepEqual(revision.snapshot.species.map((s) => s.species_name), ['Arion ater']);
+});
+
+test('observations.listForValidation filters by status, taxon and grid cell', async () => {
+  const repos = createMemoryRepositories(seed());
+  await repos.checklists.create({ userId: 'u1', gridCellId: 7, timeSpentMinutes: 10, species: { 1: 1, 2: 1 } });
+  await repos.checklists.create({ userId: 'u2', gridCellId: 8, timeSpentMinutes: 10, species: { 1: 4 } });
+
+  const all = await repos.observations.listForValidation();
+  assert.equal(all.length, 3);
+  assert.deepEqual(all.map((o) => o.id), [...all.map((o) => o.id)].sort((a, b) => a - b));
+
+  const [first] = all;
+  const validated = await repos.observations.setValidation({
+    observationId: first.id,
+    status: 'accepted',
+    comment: 'fine',
+    validatorId: 'v1'
+  });
+  assert.equal(validated.validation_status, 'accepted');
+  assert.equal(validated.validated_by, 'v1');
+
+  const pending = await repos.observations.listForValidation({ status: 'pending' });
+  assert.equal(pending.length, 2);
+  assert.ok(pending.every((o) => o.id !== first.id));
+
+  const arion = await repos.observations.listForValidation({ taxonId: 1 });
+  assert.deepEqual(arion.map((o) => o.species_name), ['Arion ater', 'Arion ater']);
+
+  const inCell = await repos.observations.listForValidation({ taxonId: '1', gridCellIds: ['8'] });
+  assert.equal(inCell.length, 1);
+  assert.equal(inCell[0].user_id, 'u2');
+
+  assert.equal((await repos.observations.listForValidation({ limit: 1, offset: 1 }))[0].id, all[1].id);
+  assert.equal(await repos.observations.setValidation({ observationId: 999, status: 'rejected', validatorId: 'v1' }), null);
+});
+
+test('checklists.update sends an observation back to pending only when its count changes', async () => {
+  const repos = createMemoryRepositories(seed());
+  const { id } = await repos.checklists.create({ userId: 'u1', gridCellId: 7, timeSpentMinutes: 10, species: { 1: 2, 2: 1 } });
+  for (const observation of await repos.observations.listForValidation()) {
+    await repos.observations.setValidation({ observationId: observation.id, status: 'accepted', validatorId: 'v1' });
+  }
+
+  await repos.checklists.update({ checklistId: id, userId: 'u1', species: { 1: 2, 2: 5 } });
+  const statuses = (await repos.checklists.getForUser(id, 'u1')).species
+    .map((s) => [s.species_name, s.count, s.validation_status, s.validated_at]);
+  assert.deepEqual(statuses.map((row) => row.slice(0, 3)), [['Arion ater', 2, 'accepted'], ['Cepaea nemoralis', 5, 'pending']]);
+  assert.ok(statuses[0][3]);
+  assert.equal(statuses[1][3], null);
+});
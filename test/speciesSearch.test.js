@@ -0,0 +1,57 @@
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const { normalizeSearchText, searchSpecies } = require('../lib/speciesSearch');
+
+const catalog = [
+  {
+    id: 1,
+    scientific_name: 'Euglesa casertana',
+    dutch_name: 'Gewone erwtenmossel',
+    french_name: 'Pisidie commune',
+    english_name: 'Caserta pea clam',
+    synonyms: ['pisidium casertanum'],
+    observation_count: 5
+  },
+  { id: 2, scientific_name: 'Arion ater', dutch_name: 'Zwarte wegslak', english_name: 'Black slug', observation_count: 1 },
+  { id: 3, scientific_name: 'Arion rufus', dutch_name: 'Rode wegslak', english_name: 'Red slug', observation_count: 9 },
+  { id: 4, scientific_name: 'Cepaea nemoralis', french_name: 'Escargot des haies', observation_count: 0 }
+];
+
+test('normalizeSearchText drops case, diacritics and punctuation', () => {
+  assert.equal(normalizeSearchText('  Pisidie  (Élégante)! '), 'pisidie elegante');
+  assert.equal(normalizeSearchText(null), '');
+});
+
+test('searchSpecies ranks exact, prefix and vernacular matches and breaks ties on observations', () => {
+  const [exact] = searchSpecies(catalog, 'arion ater');
+  assert.equal(exact.id, 2);
+  assert.equal(exact.score, 1);
+
+  // Both Arion species match the genus prefix equally; the more observed one comes first.
+  assert.deepEqual(searchSpecies(catalog, 'arion').map((r) => r.id), [3, 2]);
+
+  const [dutch] = searchSpecies(catalog, 'wegslak', { lang: 'nl' });
+  assert.equal(dutch.matched_field, 'vernacular');
+  assert.equal(dutch.vernacular_name, 'Rode wegslak');
+
+  const [french] = searchSpecies(catalog, 'escargot des haies', { lang: 'fr' });
+  assert.equal(french.id, 4);
+  assert.equal(french.vernacular_name, 'Escargot des haies');
+  // In another language the same name still matches, ranked as an other-language vernacular name.
+  assert.ok(searchSpecies(catalog, 'escargot des haies', { lang: 'en' })[0].score < french.score);
+});
+
+test('searchSpecies tolerates typos in longer queries and matches synonyms', () => {
+  const [fuzzy] = searchSpecies(catalog, 'pisidum casertanm');
+  assert.equal(fuzzy.id, 1);
+  assert.equal(fuzzy.matched_field, 'synonym');
+  assert.ok(fuzzy.score > 0 && fuzzy.score < 0.6);
+
+  assert.equal(searchSpecies(catalog, 'cepae nemorallis')[0].id, 4);
+  // Swapped letters count as one edit.
+  assert.equal(searchSpecies(catalog, 'arino rufus')[0].id, 3);
+  // Too short for typo tolerance, and nothing contains it literally.
+  assert.deepEqual(searchSpecies(catalog, 'aro'), []);
+  assert.deepEqual(searchSpecies(catalog, 'xylophone'), []);
+  assert.deepEqual(searchSpecies(catalog, '  '), []);
+});